@@ -0,0 +1,24 @@
+import { RateLimiter } from './RateLimiter';
+
+describe('RateLimiter', () => {
+  test('Lets calls through immediately while under the limit', async () => {
+    const limiter = new RateLimiter({ perSecond: 3 });
+    const startedAt = Date.now();
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    expect(Date.now() - startedAt).toBeLessThan(200);
+  });
+
+  test('Delays calls that exceed the window', async () => {
+    const limiter = new RateLimiter({ perSecond: 2 });
+    const startedAt = Date.now();
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+  });
+
+  test('Does nothing without limits', async () => {
+    const limiter = new RateLimiter({});
+    const startedAt = Date.now();
+    await Promise.all(Array.from({ length: 100 }, () => limiter.acquire()));
+    expect(Date.now() - startedAt).toBeLessThan(200);
+  });
+});
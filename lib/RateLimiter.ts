@@ -0,0 +1,83 @@
+/**
+ * Message rate limits. Every configured window is enforced at the same time.
+ * @typedef {Object} RateLimitOptions
+ * @property {number} [perSecond] - Maximum messages per second.
+ * @property {number} [perMinute] - Maximum messages per minute.
+ * @property {number} [perHour] - Maximum messages per hour.
+ */
+export interface RateLimitOptions {
+  perSecond?: number;
+  perMinute?: number;
+  perHour?: number;
+}
+
+/**
+ * Sliding-window rate limiter that delays callers until a slot is free.
+ * @class RateLimiter
+ */
+export class RateLimiter {
+  private windows: Array<{ size: number; limit: number }>;
+  private history: number[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates an instance of RateLimiter.
+   * @param {RateLimitOptions} limits - The limits to enforce.
+   */
+  constructor(limits: RateLimitOptions) {
+    this.windows = [
+      { size: 1000, limit: limits.perSecond },
+      { size: 60 * 1000, limit: limits.perMinute },
+      { size: 60 * 60 * 1000, limit: limits.perHour },
+    ].filter((window): window is { size: number; limit: number } => !!window.limit && window.limit > 0);
+  }
+
+  /**
+   * Waits until a message may be sent and records it. Callers are served in order.
+   * @returns {Promise<void>}
+   */
+  public acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForSlot());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Computes how long the next caller has to wait.
+   * @private
+   * @param {number} now - The current time in milliseconds.
+   * @returns {number} - The wait in milliseconds (0 if a slot is free).
+   */
+  private delayUntilFree(now: number): number {
+    let delay = 0;
+    for (const window of this.windows) {
+      const inWindow = this.history.filter(sentAt => sentAt > now - window.size);
+      if (inWindow.length >= window.limit) {
+        // The slot frees up when the oldest send that still counts leaves the window
+        const oldest = inWindow[inWindow.length - window.limit];
+        delay = Math.max(delay, oldest + window.size - now);
+      }
+    }
+    return delay;
+  }
+
+  /**
+   * Sleeps until every window has room, then records the send.
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async waitForSlot(): Promise<void> {
+    if (this.windows.length === 0) return;
+
+    let delay = this.delayUntilFree(Date.now());
+    while (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = this.delayUntilFree(Date.now());
+    }
+
+    const now = Date.now();
+    const longest = Math.max(...this.windows.map(window => window.size));
+    this.history = this.history.filter(sentAt => sentAt > now - longest);
+    this.history.push(now);
+  }
+}
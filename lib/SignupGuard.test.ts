@@ -0,0 +1,61 @@
+import { SignupGuard, MxResolver } from './SignupGuard';
+import { LocalStore } from './stores/LocalStore';
+
+describe('SignupGuard', () => {
+  test('Applies honeypot and domain rules', async () => {
+    const guard = new SignupGuard({ blockDisposable: true, denyDomains: ['@spam.io'] }, new LocalStore());
+
+    expect(await guard.check({ email: 'ana@test.com', honeypot: 'http://bot.example' })).toEqual({ reason: 'honeypot', message: 'Signup rejected' });
+    expect(await guard.check({ email: 'ana@test.com', honeypot: '' })).toBeNull();
+    expect((await guard.check({ email: 'x@mail.spam.io' }))?.reason).toBe('domain_denied');
+    expect((await guard.check({ email: 'x@Mailinator.com' }))?.reason).toBe('disposable_domain');
+
+    expect(await guard.check({ email: 'x@burner.dev' })).toBeNull();
+    guard.updateDisposableDomains(['burner.dev']);
+    expect((await guard.check({ email: 'x@burner.dev' }))?.reason).toBe('disposable_domain');
+    expect(guard.updateDisposableDomains(['only.dev'], true)).toBe(1);
+    expect(await guard.check({ email: 'x@mailinator.com' })).toBeNull();
+
+    const allowList = new SignupGuard({ allowDomains: ['acme.com'] }, new LocalStore());
+    expect(await allowList.check({ email: 'ana@eu.acme.com' })).toBeNull();
+    expect((await allowList.check({ email: 'ana@other.com' }))?.reason).toBe('domain_not_allowed');
+  });
+
+  test('Limits signups per IP and per domain within fixed windows', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(60000);
+    const guard = new SignupGuard({
+      ipRateLimit: { max: 2, windowMs: 60000 },
+      domainRateLimit: { max: 3, windowMs: 60000 },
+    }, new LocalStore());
+
+    expect(await guard.check({ email: 'a@test.com', ip: '203.0.113.7' })).toBeNull();
+    expect(await guard.check({ email: 'b@test.com', ip: '203.0.113.7' })).toBeNull();
+    expect((await guard.check({ email: 'c@test.com', ip: '203.0.113.7' }))?.reason).toBe('ip_rate_limited');
+    expect(await guard.check({ email: 'd@test.com', ip: '198.51.100.1' })).toBeNull();
+    expect((await guard.check({ email: 'e@test.com' }))?.reason).toBe('domain_rate_limited');
+
+    now.mockReturnValue(120000);
+    expect(await guard.check({ email: 'f@test.com', ip: '203.0.113.7' })).toBeNull();
+    now.mockRestore();
+  });
+
+  test('Verifies MX records through the injected resolver', async () => {
+    const records: Record<string, Array<{ exchange: string; priority: number }>> = {
+      'mail.com': [{ exchange: 'mx.mail.com', priority: 10 }],
+      'nullmx.com': [{ exchange: '.', priority: 0 }],
+    };
+    const resolver: jest.MockedFunction<MxResolver> = jest.fn(async domain => {
+      if (domain === 'slow.com') throw Object.assign(new Error('timeout'), { code: 'ETIMEOUT' });
+      if (!records[domain]) throw Object.assign(new Error('not found'), { code: 'ENOTFOUND' });
+      return records[domain];
+    });
+    const guard = new SignupGuard({ verifyMx: true, resolver }, new LocalStore());
+
+    expect(await guard.check({ email: 'a@mail.com' })).toBeNull();
+    expect(await guard.check({ email: 'b@mail.com' })).toBeNull();
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(await guard.check({ email: 'a@nullmx.com' })).toEqual({ reason: 'no_mx', message: 'Email domain does not accept mail' });
+    expect((await guard.check({ email: 'a@missing.com' }))?.reason).toBe('no_mx');
+    expect(await guard.check({ email: 'a@slow.com' })).toBeNull();
+  });
+});
@@ -0,0 +1,229 @@
+import { promises as dns } from 'dns';
+import { WaitlistStore } from './stores/WaitlistStore';
+import { DISPOSABLE_DOMAINS } from './disposableDomains';
+
+/**
+ * Looks up the MX records of a domain. Matches `dns.promises.resolveMx`.
+ * @typedef {Function} MxResolver
+ */
+export type MxResolver = (domain: string) => Promise<Array<{ exchange: string; priority: number }>>;
+
+/**
+ * A fixed-window signup limit.
+ * @typedef {Object} SignupRateLimit
+ * @property {number} max - The maximum number of signups per window.
+ * @property {number} windowMs - The window length in milliseconds.
+ */
+export interface SignupRateLimit {
+  max: number;
+  windowMs: number;
+}
+
+/**
+ * Signup abuse protection. Every check is off unless configured.
+ * @typedef {Object} SignupProtectionOptions
+ * @property {SignupRateLimit} [ipRateLimit] - Limits signups per IP address (passed as `ip` to `addEmail`).
+ * @property {SignupRateLimit} [domainRateLimit] - Limits signups per email domain.
+ * @property {'memory' | 'store'} [rateLimitStorage='memory'] - Keeps counters in memory (per process) or in the waitlist store (shared by every instance).
+ * @property {boolean} [blockDisposable=false] - Rejects addresses at known disposable email domains.
+ * @property {string[]} [disposableDomains] - Replaces the bundled list of disposable domains.
+ * @property {string[]} [allowDomains] - When set, only these domains may sign up.
+ * @property {string[]} [denyDomains] - Domains that may never sign up.
+ * @property {boolean} [verifyMx=false] - Rejects domains that publish no MX records.
+ * @property {MxResolver} [resolver] - The MX lookup used by `verifyMx`; defaults to `dns.promises.resolveMx`.
+ */
+export interface SignupProtectionOptions {
+  ipRateLimit?: SignupRateLimit;
+  domainRateLimit?: SignupRateLimit;
+  rateLimitStorage?: 'memory' | 'store';
+  blockDisposable?: boolean;
+  disposableDomains?: string[];
+  allowDomains?: string[];
+  denyDomains?: string[];
+  verifyMx?: boolean;
+  resolver?: MxResolver;
+}
+
+/**
+ * Why a signup was rejected.
+ * @typedef {'honeypot' | 'domain_not_allowed' | 'domain_denied' | 'disposable_domain' | 'ip_rate_limited' | 'domain_rate_limited' | 'no_mx'} SignupRejectionReason
+ */
+export type SignupRejectionReason =
+  | 'honeypot'
+  | 'domain_not_allowed'
+  | 'domain_denied'
+  | 'disposable_domain'
+  | 'ip_rate_limited'
+  | 'domain_rate_limited'
+  | 'no_mx';
+
+/**
+ * A rejected signup, emitted with `onSignupRejected`.
+ * @typedef {Object} SignupRejection
+ * @property {SignupRejectionReason} reason - The reason code.
+ * @property {string} message - A message that can be shown to the subscriber.
+ */
+export interface SignupRejection {
+  reason: SignupRejectionReason;
+  message: string;
+}
+
+/**
+ * A signup to check.
+ * @typedef {Object} SignupAttempt
+ * @property {string} email - The email address.
+ * @property {string} [ip] - The client's IP address.
+ * @property {unknown} [honeypot] - The value of the hidden form field that only bots fill in.
+ */
+export interface SignupAttempt {
+  email: string;
+  ip?: string;
+  honeypot?: unknown;
+}
+
+/**
+ * How long MX lookups are cached, in milliseconds.
+ * @constant {number} MX_CACHE_TTL
+ */
+const MX_CACHE_TTL = 10 * 60 * 1000;
+
+/**
+ * The most domains kept in the MX cache before it is emptied.
+ * @constant {number} MX_CACHE_SIZE
+ */
+const MX_CACHE_SIZE = 1000;
+
+/**
+ * DNS error codes meaning the domain has no usable mail records.
+ * @constant {string[]} MISSING_RECORD_CODES
+ */
+const MISSING_RECORD_CODES = ['ENOTFOUND', 'ENODATA', 'ENONAME'];
+
+/**
+ * Normalizes a list of domains.
+ * @param {string[]} [domains=[]] - The domains.
+ * @returns {Set<string>}
+ */
+function toDomainSet(domains: string[] = []): Set<string> {
+  return new Set(domains.map(domain => domain.trim().toLowerCase().replace(/^@/, '')).filter(Boolean));
+}
+
+/**
+ * Checks whether a domain or one of its parent domains is in a set (`mail.acme.com` matches `acme.com`).
+ * @param {string} domain - The lower-cased domain.
+ * @param {Set<string>} domains - The set to search.
+ * @returns {boolean}
+ */
+function inDomainSet(domain: string, domains: Set<string>): boolean {
+  const labels = domain.split('.');
+  return labels.some((_label, index) => domains.has(labels.slice(index).join('.')));
+}
+
+/**
+ * Screens signups for abuse: honeypot fields, domain rules, rate limits and MX records.
+ * Checks run from cheapest to most expensive and stop at the first rejection.
+ * @class SignupGuard
+ */
+export class SignupGuard {
+  private disposableDomains: Set<string>;
+  private allowDomains: Set<string>;
+  private denyDomains: Set<string>;
+  private mxCache: Map<string, { valid: boolean; expiresAt: number }> = new Map();
+
+  /**
+   * Creates an instance of SignupGuard.
+   * @param {SignupProtectionOptions} options - The checks to run.
+   * @param {Pick<WaitlistStore, 'incrementCounter'>} counters - Where rate-limit counters are kept.
+   */
+  constructor(private options: SignupProtectionOptions, private counters: Pick<WaitlistStore, 'incrementCounter'>) {
+    this.disposableDomains = toDomainSet(options.disposableDomains ?? DISPOSABLE_DOMAINS);
+    this.allowDomains = toDomainSet(options.allowDomains);
+    this.denyDomains = toDomainSet(options.denyDomains);
+  }
+
+  /**
+   * Checks a signup.
+   * @param {SignupAttempt} attempt - The signup.
+   * @returns {Promise<SignupRejection | null>} - Why the signup is rejected, or null if it may proceed.
+   * @throws {Error} If a rate-limit counter cannot be updated.
+   */
+  public async check(attempt: SignupAttempt): Promise<SignupRejection | null> {
+    if (attempt.honeypot !== undefined && attempt.honeypot !== null && String(attempt.honeypot).trim() !== '') {
+      return { reason: 'honeypot', message: 'Signup rejected' };
+    }
+
+    const domain = attempt.email.slice(attempt.email.lastIndexOf('@') + 1).toLowerCase();
+    if (this.allowDomains.size > 0 && !inDomainSet(domain, this.allowDomains)) {
+      return { reason: 'domain_not_allowed', message: 'Email domain is not allowed' };
+    }
+    if (inDomainSet(domain, this.denyDomains)) {
+      return { reason: 'domain_denied', message: 'Email domain is not allowed' };
+    }
+    if (this.options.blockDisposable && inDomainSet(domain, this.disposableDomains)) {
+      return { reason: 'disposable_domain', message: 'Disposable email addresses are not allowed' };
+    }
+
+    const { ipRateLimit, domainRateLimit } = this.options;
+    if (ipRateLimit && attempt.ip && (await this.hit(`ip:${attempt.ip}`, ipRateLimit)) > ipRateLimit.max) {
+      return { reason: 'ip_rate_limited', message: 'Too many signups, please try again later' };
+    }
+    if (domainRateLimit && (await this.hit(`domain:${domain}`, domainRateLimit)) > domainRateLimit.max) {
+      return { reason: 'domain_rate_limited', message: 'Too many signups, please try again later' };
+    }
+
+    if (this.options.verifyMx && !(await this.hasMx(domain))) {
+      return { reason: 'no_mx', message: 'Email domain does not accept mail' };
+    }
+    return null;
+  }
+
+  /**
+   * Adds to or replaces the list of disposable domains, e.g. with a list fetched from a community source.
+   * @param {string[]} domains - The domains.
+   * @param {boolean} [replace=false] - Whether the domains replace the current list instead of extending it.
+   * @returns {number} - The number of domains on the list.
+   */
+  public updateDisposableDomains(domains: string[], replace: boolean = false): number {
+    const additions = toDomainSet(domains);
+    this.disposableDomains = replace ? additions : new Set([...this.disposableDomains, ...additions]);
+    return this.disposableDomains.size;
+  }
+
+  /**
+   * Counts a signup in the current window of a limit.
+   * @private
+   * @param {string} key - What is limited (e.g., `ip:203.0.113.7`).
+   * @param {SignupRateLimit} limit - The limit.
+   * @returns {Promise<number>} - The number of signups in the window, including this one.
+   */
+  private hit(key: string, limit: SignupRateLimit): Promise<number> {
+    const now = Date.now();
+    const window = Math.floor(now / limit.windowMs);
+    return this.counters.incrementCounter(`signup:${key}:${limit.windowMs}:${window}`, new Date((window + 1) * limit.windowMs), new Date(now));
+  }
+
+  /**
+   * Checks whether a domain publishes MX records. Lookup failures other than a missing domain let the signup through.
+   * @private
+   * @param {string} domain - The domain.
+   * @returns {Promise<boolean>}
+   */
+  private async hasMx(domain: string): Promise<boolean> {
+    const cached = this.mxCache.get(domain);
+    if (cached && cached.expiresAt > Date.now()) return cached.valid;
+
+    let valid: boolean;
+    try {
+      const records = await (this.options.resolver ?? dns.resolveMx)(domain);
+      // A single "." exchange is a null MX (RFC 7505): the domain accepts no mail
+      valid = records.some(record => record.exchange !== '' && record.exchange !== '.');
+    } catch (error) {
+      if (!MISSING_RECORD_CODES.includes((error as NodeJS.ErrnoException).code ?? '')) return true;
+      valid = false;
+    }
+
+    if (this.mxCache.size >= MX_CACHE_SIZE) this.mxCache.clear();
+    this.mxCache.set(domain, { valid, expiresAt: Date.now() + MX_CACHE_TTL });
+    return valid;
+  }
+}
@@ -0,0 +1,96 @@
+import path from 'path';
+import os from 'os';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { TemplateRegistry } from './TemplateRegistry';
+import { WaitlistMailer, StorageType, MailTransport } from './index';
+
+const directory = path.join(__dirname, 'templates');
+
+describe('TemplateRegistry', () => {
+  test('Renders templates inside the base layout with partials', async () => {
+    const registry = new TemplateRegistry({ directory });
+    await registry.load();
+
+    const html = registry.render('welcome', { username: 'Ana', email: 'ana@test.com', companyName: 'TestCo' });
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain('<h1>Welcome Ana!</h1>');
+    expect(html).toContain('<p>TestCo</p>');
+  });
+
+  test('Picks locale variants and falls back to the default', async () => {
+    const registry = new TemplateRegistry({ directory, layout: false });
+    await registry.load();
+
+    expect(registry.render('welcome', { username: 'Ana' }, { locale: 'es-MX' })).toContain('¡Bienvenido Ana!');
+    expect(registry.render('welcome', { username: 'Jo' }, { locale: 'fr' })).toContain('Welcome Jo!');
+    expect(registry.has('welcome')).toBe(true);
+    expect(() => registry.render('missing', {})).toThrow('Template not found: missing');
+  });
+
+  test('Rejects unknown layouts and renders only after loading', async () => {
+    expect(() => new TemplateRegistry({ directory }).render('welcome', {})).toThrow('Templates have not been loaded');
+    await expect(new TemplateRegistry({ directory, layout: 'missing' }).load()).rejects.toThrow('Layout not found: missing');
+  });
+
+  describe('Subject and plain-text parts', () => {
+    let tempDirectory: string;
+
+    beforeAll(async () => {
+      tempDirectory = await mkdtemp(path.join(os.tmpdir(), 'waitlist-templates-'));
+      await mkdir(path.join(tempDirectory, 'layouts'));
+      await writeFile(path.join(tempDirectory, 'layouts', 'base.hbs'), '<main>{{{body}}}</main>');
+      await writeFile(path.join(tempDirectory, 'launch.hbs'), '---\nsubject: {{companyName}} & you\nlayout: none\n---\n<p>Hi {{email}}</p>');
+      await writeFile(path.join(tempDirectory, 'launch.txt.hbs'), 'Hi {{email}} & welcome\n');
+      await writeFile(path.join(tempDirectory, 'launch.es.txt.hbs'), 'Hola {{email}}');
+    });
+
+    afterAll(async () => {
+      await rm(tempDirectory, { recursive: true, force: true });
+    });
+
+    test('Reads the subject from front matter and the text from the sibling template', async () => {
+      const registry = new TemplateRegistry({ directory: tempDirectory });
+      await registry.load();
+
+      expect(registry.renderMessage('launch', { email: 'a@test.com', companyName: 'A&B' })).toEqual({
+        subject: 'A&B & you',
+        html: '<p>Hi a@test.com</p>',
+        text: 'Hi a@test.com & welcome',
+      });
+      expect(registry.renderMessage('launch', { email: 'a@test.com' }, { locale: 'es' }).text).toBe('Hola a@test.com');
+    });
+
+    test('Rejects unknown front matter keys', async () => {
+      await writeFile(path.join(tempDirectory, 'broken.hbs'), '---\nfrom: someone\n---\n<p>Hi</p>');
+      await expect(new TemplateRegistry({ directory: tempDirectory }).load()).rejects.toThrow('Invalid front matter in template broken');
+      await rm(path.join(tempDirectory, 'broken.hbs'));
+    });
+  });
+
+  test('Sends in the subscriber locale through the mailer', async () => {
+    const transport: MailTransport & { send: jest.Mock } = {
+      name: 'memory',
+      verify: jest.fn().mockResolvedValue(undefined),
+      send: jest.fn().mockResolvedValue({ messageId: 'memory-id' }),
+    };
+    const mailer = new WaitlistMailer(StorageType.Local, { from: 'noreply@test.com', transports: [transport] }, {
+      companyName: 'TestCo',
+      templates: { directory },
+    });
+    await mailer.waitForInitialization();
+    await mailer.addEmail('ana@test.com', { locale: 'es' });
+
+    const subject = jest.fn((email: string, locale: string) => (locale === 'es' ? 'Bienvenido' : 'Welcome'));
+    expect(await mailer.sendTemplate('ana@test.com', 'welcome', subject, { username: 'Ana' })).toBe(true);
+    expect(transport.send).toHaveBeenCalledWith(expect.objectContaining({
+      subject: 'Bienvenido',
+      html: expect.stringContaining('¡Bienvenido Ana!'),
+      text: expect.stringContaining('¡Bienvenido Ana!'),
+    }));
+
+    await mailer.setLocale('ana@test.com', null);
+    await mailer.sendTemplate('ana@test.com', 'welcome', subject, { username: 'Ana' });
+    expect(transport.send).toHaveBeenLastCalledWith(expect.objectContaining({ subject: 'Welcome' }));
+    await mailer.close();
+  });
+});
@@ -0,0 +1,275 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import Handlebars from 'handlebars';
+
+/**
+ * Settings for a template directory.
+ * The directory holds `<name>.hbs` templates and `<name>.<locale>.hbs` locale variants, with
+ * shared partials in `partials/` (used as `{{> footer}}`) and layouts in `layouts/` (which render the template through `{{{body}}}`).
+ * A sibling `<name>.txt.hbs` (or `<name>.<locale>.txt.hbs`) provides the plain-text part, and a front matter block
+ * at the top of a template can set its `subject` and `layout`:
+ *
+ * ```
+ * ---
+ * subject: Welcome to {{companyName}}
+ * ---
+ * <h1>Welcome!</h1>
+ * ```
+ * @typedef {Object} TemplateRegistryOptions
+ * @property {string} directory - The template directory (e.g., `lib/templates`).
+ * @property {string} [defaultLocale='en'] - The locale used when a subscriber has none or their locale has no variant.
+ * @property {string | false} [layout='base'] - The layout wrapped around every template; `false` disables layouts.
+ */
+export interface TemplateRegistryOptions {
+  directory: string;
+  defaultLocale?: string;
+  layout?: string | false;
+}
+
+/**
+ * Per-render options.
+ * @typedef {Object} RenderOptions
+ * @property {string} [locale] - The preferred locale (e.g., `es` or `es-MX`).
+ * @property {string | false} [layout] - Overrides the configured layout.
+ */
+export interface RenderOptions {
+  locale?: string;
+  layout?: string | false;
+}
+
+/**
+ * A rendered message.
+ * @typedef {Object} RenderedMessage
+ * @property {string} [subject] - The subject from the template's front matter, if it has one.
+ * @property {string} html - The HTML body, wrapped in the layout.
+ * @property {string} [text] - The plain-text body from the sibling `.txt.hbs` template, if there is one.
+ */
+export interface RenderedMessage {
+  subject?: string;
+  html: string;
+  text?: string;
+}
+
+/**
+ * A compiled HTML template with its front matter.
+ * @private
+ */
+interface CompiledTemplate {
+  html: HandlebarsTemplateDelegate;
+  subject?: HandlebarsTemplateDelegate;
+  layout?: string | false;
+}
+
+/**
+ * The file extension of template files.
+ * @constant {string} TEMPLATE_EXTENSION
+ */
+const TEMPLATE_EXTENSION = '.hbs';
+
+/**
+ * The suffix (before the extension) of plain-text templates.
+ * @constant {string} TEXT_SUFFIX
+ */
+const TEXT_SUFFIX = '.txt';
+
+/**
+ * Matches a front matter block at the start of a template.
+ * @constant {RegExp} FRONT_MATTER
+ */
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Loads a template directory once and renders cached, compiled templates by name and locale.
+ * @class TemplateRegistry
+ */
+export class TemplateRegistry {
+  private options: TemplateRegistryOptions;
+  private templates: Map<string, CompiledTemplate> = new Map();
+  private texts: Map<string, HandlebarsTemplateDelegate> = new Map();
+  private layouts: Map<string, HandlebarsTemplateDelegate> = new Map();
+  private loaded: boolean = false;
+
+  /**
+   * Creates an instance of TemplateRegistry.
+   * @param {TemplateRegistryOptions} options - The directory settings.
+   */
+  constructor(options: TemplateRegistryOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Reads and compiles the directory. Calling it again reloads every template.
+   * @returns {Promise<void>}
+   * @throws {Error} If the directory cannot be read or a configured layout does not exist.
+   */
+  public async load(): Promise<void> {
+    // A private Handlebars environment keeps partials from leaking between registries
+    const handlebars = Handlebars.create();
+    const { directory } = this.options;
+
+    const partials = await TemplateRegistry.readTemplates(path.join(directory, 'partials'), true);
+    partials.forEach((source, name) => handlebars.registerPartial(name, source));
+
+    const templates = new Map<string, CompiledTemplate>();
+    const texts = new Map<string, HandlebarsTemplateDelegate>();
+    (await TemplateRegistry.readTemplates(directory)).forEach((source, key) => {
+      if (key.endsWith(TEXT_SUFFIX)) {
+        texts.set(key.slice(0, -TEXT_SUFFIX.length), handlebars.compile(source, { noEscape: true }));
+      } else {
+        templates.set(key, TemplateRegistry.compileTemplate(handlebars, key, source));
+      }
+    });
+
+    const layouts = new Map<string, HandlebarsTemplateDelegate>();
+    (await TemplateRegistry.readTemplates(path.join(directory, 'layouts'), true))
+      .forEach((source, key) => layouts.set(key, handlebars.compile(source)));
+
+    const layoutNames = [this.options.layout, ...Array.from(templates.values(), template => template.layout)];
+    const missing = layoutNames.find(layout => typeof layout === 'string' && !layouts.has(layout));
+    if (missing) {
+      throw new Error(`Layout not found: ${missing}`);
+    }
+
+    this.templates = templates;
+    this.texts = texts;
+    this.layouts = layouts;
+    this.loaded = true;
+  }
+
+  /**
+   * Checks whether a template exists in any locale.
+   * @param {string} name - The template name (e.g., `welcome`).
+   * @returns {boolean}
+   */
+  public has(name: string): boolean {
+    return Array.from(this.templates.keys()).some(key => key === name || key.startsWith(`${name}.`));
+  }
+
+  /**
+   * Renders a template in the closest available locale, wrapped in the layout.
+   * Locales fall back from `es-MX` to `es`, then to the default locale, then to the template without a locale suffix.
+   * @param {string} name - The template name.
+   * @param {Record<string, unknown>} context - The template data.
+   * @param {RenderOptions} [options={}] - The locale and layout to use.
+   * @returns {string} - The rendered HTML.
+   * @throws {Error} If the registry is not loaded or the template does not exist.
+   */
+  public render(name: string, context: Record<string, unknown>, options: RenderOptions = {}): string {
+    return this.renderMessage(name, context, options).html;
+  }
+
+  /**
+   * Renders the subject, HTML and plain-text parts of a template in the closest available locale.
+   * @param {string} name - The template name.
+   * @param {Record<string, unknown>} context - The template data.
+   * @param {RenderOptions} [options={}] - The locale and layout to use.
+   * @returns {RenderedMessage}
+   * @throws {Error} If the registry is not loaded or the template does not exist.
+   */
+  public renderMessage(name: string, context: Record<string, unknown>, options: RenderOptions = {}): RenderedMessage {
+    if (!this.loaded) {
+      throw new Error('Templates have not been loaded');
+    }
+
+    const template = this.resolve(this.templates, name, options.locale);
+    if (!template) {
+      throw new Error(`Template not found: ${name}`);
+    }
+
+    const data = { ...context, locale: options.locale ?? this.defaultLocale };
+    const body = template.html(data);
+    const subject = template.subject?.(data).trim();
+    const text = this.resolve(this.texts, name, options.locale)?.(data).trim();
+
+    const layoutName = options.layout ?? template.layout ?? this.options.layout ?? 'base';
+    const layout = layoutName === false ? undefined : this.resolve(this.layouts, layoutName, options.locale);
+    const html = layout ? layout({ ...data, body }) : body;
+
+    return { subject, html, text };
+  }
+
+  /**
+   * The locale used when none is requested.
+   * @returns {string}
+   */
+  public get defaultLocale(): string {
+    return this.options.defaultLocale ?? 'en';
+  }
+
+  /**
+   * Finds the best locale variant of a template.
+   * @private
+   * @param {Map<string, T>} templates - The compiled templates by key.
+   * @param {string} name - The template name.
+   * @param {string} [locale] - The preferred locale.
+   * @returns {T | undefined}
+   */
+  private resolve<T>(templates: Map<string, T>, name: string, locale?: string): T | undefined {
+    const candidates = locale ? [locale, locale.split('-')[0]] : [];
+    candidates.push(this.defaultLocale);
+
+    for (const candidate of candidates) {
+      const template = templates.get(`${name}.${candidate}`);
+      if (template) return template;
+    }
+    return templates.get(name);
+  }
+
+  /**
+   * Compiles a template and its front matter (`subject` and `layout`, one `key: value` per line).
+   * @private
+   * @param {typeof Handlebars} handlebars - The Handlebars environment.
+   * @param {string} key - The template key, for error messages.
+   * @param {string} source - The template source.
+   * @returns {CompiledTemplate}
+   * @throws {Error} If the front matter has an unknown key.
+   */
+  private static compileTemplate(handlebars: typeof Handlebars, key: string, source: string): CompiledTemplate {
+    const match = source.match(FRONT_MATTER);
+    if (!match) {
+      return { html: handlebars.compile(source) };
+    }
+
+    const compiled: CompiledTemplate = { html: handlebars.compile(source.slice(match[0].length)) };
+    for (const line of match[1].split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      const separator = line.indexOf(':');
+      const field = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+
+      if (separator > 0 && field === 'subject') {
+        compiled.subject = handlebars.compile(value, { noEscape: true });
+      } else if (separator > 0 && field === 'layout') {
+        compiled.layout = value === 'false' || value === 'none' ? false : value;
+      } else {
+        throw new Error(`Invalid front matter in template ${key}: ${line.trim()}`);
+      }
+    }
+    return compiled;
+  }
+
+  /**
+   * Reads every template file of a directory, keyed by file name without the extension (e.g., `welcome.es`).
+   * @private
+   * @param {string} directory - The directory to read.
+   * @param {boolean} [optional=false] - Whether a missing directory counts as empty.
+   * @returns {Promise<Map<string, string>>}
+   */
+  private static async readTemplates(directory: string, optional: boolean = false): Promise<Map<string, string>> {
+    const sources = new Map<string, string>();
+    let entries;
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if (optional && (error as NodeJS.ErrnoException).code === 'ENOENT') return sources;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isFile() || !entry.name.endsWith(TEMPLATE_EXTENSION)) continue;
+      const key = entry.name.slice(0, -TEMPLATE_EXTENSION.length);
+      sources.set(key, await readFile(path.join(directory, entry.name), 'utf8'));
+    }
+    return sources;
+  }
+}
@@ -1,8 +1,21 @@
-import { WaitlistMailer, StorageType } from './index';
+import {
+  WaitlistMailer,
+  StorageType,
+  LocalStore,
+  MailTransport,
+  TransportError,
+  SegmentFilter,
+  ConsoleLogger,
+  METRICS,
+  PrometheusExporter,
+} from './index';
 import nodemailer from 'nodemailer';
 import mongoose from 'mongoose';
-import { Sequelize } from 'sequelize';
+import { DataTypes, Sequelize } from 'sequelize';
 import Handlebars from 'handlebars';
+import { readFile } from 'fs/promises';
+import Joi from 'joi';
+import { PassThrough, Readable } from 'stream';
 
 // Silenciar console.log y console.error durante las pruebas
 jest.spyOn(console, 'log').mockImplementation(() => {});
@@ -55,6 +68,52 @@ const createSqlConnection = () =>
     logging: false,
   });
 
+// Esquema de campos usado por los escenarios de segmentos
+const segmentFields = { username: Joi.string().required(), seats: Joi.number(), code: Joi.alternatives().try(Joi.string(), Joi.number()) };
+
+// Escenario de segmentos compartido: los tres backends deben devolver los mismos resultados
+const expectSegmentQueries = async (mailer: WaitlistMailer) => {
+  await mailer.addEmail('ana@acme.com', { username: 'Ana', seats: 10, code: 10 }, { tags: ['VIP'] });
+  await mailer.addEmail('bob@acme.com', { username: 'Bob', seats: 2, code: '10' }, { tags: ['vip'] });
+  const { referralCode } = (await mailer.getReferralStats('ana@acme.com'))!;
+  await mailer.addEmail('cy@other.io', { username: 'Cy' }, { referredBy: referralCode! });
+  await mailer.addEmail('dee@sub.acme.com', { username: 'Dee', seats: 5 });
+
+  const emails = async (query: Parameters<WaitlistMailer['querySubscribers']>[0]) =>
+    (await mailer.querySubscribers(query)).items.map(record => record.email);
+
+  expect(await emails({ filter: { email: { domain: 'ACME.com' } } })).toEqual(['ana@acme.com', 'bob@acme.com']);
+  expect(await emails({ filter: { fields: { seats: { gte: 5 } } }, sort: { field: 'email', direction: 'desc' } }))
+    .toEqual(['dee@sub.acme.com', 'ana@acme.com']);
+  expect(await emails({ filter: { fields: { seats: { exists: false } } } })).toEqual(['cy@other.io']);
+  expect(await emails({ filter: { fields: { seats: { ne: 10 } } }, sort: { field: 'email' } }))
+    .toEqual(['bob@acme.com', 'cy@other.io', 'dee@sub.acme.com']);
+  expect(await emails({ filter: { referralCount: { min: 1 } } })).toEqual(['ana@acme.com']);
+  expect(await emails({ filter: { email: { contains: '.io' }, status: 'confirmed', unsubscribed: false } })).toEqual(['cy@other.io']);
+  expect(await emails({ filter: { createdAt: { from: new Date(Date.now() + 60000) } } })).toEqual([]);
+
+  // Las etiquetas distinguen mayúsculas y los campos comparan también el tipo
+  expect(await emails({ filter: { tags: { all: ['vip'] } } })).toEqual(['bob@acme.com']);
+  expect(await emails({ filter: { tags: { any: ['VIP'] } } })).toEqual(['ana@acme.com']);
+  expect(await emails({ filter: { tags: { none: ['vip'] } }, sort: { field: 'email' } }))
+    .toEqual(['ana@acme.com', 'cy@other.io', 'dee@sub.acme.com']);
+  expect(await emails({ filter: { fields: { code: 10 } } })).toEqual(['ana@acme.com']);
+  expect(await emails({ filter: { fields: { code: { in: ['10'] } } } })).toEqual(['bob@acme.com']);
+  expect(await emails({ filter: { fields: { code: { gte: 5 } } } })).toEqual(['ana@acme.com']);
+  expect(await emails({ filter: { fields: { code: { ne: '10' } } }, sort: { field: 'email' } }))
+    .toEqual(['ana@acme.com', 'cy@other.io', 'dee@sub.acme.com']);
+  expect(await emails({ filter: { fields: { code: null } }, sort: { field: 'email' } })).toEqual(['cy@other.io', 'dee@sub.acme.com']);
+
+  const page = await mailer.querySubscribers({ sort: { field: 'email' }, limit: 2, offset: 1 });
+  expect(page.items.map(record => record.email)).toEqual(['bob@acme.com', 'cy@other.io']);
+  expect(page.total).toBe(4);
+  expect(await mailer.countSubscribers({ fields: { username: { in: ['Ana', 'Bob'] } } })).toBe(2);
+  expect(await mailer.findEmailsByPattern('(')).toEqual([]);
+
+  expect(await mailer.sendBulkConfirmation(() => 'Hi', () => '<p>Hi</p>', 0, 0, { segment: { email: { domain: 'acme.com' } } })).toBe(2);
+  expect(mockSendMail).toHaveBeenCalledTimes(2);
+};
+
 describe('WaitlistMailer - Comprehensive Tests', () => {
   let mailer: WaitlistMailer;
 
@@ -133,6 +192,1479 @@ describe('WaitlistMailer - Comprehensive Tests', () => {
       expect(sent).toBe(true);
       expect(mockCompile).toHaveBeenCalled();
     }, 10000);
+
+    test('Reads and compiles a template file only once', async () => {
+      await mailer.addEmail('test@local.com');
+      mockCompile.mockClear();
+      (readFile as jest.Mock).mockClear();
+      mockSendMail.mockClear();
+
+      // Dos envíos con la misma ruta reutilizan la plantilla compilada
+      expect(await mailer.sendConfirmationFromFile('test@local.com', () => 'Hi', 'mock/cached.hbs')).toBe(true);
+      expect(await mailer.sendConfirmationFromFile('test@local.com', () => 'Hi', 'mock/cached.hbs')).toBe(true);
+      expect(readFile).toHaveBeenCalledTimes(1);
+      expect(mockCompile).toHaveBeenCalledTimes(1);
+      expect(mockSendMail).toHaveBeenCalledTimes(2);
+    }, 10000);
+  });
+
+  // ==================== Custom Storage ====================
+  describe('Custom Storage', () => {
+    let store: LocalStore;
+
+    beforeEach(async () => {
+      store = new LocalStore();
+      mailer = new WaitlistMailer(store, mailConfig, { companyName: 'TestCo' });
+      await mailer.waitForInitialization();
+    });
+
+    test('Routes every operation through the provided store', async () => {
+      const insertSpy = jest.spyOn(store, 'insert');
+      const removeSpy = jest.spyOn(store, 'remove');
+      const savedSpy = jest.fn();
+      mailer.on('onWaitlistSaved', savedSpy);
+
+      await mailer.addEmail('custom@store.com');
+      await mailer.addEmail('other@store.com');
+      expect(insertSpy).toHaveBeenCalledWith(expect.objectContaining({ email: 'custom@store.com' }));
+      expect(await mailer.findEmailsByPattern('custom')).toEqual(['custom@store.com']);
+      expect(await mailer.countWaitlistByDate()).toBe(2);
+
+      await mailer.removeEmail('other@store.com');
+      expect(removeSpy).toHaveBeenCalledWith('other@store.com', 'default');
+      expect(await store.loadEmails()).toEqual(['custom@store.com']);
+
+      expect(await mailer.saveWaitlist()).toBe(true);
+      expect(savedSpy).toHaveBeenCalledWith(['custom@store.com']);
+    }, 10000);
+
+    test('Loads existing entries from the store on startup', async () => {
+      const seeded = new LocalStore();
+      await seeded.insert({ email: 'seeded@store.com' });
+      const other = new WaitlistMailer(seeded, mailConfig);
+      await other.waitForInitialization();
+      expect(other.getWaitlist()).toEqual(['seeded@store.com']);
+      await other.close();
+    }, 10000);
+
+    test('Detects duplicates added by other instances sharing the store', async () => {
+      const other = new WaitlistMailer(store, mailConfig, { companyName: 'TestCo', preload: false });
+      await other.waitForInitialization();
+      const duplicateSpy = jest.fn();
+      other.on('onDuplicateEmail', duplicateSpy);
+
+      await mailer.addEmail('shared@store.com');
+      expect(other.getWaitlist()).toEqual([]);
+      expect(await other.addEmail('shared@store.com')).toBe(false);
+      expect(duplicateSpy).toHaveBeenCalledWith('shared@store.com');
+      expect(await other.sendConfirmation('shared@store.com', () => 'Hi', () => '<p>Hi</p>')).toBe(true);
+
+      // Ambas instancias pasan la consulta previa; el índice único decide
+      const results = await Promise.all([mailer.addEmail('race@store.com'), other.addEmail('race@store.com')]);
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect((await store.loadEmails()).filter(email => email === 'race@store.com')).toHaveLength(1);
+
+      // Sin precarga la lista en memoria es parcial y no se puede guardar
+      expect(await other.saveWaitlist()).toBe(false);
+      expect(await store.loadEmails()).toHaveLength(2);
+      await other.close();
+    }, 10000);
+
+    test('Does not cache an email whose insert failed', async () => {
+      jest.spyOn(store, 'insert').mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(mailer.addEmail('retry@store.com')).rejects.toThrow('Disk full');
+      expect(mailer.getWaitlist()).toEqual([]);
+      expect(await mailer.addEmail('retry@store.com')).toBe(true);
+      expect(mailer.getWaitlist()).toEqual(['retry@store.com']);
+    }, 10000);
+  });
+
+  // ==================== Double Opt-In ====================
+  describe('Double Opt-In', () => {
+    const doubleOptIn = { secret: 'test-secret', confirmUrl: 'https://example.com/confirm' };
+    const tokenFromLastMail = () => {
+      const { html } = mockSendMail.mock.calls[mockSendMail.mock.calls.length - 1][0];
+      return new URL(html.match(/href="([^"]+)"/)[1]).searchParams.get('token') as string;
+    };
+
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, { companyName: 'TestCo', doubleOptIn });
+      await mailer.waitForInitialization();
+    });
+
+    test('Sends a signed confirmation link and confirms the email', async () => {
+      const confirmedSpy = jest.fn();
+      mailer.on('onEmailConfirmed', confirmedSpy);
+
+      expect(await mailer.addEmail('optin@test.com')).toBe(true);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'optin@test.com' }));
+
+      const sentBeforeConfirm = await mailer.sendConfirmation('optin@test.com', () => 'Hi', () => '<p>Hi</p>');
+      expect(sentBeforeConfirm).toBe(false);
+
+      const token = tokenFromLastMail();
+      expect(await mailer.confirmEmail(token)).toBe(true);
+      expect(confirmedSpy).toHaveBeenCalledWith('optin@test.com');
+      expect(await mailer.confirmEmail(token)).toBe(false);
+
+      expect(await mailer.sendConfirmation('optin@test.com', () => 'Hi', () => '<p>Hi</p>')).toBe(true);
+    }, 10000);
+
+    test('Only mails confirmed addresses in bulk', async () => {
+      await mailer.addEmail('confirmed@test.com');
+      await mailer.confirmEmail(tokenFromLastMail());
+      await mailer.addEmail('pending@test.com');
+      mockSendMail.mockClear();
+
+      const sentCount = await mailer.sendBulkConfirmation(() => 'Hi', () => '<p>Hi</p>', 0, 0);
+      expect(sentCount).toBe(1);
+      expect(mockSendMail).toHaveBeenCalledTimes(1);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'confirmed@test.com' }));
+    }, 10000);
+
+    test('Rejects tampered and expired tokens', async () => {
+      const expiredSpy = jest.fn();
+      const shortLived = new WaitlistMailer(StorageType.Local, mailConfig, {
+        doubleOptIn: { ...doubleOptIn, tokenTtl: 1 },
+      });
+      await shortLived.waitForInitialization();
+      shortLived.on('onConfirmationExpired', expiredSpy);
+
+      await shortLived.addEmail('late@test.com');
+      const token = tokenFromLastMail();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(await shortLived.confirmEmail(`${token}x`)).toBe(false);
+      expect(expiredSpy).not.toHaveBeenCalled();
+      expect(await shortLived.confirmEmail(token)).toBe(false);
+      expect(expiredSpy).toHaveBeenCalledWith('late@test.com');
+      await shortLived.close();
+    }, 10000);
+
+    test('Judges token expiry by the configured clock', async () => {
+      let now = new Date('2020-01-01T00:00:00Z');
+      const clocked = new WaitlistMailer(StorageType.Local, mailConfig, {
+        doubleOptIn: { ...doubleOptIn, tokenTtl: 60 * 1000 },
+        clock: () => now,
+      });
+      await clocked.waitForInitialization();
+      const expiredSpy = jest.fn();
+      clocked.on('onConfirmationExpired', expiredSpy);
+
+      // El token caducó hace años en tiempo real, pero no según el reloj inyectado
+      await clocked.addEmail('early@test.com');
+      expect(await clocked.confirmEmail(tokenFromLastMail())).toBe(true);
+
+      await clocked.addEmail('late@test.com');
+      now = new Date('2020-01-01T00:02:00Z');
+      expect(await clocked.confirmEmail(tokenFromLastMail())).toBe(false);
+      expect(expiredSpy).toHaveBeenCalledWith('late@test.com');
+      await clocked.close();
+    }, 10000);
+  });
+
+  // ==================== Referrals ====================
+  describe('Referrals', () => {
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, {
+        companyName: 'TestCo',
+        referrals: { positionsPerReferral: 2, referralUrl: 'https://example.com/join' },
+      });
+      await mailer.waitForInitialization();
+    });
+
+    test('Computes positions in signup order', async () => {
+      await mailer.addEmail('first@test.com');
+      await mailer.addEmail('second@test.com');
+      expect(await mailer.getPosition('first@test.com')).toBe(1);
+      expect(await mailer.getPosition('second@test.com')).toBe(2);
+      expect(await mailer.getPosition('missing@test.com')).toBeNull();
+    }, 10000);
+
+    test('Moves referrers up per successful referral', async () => {
+      const creditedSpy = jest.fn();
+      mailer.on('onReferralCredited', creditedSpy);
+
+      await mailer.addEmail('a@test.com');
+      await mailer.addEmail('b@test.com');
+      await mailer.addEmail('c@test.com');
+      const stats = await mailer.getReferralStats('c@test.com');
+      expect(stats?.referralLink).toBe(`https://example.com/join?ref=${stats?.referralCode}`);
+
+      await mailer.addEmail('d@test.com', { referredBy: stats?.referralCode });
+      expect(creditedSpy).toHaveBeenCalledWith('c@test.com', 'd@test.com');
+      expect(await mailer.getPosition('c@test.com')).toBe(1);
+      expect(await mailer.getReferralStats('c@test.com')).toEqual(expect.objectContaining({ referralCount: 1, position: 1 }));
+      expect(await mailer.getReferralStats('d@test.com')).toEqual(expect.objectContaining({ referredBy: stats?.referralCode }));
+    }, 10000);
+
+    test('Reads stats without writing and backfills missing codes on request', async () => {
+      const seeded = new LocalStore();
+      await seeded.insert({ email: 'legacy@test.com' });
+      await seeded.insert({ email: 'coded@test.com', referralCode: 'abc123' });
+      const other = new WaitlistMailer(seeded, mailConfig, { referrals: { referralUrl: 'https://example.com/join' } });
+      await other.waitForInitialization();
+      const updateSpy = jest.spyOn(seeded, 'update');
+
+      expect(await other.getReferralStats('legacy@test.com')).toEqual({
+        referralCode: null, referralLink: undefined, referralCount: 0, referredBy: null, position: 1,
+      });
+      expect(updateSpy).not.toHaveBeenCalled();
+
+      expect(await other.assignReferralCodes()).toBe(1);
+      expect((await other.getReferralStats('legacy@test.com'))?.referralCode).toMatch(/^[0-9a-f]{12}$/);
+      expect((await other.getReferralStats('coded@test.com'))?.referralCode).toBe('abc123');
+      await other.close();
+    }, 10000);
+
+    test('Exposes position and referral link to file templates', async () => {
+      const render = jest.fn().mockReturnValue('<p>Hi</p>');
+      mockCompile.mockReturnValueOnce(render);
+
+      await mailer.addEmail('tpl@test.com');
+      await mailer.sendConfirmationFromFile('tpl@test.com', () => 'Hi', 'mock/path.hbs');
+      expect(render).toHaveBeenCalledWith(expect.objectContaining({
+        position: 1,
+        referralLink: expect.stringContaining('https://example.com/join?ref='),
+      }));
+    }, 10000);
+  });
+
+  // ==================== Invites ====================
+  describe('Invites', () => {
+    const template = { subject: () => 'You are in', body: () => '<a href="[Invite URL]">Join</a> [Invite Code]' };
+    const codeFromLastMail = () => mockSendMail.mock.calls[mockSendMail.mock.calls.length - 1][0].html.match(/code=([0-9a-f]+)/)[1];
+
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, {
+        companyName: 'TestCo',
+        invites: { inviteUrl: 'https://example.com/welcome' },
+      });
+      await mailer.waitForInitialization();
+    });
+
+    test('Invites the next subscribers by position and redeems their codes once', async () => {
+      const sentSpy = jest.fn();
+      mailer.on('onInviteSent', sentSpy);
+      await mailer.addEmail('a@test.com');
+      await mailer.addEmail('b@test.com');
+      await mailer.addEmail('c@test.com');
+      await mailer.addEmail('d@test.com', { referredBy: (await mailer.getReferralStats('c@test.com'))?.referralCode });
+
+      // c adelanta una posición gracias a la referencia de d
+      const batch = await mailer.inviteNext(2, template, { batchId: 'wave-1' });
+      expect(batch).toEqual({ batchId: 'wave-1', listId: 'default', invited: ['a@test.com', 'c@test.com'], failed: [], skipped: [] });
+      expect(sentSpy).toHaveBeenCalledWith({ email: 'a@test.com', listId: 'default', batchId: 'wave-1' });
+
+      const code = codeFromLastMail();
+      expect(mockSendMail).toHaveBeenLastCalledWith(expect.objectContaining({
+        to: 'c@test.com',
+        html: expect.stringContaining(`<a href="https://example.com/welcome?code=${code}">Join</a> ${code}`),
+      }));
+      expect(await mailer.redeemInvite(code)).toBe(true);
+      expect(await mailer.redeemInvite(code)).toBe(false);
+      expect(await mailer.redeemInvite('unknown')).toBe(false);
+
+      expect((await mailer.inviteNext(5, template))?.invited).toEqual(['b@test.com', 'd@test.com']);
+      expect(await mailer.getInviteFunnel('wave-1')).toEqual({ waiting: 0, invited: 1, joined: 1, conversionRate: 0.5 });
+      expect(await mailer.getInviteFunnel()).toEqual({ waiting: 0, invited: 3, joined: 1, conversionRate: 0.25 });
+      expect(await mailer.inviteNext(0, template)).toBeNull();
+    }, 10000);
+
+    test('Skips subscribers who are not waiting and keeps failed invites on the waitlist', async () => {
+      await mailer.addEmail('a@test.com');
+      await mailer.addEmail('b@test.com');
+      await mailer.addSuppression('b@test.com', 'complaint');
+      await mailer.inviteEmails(['a@test.com'], template);
+
+      mockSendMail.mockRejectedValueOnce(Object.assign(new Error('Mailbox unavailable'), { responseCode: 550 }));
+      await mailer.addEmail('c@test.com');
+      const batch = await mailer.inviteEmails(['A@Test.com', 'b@test.com', 'C@test.com', 'missing@test.com'], template);
+      expect(batch).toEqual(expect.objectContaining({
+        invited: [],
+        failed: ['c@test.com'],
+        skipped: ['A@Test.com', 'b@test.com', 'missing@test.com'],
+      }));
+      expect(await mailer.getInviteFunnel()).toEqual({ waiting: 2, invited: 1, joined: 0, conversionRate: 0 });
+      expect((await mailer.inviteNext(1, template))?.invited).toEqual(['c@test.com']);
+    }, 10000);
+  });
+
+  // ==================== Send Queue ====================
+  describe('Send Queue', () => {
+    let store: LocalStore;
+    const queue = { autoStart: false, baseDelay: 1000, maxAttempts: 3 };
+
+    beforeEach(async () => {
+      store = new LocalStore();
+      mailer = new WaitlistMailer(store, mailConfig, { companyName: 'TestCo', queue });
+      await mailer.waitForInitialization();
+    });
+
+    test('Delivers queued jobs and marks them sent', async () => {
+      await mailer.addEmail('queue@test.com');
+      const id = await mailer.enqueueConfirmation('queue@test.com', () => 'Hi', () => '<p>Hi</p>');
+      expect(id).toEqual(expect.any(String));
+
+      expect(await mailer.processQueue()).toBe(1);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'queue@test.com', subject: 'Hi' }));
+      expect(await mailer.getQueueJobs('sent')).toEqual([expect.objectContaining({ id, attempts: 1 })]);
+    }, 10000);
+
+    test('Reschedules transient failures with backoff', async () => {
+      const retrySpy = jest.fn();
+      mailer.on('onEmailRetry', retrySpy);
+      mockSendMail.mockRejectedValueOnce(new Error('Connection timeout'));
+
+      await mailer.addEmail('transient@test.com');
+      await mailer.enqueueConfirmation('transient@test.com', () => 'Hi', () => '<p>Hi</p>');
+      await mailer.processQueue();
+
+      const [job] = await mailer.getQueueJobs('queued');
+      expect(job).toEqual(expect.objectContaining({ attempts: 1, lastError: 'Connection timeout' }));
+      expect(job.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+      expect(retrySpy).toHaveBeenCalledWith('transient@test.com', 1);
+      expect(await mailer.processQueue()).toBe(0);
+    }, 10000);
+
+    test('Dead-letters permanent failures and replays them', async () => {
+      const deadSpy = jest.fn();
+      mailer.on('onJobDeadLettered', deadSpy);
+      mockSendMail.mockRejectedValueOnce(Object.assign(new Error('Mailbox unavailable'), { responseCode: 550 }));
+
+      await mailer.addEmail('bounce@test.com');
+      await mailer.enqueueConfirmation('bounce@test.com', () => 'Hi', () => '<p>Hi</p>');
+      await mailer.processQueue();
+      expect(await mailer.getQueueJobs('dead')).toHaveLength(1);
+      expect(deadSpy).toHaveBeenCalledWith(expect.objectContaining({ email: 'bounce@test.com', status: 'dead' }));
+
+      expect(await mailer.replayDeadLetters()).toBe(1);
+      expect(await mailer.processQueue()).toBe(1);
+      expect(await mailer.getQueueJobs('sent')).toHaveLength(1);
+    }, 10000);
+
+    test('Reports store failures while queueing in bulk instead of rejecting', async () => {
+      const errorSpy = jest.fn();
+      mailer.on('onError', errorSpy);
+      jest.spyOn(store, 'listSuppressions').mockRejectedValueOnce(new Error('Connection lost'));
+
+      await mailer.addEmail('bulk@test.com');
+      expect(await mailer.enqueueBulkConfirmation(() => 'Hi', () => '<p>Hi</p>')).toBe(0);
+      expect(errorSpy).toHaveBeenCalledWith(expect.objectContaining({ context: 'enqueueBulkConfirmation' }));
+      expect(await mailer.getQueueJobs()).toEqual([]);
+    }, 10000);
+
+    test('Schedules jobs by the configured clock', async () => {
+      await mailer.close();
+      let now = new Date('2020-01-01T00:00:00Z');
+      mailer = new WaitlistMailer(store, mailConfig, { queue, clock: () => now });
+      await mailer.waitForInitialization();
+      mockSendMail.mockRejectedValueOnce(new Error('Connection timeout'));
+
+      await mailer.addEmail('clocked@test.com');
+      await mailer.enqueueConfirmation('clocked@test.com', () => 'Hi', () => '<p>Hi</p>');
+      expect(await mailer.getQueueJobs('queued')).toEqual([expect.objectContaining({ createdAt: now, nextAttemptAt: now })]);
+      await mailer.processQueue();
+
+      // El reintento queda programado respecto al reloj inyectado, no al tiempo real
+      const [job] = await mailer.getQueueJobs('queued');
+      expect(job.nextAttemptAt.getTime()).toBeGreaterThan(now.getTime());
+      expect(await mailer.processQueue()).toBe(0);
+      now = new Date(job.nextAttemptAt.getTime() + 1);
+      expect(await mailer.processQueue()).toBe(1);
+      expect(await mailer.getQueueJobs('sent')).toHaveLength(1);
+    }, 10000);
+
+    test('Picks up pending jobs after a restart', async () => {
+      await mailer.addEmail('restart@test.com');
+      await mailer.enqueueBulkConfirmation(() => 'Hi', () => '<p>Hi</p>');
+      await mailer.close();
+
+      mailer = new WaitlistMailer(store, mailConfig, { queue });
+      await mailer.waitForInitialization();
+      expect(await mailer.processQueue()).toBe(1);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'restart@test.com' }));
+    }, 10000);
+  });
+
+  // ==================== Campaigns ====================
+  describe('Campaigns', () => {
+    const template = { subject: (email: string) => `Launch ${email}`, body: () => '<p>Launch</p>' };
+    const options = { maxRetries: 0, retryDelay: 0 };
+
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, { companyName: 'TestCo' });
+      await mailer.waitForInitialization();
+      await mailer.addEmail('c1@test.com');
+      await mailer.addEmail('c2@test.com');
+      await mailer.addEmail('c3@test.com');
+    });
+
+    test('Delivers to every recipient and completes', async () => {
+      const completedSpy = jest.fn();
+      mailer.on('onCampaignCompleted', completedSpy);
+
+      const status = await mailer.startCampaign('launch', template, options);
+      expect(status).toEqual({ id: 'launch', status: 'completed', counts: { pending: 0, sending: 0, delivered: 3, failed: 0, skipped: 0 }, total: 3 });
+      expect(mockSendMail).toHaveBeenCalledTimes(3);
+      expect(completedSpy).toHaveBeenCalledWith(status);
+    }, 10000);
+
+    test('Skips delivered recipients when rerun', async () => {
+      mockSendMail.mockRejectedValueOnce(new Error('Connection lost'));
+      const first = await mailer.startCampaign('launch', template, options);
+      expect(first?.counts).toEqual({ pending: 0, sending: 0, delivered: 2, failed: 1, skipped: 0 });
+
+      mockSendMail.mockClear();
+      await mailer.addEmail('c4@test.com');
+      const second = await mailer.startCampaign('launch', template, options);
+      expect(second?.counts).toEqual({ pending: 0, sending: 0, delivered: 4, failed: 0, skipped: 0 });
+      expect(mockSendMail).toHaveBeenCalledTimes(2);
+      expect(mockSendMail).not.toHaveBeenCalledWith(expect.objectContaining({ to: 'c2@test.com' }));
+    }, 10000);
+
+    test('Pauses, resumes and cancels', async () => {
+      mailer.once('onEmailSent', () => mailer.pauseCampaign('launch'));
+      const paused = await mailer.startCampaign('launch', template, options);
+      expect(paused?.status).toBe('paused');
+      expect(paused?.counts.delivered).toBe(1);
+
+      const resumed = await mailer.resumeCampaign('launch');
+      expect(resumed).toEqual(expect.objectContaining({ status: 'completed', counts: { pending: 0, sending: 0, delivered: 3, failed: 0, skipped: 0 } }));
+
+      mailer.once('onEmailSent', () => mailer.cancelCampaign('other'));
+      const cancelled = await mailer.startCampaign('other', template, options);
+      expect(cancelled?.status).toBe('cancelled');
+      expect(cancelled?.counts.pending).toBe(2);
+      expect((await mailer.startCampaign('other', template, options))?.counts.pending).toBe(2);
+    }, 10000);
+
+    test('Marks recipients who opted out mid-campaign as skipped', async () => {
+      mailer.once('onEmailSent', () => mailer.pauseCampaign('launch'));
+      await mailer.startCampaign('launch', template, options);
+
+      // c2 se da de baja mientras la campaña está en pausa
+      await mailer.addSuppression('c2@test.com', 'manual');
+      mockSendMail.mockClear();
+      const resumed = await mailer.resumeCampaign('launch');
+      expect(resumed).toEqual(expect.objectContaining({
+        status: 'completed',
+        counts: { pending: 0, sending: 0, delivered: 2, failed: 0, skipped: 1 },
+        total: 3,
+      }));
+      expect(mockSendMail).toHaveBeenCalledTimes(1);
+
+      mockSendMail.mockClear();
+      await mailer.removeSuppression('c2@test.com');
+      expect((await mailer.startCampaign('launch', template, options))?.counts.skipped).toBe(1);
+      expect(mockSendMail).not.toHaveBeenCalled();
+    }, 10000);
+
+    test('Sees pauses from other processes and skips recipients they claimed', async () => {
+      const store = new LocalStore();
+      const first = new WaitlistMailer(store, mailConfig, { companyName: 'TestCo' });
+      const second = new WaitlistMailer(store, mailConfig, { companyName: 'TestCo' });
+      await Promise.all([first.waitForInitialization(), second.waitForInitialization()]);
+      await first.addEmail('p1@test.com');
+      await first.addEmail('p2@test.com');
+      await first.addEmail('p3@test.com');
+
+      // La pausa llega desde otro proceso y solo es visible en el store
+      first.once('onEmailSent', () => second.pauseCampaign('shared'));
+      const paused = await first.startCampaign('shared', template, { ...options, batchSize: 1 });
+      expect(paused).toEqual(expect.objectContaining({ status: 'paused', counts: { pending: 2, sending: 0, delivered: 1, failed: 0, skipped: 0 } }));
+
+      // p2 está siendo enviado por el otro proceso
+      const now = new Date();
+      expect(await store.claimCampaignDelivery('shared', 'p2@test.com', now, new Date(now.getTime() + 60000))).toBe(true);
+      mockSendMail.mockClear();
+      const resumed = await second.resumeCampaign('shared', template, options);
+      expect(resumed).toEqual(expect.objectContaining({ status: 'running', counts: { pending: 0, sending: 1, delivered: 2, failed: 0, skipped: 0 } }));
+      expect(mockSendMail).toHaveBeenCalledTimes(1);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'p3@test.com' }));
+      await Promise.all([first.close(), second.close()]);
+    }, 10000);
+  });
+
+  // ==================== Drip Sequences ====================
+  describe('Drip Sequences', () => {
+    let store: LocalStore;
+    let now: Date;
+    const clock = () => now;
+    const step = (subject: string) => ({ subject: () => subject, body: () => `<p>${subject}</p>` });
+    const sequences = {
+      onboarding: {
+        steps: [
+          { delay: 0, template: step('Welcome') },
+          { delay: 2 * 86400000, after: 'signup' as const, template: step('Tips') },
+          { delay: 86400000, template: step('Survey') },
+        ],
+      },
+    };
+    const advance = (ms: number) => (now = new Date(now.getTime() + ms));
+    const subjects = () => mockSendMail.mock.calls.map(([message]) => message.subject);
+
+    beforeEach(async () => {
+      now = new Date('2024-03-01T09:00:00Z');
+      store = new LocalStore();
+      mailer = new WaitlistMailer(store, mailConfig, { companyName: 'TestCo', sequences, clock, scheduler: { autoStart: false } });
+      await mailer.waitForInitialization();
+    });
+
+    test('Sends each step when it falls due', async () => {
+      const completedSpy = jest.fn();
+      mailer.on('onSequenceCompleted', completedSpy);
+      await mailer.addEmail('drip@test.com');
+
+      expect(await mailer.processSequences()).toBe(1);
+      expect(subjects()).toEqual(['Welcome']);
+
+      // El segundo paso cuenta desde el alta, el tercero desde el paso anterior
+      advance(86400000);
+      expect(await mailer.processSequences()).toBe(0);
+      advance(86400000);
+      expect(await mailer.processSequences()).toBe(1);
+      advance(86400000 - 1);
+      expect(await mailer.processSequences()).toBe(0);
+      advance(1);
+      expect(await mailer.processSequences()).toBe(1);
+
+      expect(subjects()).toEqual(['Welcome', 'Tips', 'Survey']);
+      expect(completedSpy).toHaveBeenCalledWith({ sequenceId: 'onboarding', email: 'drip@test.com', listId: 'default' });
+      expect(await mailer.getSequenceProgress('drip@test.com')).toEqual([
+        expect.objectContaining({ sequenceId: 'onboarding', step: 3, status: 'completed', nextRunAt: null }),
+      ]);
+    }, 10000);
+
+    test('Resumes after a restart and stops for unenrolled or suppressed subscribers', async () => {
+      await mailer.addEmail('resume@test.com');
+      await mailer.addEmail('stop@test.com');
+      await mailer.addEmail('bounced@test.com');
+      await mailer.processSequences();
+      await mailer.close();
+
+      mailer = new WaitlistMailer(store, mailConfig, { sequences, clock, scheduler: { autoStart: false } });
+      await mailer.waitForInitialization();
+      expect(await mailer.unenrollFromSequence('stop@test.com', 'onboarding')).toBe(true);
+      expect(await mailer.unenrollFromSequence('stop@test.com', 'onboarding')).toBe(false);
+      await mailer.addSuppression('bounced@test.com', 'bounce');
+      mockSendMail.mockClear();
+
+      advance(2 * 86400000);
+      expect(await mailer.processSequences()).toBe(2);
+      expect(mockSendMail).toHaveBeenCalledTimes(1);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'resume@test.com', subject: 'Tips' }));
+      expect((await mailer.getSequenceProgress('bounced@test.com'))[0].status).toBe('cancelled');
+
+      // Una inscripción cancelada vuelve a empezar desde el primer paso
+      expect(await mailer.enrollInSequence('stop@test.com', 'onboarding')).toBe(true);
+      expect(await mailer.enrollInSequence('stop@test.com', 'onboarding')).toBe(false);
+      expect(await mailer.enrollInSequence('stop@test.com', 'missing')).toBe(false);
+      expect(await mailer.processSequences()).toBe(1);
+      expect(mockSendMail).toHaveBeenLastCalledWith(expect.objectContaining({ to: 'stop@test.com', subject: 'Welcome' }));
+    }, 10000);
+  });
+
+  // ==================== Unsubscribe ====================
+  describe('Unsubscribe', () => {
+    const unsubscribe = { secret: 'unsub-secret', unsubscribeUrl: 'https://example.com/unsubscribe', mailto: 'unsub@example.com' };
+    const tokenFromUrl = (url: string) => new URL(url).searchParams.get('token') as string;
+
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, { companyName: 'TestCo', unsubscribe });
+      await mailer.waitForInitialization();
+      await mailer.addEmail('leaving@test.com');
+      await mailer.addEmail('staying@test.com');
+    });
+
+    test('Adds RFC 8058 headers and a per-recipient link', async () => {
+      await mailer.sendConfirmation('leaving@test.com', () => 'Hi', () => '<a href="[Unsubscribe URL]">Unsubscribe</a>');
+      const { headers, html } = mockSendMail.mock.calls[0][0];
+      const url = html.match(/href="([^"]+)"/)[1];
+
+      expect(url.startsWith('https://example.com/unsubscribe?token=')).toBe(true);
+      expect(headers).toEqual({
+        'List-Unsubscribe': `<${url}>, <mailto:unsub@example.com?subject=unsubscribe>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      });
+    }, 10000);
+
+    test('Suppresses unsubscribed addresses on every send path', async () => {
+      const unsubscribedSpy = jest.fn();
+      const suppressedSpy = jest.fn();
+      mailer.on('onUnsubscribed', unsubscribedSpy);
+      mailer.on('onEmailSuppressed', suppressedSpy);
+
+      await mailer.sendConfirmation('leaving@test.com', () => 'Hi', () => '<p>[Unsubscribe URL]</p>');
+      const token = tokenFromUrl(mockSendMail.mock.calls[0][0].html.match(/<p>(.*)<\/p>/)[1]);
+      mockSendMail.mockClear();
+
+      expect(await mailer.unsubscribe(token)).toBe(true);
+      expect(unsubscribedSpy).toHaveBeenCalledWith('leaving@test.com');
+      expect(mailer.getWaitlist()).toContain('leaving@test.com');
+
+      expect(await mailer.sendConfirmation('leaving@test.com', () => 'Hi', () => '<p>Hi</p>')).toBe(false);
+      expect(suppressedSpy).toHaveBeenCalledWith({ email: 'leaving@test.com', reason: 'unsubscribe' });
+      expect(await mailer.sendBulkConfirmation(() => 'Hi', () => '<p>Hi</p>', 0, 0)).toBe(1);
+      expect(mockSendMail).toHaveBeenCalledTimes(1);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'staying@test.com' }));
+    }, 10000);
+
+    test('Rejects forged tokens', async () => {
+      expect(await mailer.unsubscribe('forged.token')).toBe(false);
+    }, 10000);
+  });
+
+  // ==================== Delivery Tracking ====================
+  describe('Delivery Tracking', () => {
+    const tracking = { secret: 'track-secret', baseUrl: 'https://example.com/track/' };
+    const template = { subject: () => 'Launch', body: () => '<html><body><a href="https://example.com/launch?a=1&amp;b=2">Launch</a></body></html>' };
+    const tokenFrom = (html: string, pattern: RegExp) => new URL(html.match(pattern)![1].replace(/&amp;/g, '&')).searchParams.get('token') as string;
+
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, {
+        companyName: 'TestCo',
+        tracking,
+        unsubscribe: { secret: 'unsub-secret', unsubscribeUrl: 'https://example.com/unsubscribe' },
+      });
+      await mailer.waitForInitialization();
+      await mailer.addEmail('a@test.com');
+      await mailer.addEmail('b@test.com');
+    });
+
+    test('Logs sent messages and rewrites links, except the unsubscribe link', async () => {
+      mockSendMail.mockResolvedValueOnce({ messageId: 'smtp-1', response: '250 OK' });
+      await mailer.sendConfirmation('a@test.com', () => 'Hi', () => '<p><a href="https://example.com/docs">Docs</a> <a href="[Unsubscribe URL]">Leave</a></p>');
+      const { html } = mockSendMail.mock.calls[0][0];
+
+      expect(html).toMatch(/<a href="https:\/\/example\.com\/track\/click\?token=[^"]+">Docs<\/a>/);
+      expect(html).toMatch(/<a href="https:\/\/example\.com\/unsubscribe\?token=[^"]+">Leave<\/a>/);
+      expect(html).toMatch(/<img src="https:\/\/example\.com\/track\/open\?token=[^"]+"[^>]*>/);
+      expect(await mailer.getMessageLog('A@test.com')).toEqual([expect.objectContaining({
+        email: 'a@test.com',
+        listId: 'default',
+        subject: 'Hi',
+        provider: 'smtp',
+        providerMessageId: 'smtp-1',
+        response: '250 OK',
+        opens: 0,
+        clicks: 0,
+        sentAt: expect.any(Date),
+      })]);
+      expect(await mailer.getMessageLog('a@test.com', 'other')).toEqual([]);
+    }, 10000);
+
+    test('Records opens and clicks from signed tokens and reports rates per campaign', async () => {
+      const openedSpy = jest.fn();
+      const clickedSpy = jest.fn();
+      mailer.on('onEmailOpened', openedSpy);
+      mailer.on('onLinkClicked', clickedSpy);
+      await mailer.startCampaign('launch', template, { maxRetries: 0, retryDelay: 0 });
+      await mailer.sendConfirmation('a@test.com', () => 'Hi', () => '<p>Hi</p>');
+
+      const { html } = mockSendMail.mock.calls.find(([message]) => message.to === 'a@test.com')[0];
+      const [message] = (await mailer.getMessageLog('a@test.com')).filter(entry => entry.campaignId === 'launch');
+      expect(await mailer.recordOpen(tokenFrom(html, /<img src="([^"]+)"/))).toBe(true);
+      expect(await mailer.recordOpen(tokenFrom(html, /<img src="([^"]+)"/))).toBe(true);
+      expect(await mailer.recordClick(tokenFrom(html, /<a href="([^"]+)"/))).toBe('https://example.com/launch?a=1&b=2');
+      expect(openedSpy).toHaveBeenLastCalledWith({ email: 'a@test.com', messageId: message.id, opens: 2 });
+      expect(clickedSpy).toHaveBeenCalledWith({ email: 'a@test.com', messageId: message.id, url: 'https://example.com/launch?a=1&b=2', clicks: 1 });
+
+      // Un token de apertura no sirve como enlace, ni un token falsificado
+      expect(await mailer.recordClick(tokenFrom(html, /<img src="([^"]+)"/))).toBeNull();
+      expect(await mailer.recordOpen('forged.token')).toBe(false);
+
+      expect(await mailer.getMessageStats({ campaignId: 'launch' })).toEqual({ sent: 2, opened: 1, clicked: 1, openRate: 0.5, clickRate: 0.5 });
+      expect(await mailer.getMessageStats()).toEqual({ sent: 3, opened: 1, clicked: 1, openRate: 1 / 3, clickRate: 1 / 3 });
+      expect(await mailer.getMessageStats({ template: 'welcome' })).toEqual({ sent: 0, opened: 0, clicked: 0, openRate: 0, clickRate: 0 });
+    }, 10000);
+  });
+
+  // ==================== Suppression List ====================
+  describe('Suppression List', () => {
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, { companyName: 'TestCo' });
+      await mailer.waitForInitialization();
+      await mailer.addEmail('bounced@test.com');
+      await mailer.addEmail('ok@test.com');
+    });
+
+    test('Suppresses sends to listed addresses', async () => {
+      const suppressedSpy = jest.fn();
+      mailer.on('onEmailSuppressed', suppressedSpy);
+
+      expect(await mailer.addSuppression('Bounced@Test.com', 'bounce', { note: '550 5.1.1' })).toBe(true);
+      expect(await mailer.sendConfirmation('bounced@test.com', () => 'Hi', () => '<p>Hi</p>')).toBe(false);
+      expect(await mailer.sendConfirmationWithRetry('bounced@test.com', () => 'Hi', () => '<p>Hi</p>', 2, 0)).toBe(false);
+      expect(await mailer.sendBulkConfirmation(() => 'Hi', () => '<p>Hi</p>', 0, 0)).toBe(1);
+
+      expect(mockSendMail).toHaveBeenCalledTimes(1);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'ok@test.com' }));
+      expect(suppressedSpy).toHaveBeenCalledTimes(3);
+      expect(suppressedSpy).toHaveBeenCalledWith({ email: 'bounced@test.com', reason: 'bounce' });
+
+      expect(await mailer.removeSuppression('bounced@test.com')).toBe(true);
+      expect(await mailer.sendConfirmation('bounced@test.com', () => 'Hi', () => '<p>Hi</p>')).toBe(true);
+    }, 10000);
+
+    test('Ignores expired suppressions', async () => {
+      await mailer.addSuppression('bounced@test.com', 'manual', { expiresAt: new Date(Date.now() - 1000) });
+      expect(await mailer.listSuppressions()).toHaveLength(0);
+      expect(await mailer.listSuppressions({ includeExpired: true })).toHaveLength(1);
+      expect(await mailer.sendConfirmation('bounced@test.com', () => 'Hi', () => '<p>Hi</p>')).toBe(true);
+    }, 10000);
+
+    test('Expires suppressions by the configured clock', async () => {
+      let now = new Date('2020-01-01T00:00:00Z');
+      const clocked = new WaitlistMailer(StorageType.Local, mailConfig, { companyName: 'TestCo', clock: () => now });
+      await clocked.waitForInitialization();
+      await clocked.addEmail('later@test.com');
+      await clocked.addSuppression('later@test.com', 'manual', { expiresAt: new Date('2020-01-02T00:00:00Z') });
+
+      // La supresión sigue activa según el reloj inyectado aunque ya haya vencido en tiempo real
+      expect(await clocked.listSuppressions()).toEqual([expect.objectContaining({ createdAt: now })]);
+      expect(await clocked.sendConfirmation('later@test.com', () => 'Hi', () => '<p>Hi</p>')).toBe(false);
+
+      now = new Date('2020-01-03T00:00:00Z');
+      expect(await clocked.listSuppressions()).toHaveLength(0);
+      await clocked.close();
+    }, 10000);
+
+    test('Imports entries in bulk and reports invalid rows', async () => {
+      const report = await mailer.importSuppressions([
+        { email: 'a@test.com', reason: 'complaint' },
+        { email: 'b@test.com' },
+        { email: 'not-an-email', reason: 'bounce' },
+      ], 1);
+      expect(report).toEqual({ imported: 2, invalid: ['not-an-email'] });
+      expect((await mailer.listSuppressions()).map(entry => entry.reason).sort()).toEqual(['complaint', 'manual']);
+    }, 10000);
+  });
+
+  // ==================== Bounces and Complaints ====================
+  describe('Bounces and Complaints', () => {
+    const dsnFor = (email: string, status: string, messageId: string) => [
+      'Content-Type: multipart/report; report-type=delivery-status; boundary="B"',
+      '',
+      '--B',
+      'Content-Type: message/delivery-status',
+      '',
+      'Reporting-MTA: dns; mx.example.com',
+      '',
+      `Final-Recipient: rfc822; ${email}`,
+      'Action: failed',
+      `Status: ${status}`,
+      '',
+      '--B',
+      'Content-Type: text/rfc822-headers',
+      '',
+      `Message-ID: ${messageId}`,
+      '--B--',
+    ].join('\r\n');
+
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, { companyName: 'TestCo', bounces: { softBounceThreshold: 2 } });
+      await mailer.waitForInitialization();
+      await mailer.addEmail('gone@test.com');
+      await mailer.addEmail('full@test.com');
+    });
+
+    test('Suppresses hard bounces from DSNs and records them in the message log', async () => {
+      const bounceSpy = jest.fn();
+      mailer.on('onBounce', bounceSpy);
+      mockSendMail.mockResolvedValueOnce({ messageId: '<m1@test.com>' });
+      await mailer.sendConfirmation('gone@test.com', () => 'Hi', () => '<p>Hi</p>');
+      const [message] = await mailer.getMessageLog('gone@test.com');
+
+      // El DSN solo trae el Message-ID; el destinatario se resuelve desde el registro
+      const [event] = await mailer.processDsn(dsnFor('Gone@Test.com', '5.1.1', '<m1@test.com>'));
+      expect(event).toEqual({ email: 'gone@test.com', type: 'hard', listId: 'default', messageId: message.id, status: '5.1.1', diagnostic: null });
+      expect(bounceSpy).toHaveBeenCalledWith(event);
+      expect(await mailer.getMessageLog('gone@test.com')).toEqual([expect.objectContaining({ bounce: 'hard', bouncedAt: expect.any(Date) })]);
+      expect(await mailer.listSuppressions()).toEqual([expect.objectContaining({ email: 'gone@test.com', reason: 'bounce', note: '5.1.1' })]);
+      expect(await mailer.sendConfirmation('gone@test.com', () => 'Hi', () => '<p>Hi</p>')).toBe(false);
+    }, 10000);
+
+    test('Promotes repeated soft bounces and suppresses complaints from webhooks', async () => {
+      const bounceSpy = jest.fn();
+      const complaintSpy = jest.fn();
+      mailer.on('onBounce', bounceSpy);
+      mailer.on('onComplaint', complaintSpy);
+
+      expect(await mailer.processBounceWebhook({ event: 'bounce', email: 'full@test.com', status: '4.2.2' })).toEqual([
+        expect.objectContaining({ type: 'soft', softBounces: 1, messageId: null, listId: null }),
+      ]);
+      expect(await mailer.listSuppressions()).toEqual([]);
+      await mailer.processBounceWebhook({ event: 'bounce', email: 'full@test.com', status: '4.2.2' });
+      expect(bounceSpy).toHaveBeenLastCalledWith(expect.objectContaining({ email: 'full@test.com', type: 'hard', softBounces: 2 }));
+
+      await mailer.processBounceWebhook([{ event: 'spamreport', email: 'gone@test.com' }, { event: 'bounce', messageId: 'unknown' }]);
+      expect(complaintSpy).toHaveBeenCalledWith(expect.objectContaining({ email: 'gone@test.com', type: 'complaint' }));
+      expect((await mailer.listSuppressions()).map(entry => [entry.email, entry.reason]).sort()).toEqual([
+        ['full@test.com', 'bounce'],
+        ['gone@test.com', 'complaint'],
+      ]);
+    }, 10000);
+
+    test('Counts soft bounces within the window of the configured clock', async () => {
+      const clocked = new WaitlistMailer(StorageType.Local, mailConfig, {
+        bounces: { softBounceThreshold: 2 },
+        clock: () => new Date('2020-01-01T00:00:00Z'),
+      });
+      await clocked.waitForInitialization();
+      await clocked.addEmail('full@test.com');
+
+      // La ventana ya venció en tiempo real; el contador debe sobrevivir igualmente
+      await clocked.processBounceWebhook({ event: 'bounce', email: 'full@test.com', status: '4.2.2' });
+      expect(await clocked.processBounceWebhook({ event: 'bounce', email: 'full@test.com', status: '4.2.2' })).toEqual([
+        expect.objectContaining({ type: 'hard', softBounces: 2 }),
+      ]);
+      await clocked.close();
+    }, 10000);
+  });
+
+  // ==================== Custom Fields ====================
+  describe('Custom Fields', () => {
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, {
+        companyName: 'TestCo',
+        fields: {
+          username: Joi.string().required(),
+          company: Joi.string(),
+          utm: Joi.object({ source: Joi.string(), campaign: Joi.string() }),
+          seats: Joi.number().integer().min(1),
+        },
+      });
+      await mailer.waitForInitialization();
+    });
+
+    test('Validates and stores fields passed to addEmail', async () => {
+      const validationSpy = jest.fn();
+      mailer.on('onValidationError', validationSpy);
+
+      expect(await mailer.addEmail('ana@test.com', { username: 'Ana', seats: '3', utm: { source: 'twitter' } })).toBe(true);
+      expect(await mailer.getFields('ana@test.com')).toEqual({ username: 'Ana', seats: 3, utm: { source: 'twitter' } });
+
+      expect(await mailer.addEmail('bob@test.com', { seats: 0, role: 'cto' })).toBe(false);
+      expect(validationSpy).toHaveBeenCalledWith({ isValid: false, message: expect.stringContaining('"username" is required') });
+      expect(validationSpy.mock.calls[0][0].message).toContain('"role" is not allowed');
+      expect(mailer.getWaitlist()).not.toContain('bob@test.com');
+    });
+
+    test('Accepts fields together with signup options', async () => {
+      await mailer.addEmail('ana@test.com', { username: 'Ana' });
+      const { referralCode } = (await mailer.getReferralStats('ana@test.com'))!;
+
+      expect(await mailer.addEmail('bob@test.com', { username: 'Bob' }, { referredBy: referralCode!, locale: 'es' })).toBe(true);
+      expect(await mailer.addEmail('cy@test.com', { referredBy: referralCode!, fields: { username: 'Cy' } })).toBe(true);
+      expect((await mailer.getReferralStats('ana@test.com'))!.referralCount).toBe(2);
+      expect(await mailer.getFields('cy@test.com')).toEqual({ username: 'Cy' });
+    });
+
+    test('Updates fields and passes them into template data', async () => {
+      await mailer.addEmail('ana@test.com', { username: 'Ana', company: 'Acme' });
+      expect(await mailer.updateFields('ana@test.com', { company: undefined, seats: 5 })).toBe(true);
+      expect(await mailer.updateFields('ana@test.com', { seats: -1 })).toBe(false);
+      expect(await mailer.getFields('ana@test.com')).toEqual({ username: 'Ana', seats: 5 });
+
+      const template = jest.fn().mockReturnValue('<p>Hi</p>');
+      mockCompile.mockReturnValueOnce(template);
+      await mailer.sendConfirmationFromFile('ana@test.com', () => 'Hi', 'mock/path.hbs');
+      expect(template).toHaveBeenCalledWith(expect.objectContaining({
+        username: 'Ana',
+        seats: 5,
+        fields: { username: 'Ana', seats: 5 },
+        email: 'ana@test.com',
+      }));
+    });
+  });
+
+  // ==================== Segments ====================
+  describe('Segments', () => {
+    test('Filters, sorts and paginates the waitlist', async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, { fields: segmentFields });
+      await mailer.waitForInitialization();
+      await expectSegmentQueries(mailer);
+    }, 10000);
+
+    test('Matches tags and rejects unsafe field names', async () => {
+      const store = new LocalStore();
+      mailer = new WaitlistMailer(store, mailConfig);
+      await mailer.waitForInitialization();
+      await mailer.addEmail('a@test.com');
+      await mailer.addEmail('b@test.com');
+      await store.update('a@test.com', { tags: ['beta', 'vip'] });
+      await store.update('b@test.com', { tags: ['beta'] });
+
+      const emails = async (filter: SegmentFilter) => (await mailer.querySubscribers({ filter })).items.map(record => record.email);
+      expect(await emails({ tags: { all: ['beta', 'vip'] } })).toEqual(['a@test.com']);
+      expect(await emails({ tags: { any: ['vip', 'other'] } })).toEqual(['a@test.com']);
+      expect(await emails({ tags: { none: ['vip'] } })).toEqual(['b@test.com']);
+
+      const errorSpy = jest.fn();
+      mailer.on('onError', errorSpy);
+      expect(await mailer.querySubscribers({ filter: { fields: { 'a.$where': 1 } } })).toEqual({ items: [], total: 0 });
+      expect(errorSpy).toHaveBeenCalledWith(expect.objectContaining({ error: 'Invalid field name in segment: a.$where' }));
+    });
+  });
+
+  // ==================== Named Lists ====================
+  describe('Named Lists', () => {
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, {
+        companyName: 'TestCo',
+        lists: { beta: { companyName: 'Beta Co', from: 'beta@test.com' } },
+      });
+      await mailer.waitForInitialization();
+    });
+
+    test('Scopes duplicates and every list API to the selected list', async () => {
+      const duplicateSpy = jest.fn();
+      mailer.on('onDuplicateEmail', duplicateSpy);
+
+      expect(mailer.getLists()).toEqual(['default', 'beta']);
+      expect(await mailer.addEmail('both@test.com')).toBe(true);
+      expect(await mailer.addEmail('both@test.com', { listId: 'beta' })).toBe(true);
+      expect(await mailer.addEmail('beta@only.com', { listId: 'beta' })).toBe(true);
+      expect(await mailer.addEmail('both@test.com', { listId: 'beta' })).toBe(false);
+      expect(duplicateSpy).toHaveBeenCalledTimes(1);
+
+      expect(mailer.getWaitlist()).toEqual(['both@test.com']);
+      expect(mailer.getWaitlist('beta')).toEqual(['both@test.com', 'beta@only.com']);
+      expect(await mailer.countWaitlistByDate(undefined, undefined, 'beta')).toBe(2);
+      expect(await mailer.findEmailsByPattern('only', 'beta')).toEqual(['beta@only.com']);
+      expect(await mailer.getPosition('beta@only.com', 'beta')).toBe(2);
+
+      expect(await mailer.sendBulkConfirmation(() => 'Hi', () => '<p>[Company Name]</p>', 0, 0, { listId: 'beta' })).toBe(2);
+      expect(mockSendMail).toHaveBeenCalledTimes(2);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({
+        from: '"Beta Co" <beta@test.com>',
+        html: '<p>Beta Co</p>',
+      }));
+
+      await mailer.clearWaitlist('beta');
+      expect(mailer.getWaitlist('beta')).toEqual([]);
+      expect(mailer.getWaitlist()).toEqual(['both@test.com']);
+    });
+
+    test('Rejects unknown lists', async () => {
+      const errorSpy = jest.fn();
+      mailer.on('onError', errorSpy);
+
+      expect(await mailer.addEmail('user@test.com', { listId: 'missing' })).toBe(false);
+      expect(await mailer.sendBulkConfirmation(() => 'Hi', () => 'Hi', 0, 0, { listId: 'missing' })).toBe(0);
+      expect(errorSpy).toHaveBeenCalledWith(expect.objectContaining({ message: 'Unknown list', error: 'List missing is not configured' }));
+      expect(mailer.getWaitlist('missing')).toEqual([]);
+    });
+
+    test('Adds, removes and filters by tags', async () => {
+      const validationSpy = jest.fn();
+      mailer.on('onValidationError', validationSpy);
+
+      expect(await mailer.addEmail('tagged@test.com', { listId: 'beta', tags: ['vip', ' vip '] })).toBe(true);
+      expect(await mailer.getTags('tagged@test.com', 'beta')).toEqual(['vip']);
+      expect(await mailer.addTags('tagged@test.com', ['early', 'vip'], 'beta')).toBe(true);
+      expect(await mailer.removeTags('tagged@test.com', ['vip'], 'beta')).toBe(true);
+      expect(await mailer.getTags('tagged@test.com', 'beta')).toEqual(['early']);
+      expect(await mailer.getTags('tagged@test.com')).toBeNull();
+
+      expect(await mailer.addTags('tagged@test.com', ['a,b'], 'beta')).toBe(false);
+      expect(validationSpy).toHaveBeenCalledWith({ isValid: false, message: 'Tags must be non-empty strings without commas' });
+
+      const { items } = await mailer.querySubscribers({ filter: { listId: 'beta', tags: { any: ['early'] } } });
+      expect(items.map(record => record.email)).toEqual(['tagged@test.com']);
+    });
+  });
+
+  // ==================== Signup Protection ====================
+  describe('Signup Protection', () => {
+    test('Rejects abusive signups with a reason code', async () => {
+      const store = new LocalStore();
+      const counterSpy = jest.spyOn(store, 'incrementCounter');
+      mailer = new WaitlistMailer(store, mailConfig, {
+        companyName: 'TestCo',
+        protection: { blockDisposable: true, ipRateLimit: { max: 1, windowMs: 60000 }, rateLimitStorage: 'store' },
+      });
+      await mailer.waitForInitialization();
+      const rejectedSpy = jest.fn();
+      mailer.on('onSignupRejected', rejectedSpy);
+
+      expect(await mailer.addEmail('bot@yopmail.com')).toBe(false);
+      expect(rejectedSpy).toHaveBeenCalledWith({
+        email: 'bot@yopmail.com',
+        listId: 'default',
+        ip: null,
+        reason: 'disposable_domain',
+        message: 'Disposable email addresses are not allowed',
+      });
+      expect(await mailer.addEmail('bot@test.com', { honeypot: 'filled' })).toBe(false);
+      expect(rejectedSpy).toHaveBeenLastCalledWith(expect.objectContaining({ reason: 'honeypot' }));
+
+      // El honeypot rechazado no ocupa el email
+      expect(await mailer.addEmail('bot@test.com', { ip: '203.0.113.7' })).toBe(true);
+      expect(await mailer.addEmail('second@test.com', { ip: '203.0.113.7' })).toBe(false);
+      expect(rejectedSpy).toHaveBeenLastCalledWith(expect.objectContaining({ ip: '203.0.113.7', reason: 'ip_rate_limited' }));
+      expect(counterSpy).toHaveBeenCalledTimes(2);
+      expect(mailer.getWaitlist()).toEqual(['bot@test.com']);
+
+      expect(mailer.updateDisposableDomains(['burner.dev'])).toBeGreaterThan(1);
+      expect(await mailer.addEmail('x@burner.dev')).toBe(false);
+    });
+  });
+
+  // ==================== Email Normalization ====================
+  describe('Email Normalization', () => {
+    test('Detects duplicates on the canonical address and keeps the original', async () => {
+      const store = new LocalStore();
+      mailer = new WaitlistMailer(store, mailConfig, {
+        companyName: 'TestCo',
+        normalization: { stripDots: true, stripPlusTags: true },
+      });
+      await mailer.waitForInitialization();
+      const duplicateSpy = jest.fn();
+      mailer.on('onDuplicateEmail', duplicateSpy);
+
+      expect(await mailer.addEmail(' J.Ohn+Beta@Gmail.com ')).toBe(true);
+      expect(await mailer.addEmail('john@gmail.com')).toBe(false);
+      expect(await mailer.addEmail('JOHN+news@gmail.com')).toBe(false);
+      expect(duplicateSpy).toHaveBeenCalledWith('john@gmail.com');
+      expect(await mailer.addEmail('j.ohn+beta@outlook.com')).toBe(true);
+      expect(await mailer.addEmail('ana@bücher.de')).toBe(true);
+      expect(mailer.getWaitlist()).toEqual(['john@gmail.com', 'j.ohn@outlook.com', 'ana@xn--bcher-kva.de']);
+      expect((await store.findOne('john@gmail.com'))?.originalEmail).toBe('J.Ohn+Beta@Gmail.com');
+
+      // Los métodos públicos aceptan cualquier forma de la dirección
+      expect(await mailer.getPosition('J.O.H.N@gmail.com')).toBe(1);
+      expect(await mailer.addTags('ANA@BÜCHER.DE', ['vip'])).toBe(true);
+      expect(await mailer.addSuppression('jo.hn+x@gmail.com', 'bounce')).toBe(true);
+      expect(await mailer.sendConfirmation('john@gmail.com', () => 'Hi', () => '<p>Hi</p>')).toBe(false);
+      expect(await mailer.removeEmail('John@Gmail.com')).toBe(true);
+    });
+
+    test('Counts Gmail variants as duplicates without configuration', async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, { companyName: 'TestCo' });
+      await mailer.waitForInitialization();
+
+      expect(await mailer.addEmail('john@gmail.com')).toBe(true);
+      expect(await mailer.addEmail('j.ohn+beta@gmail.com')).toBe(false);
+      expect(await mailer.addEmail('John@GoogleMail.com')).toBe(false);
+      expect(await mailer.addEmail('j.ohn+beta@outlook.com')).toBe(true);
+      expect(mailer.getWaitlist()).toEqual(['john@gmail.com', 'j.ohn+beta@outlook.com']);
+    });
+
+    test('Migrates stored entries and reports collisions', async () => {
+      const store = new LocalStore();
+      const createdAt = new Date('2024-01-01T00:00:00Z');
+      await store.insertMany([
+        { email: 'Ana@Test.com', createdAt },
+        { email: 'bob@test.com', createdAt },
+        { email: 'Bob@Test.com', createdAt: new Date('2024-01-02T00:00:00Z') },
+        { email: 'cy@test.com', createdAt },
+      ]);
+      mailer = new WaitlistMailer(store, mailConfig, { companyName: 'TestCo' });
+      await mailer.waitForInitialization();
+
+      // Las entradas antiguas siguen accesibles por su dirección guardada
+      expect(await mailer.getPosition('Ana@Test.com')).toBe(1);
+
+      const collisions = [{ listId: 'default', canonicalEmail: 'bob@test.com', emails: ['bob@test.com', 'Bob@Test.com'] }];
+      expect(await mailer.migrateEmailNormalization({ dryRun: true })).toEqual({ migrated: 1, collisions });
+      expect(await store.findOne('Ana@Test.com')).not.toBeNull();
+
+      expect(await mailer.migrateEmailNormalization()).toEqual({ migrated: 1, collisions });
+      expect(await store.findOne('ana@test.com')).toMatchObject({ originalEmail: 'Ana@Test.com', createdAt });
+      expect(mailer.getWaitlist()).toContain('ana@test.com');
+      expect(await mailer.addEmail('ANA@test.com')).toBe(false);
+
+      // Al borrar la entrada canónica, la otra puede migrarse
+      expect(await mailer.removeEmail('Bob@Test.com')).toBe(true);
+      expect(await mailer.migrateEmailNormalization({ listId: 'default' })).toEqual({ migrated: 1, collisions: [] });
+      expect(await store.findOne('bob@test.com')).toMatchObject({ originalEmail: 'Bob@Test.com' });
+      expect(await mailer.migrateEmailNormalization({ listId: 'missing' })).toBeNull();
+    });
+
+    test('Compares emails as entered when normalization is disabled', async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, { companyName: 'TestCo', normalization: false });
+      await mailer.waitForInitialization();
+
+      expect(await mailer.addEmail('Ana@Test.com')).toBe(true);
+      expect(await mailer.addEmail('ana@test.com')).toBe(true);
+      expect(mailer.normalizeEmail(' Ana@Test.com')).toBe(' Ana@Test.com');
+    });
+  });
+
+  // ==================== Import and Export ====================
+  describe('Import and Export', () => {
+    // Lee todo lo que se escribe en el stream de exportación
+    const collect = async (stream: PassThrough): Promise<string> => {
+      let data = '';
+      for await (const chunk of stream) data += chunk;
+      return data;
+    };
+
+    beforeEach(async () => {
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, {
+        companyName: 'TestCo',
+        fields: { username: Joi.string(), seats: Joi.number(), utm: Joi.object({ source: Joi.string() }) },
+      });
+      await mailer.waitForInitialization();
+    });
+
+    test('Streams the waitlist as CSV and NDJSON', async () => {
+      await mailer.addEmail('ana@test.com', { username: 'Ana, "the first"', utm: { source: 'x' } });
+      await mailer.addEmail('bob@test.com', { seats: 3 });
+
+      const csv = new PassThrough();
+      const csvOutput = collect(csv);
+      expect(await mailer.exportWaitlist('csv', csv, { batchSize: 1 })).toBe(2);
+      const lines = (await csvOutput).split('\r\n');
+      expect(lines[0]).toBe('email,createdAt,status,username,seats,utm');
+      expect(lines[1]).toMatch(/^ana@test\.com,\d{4}-\d{2}-\d{2}T[\d:.]+Z,confirmed,"Ana, ""the first""",,"{""source"":""x""}"$/);
+      expect(lines[2]).toMatch(/^bob@test\.com,.+,confirmed,,3,$/);
+
+      const ndjson = new PassThrough();
+      const ndjsonOutput = collect(ndjson);
+      await mailer.exportWaitlist('ndjson', ndjson);
+      const records = (await ndjsonOutput).trim().split('\n').map(line => JSON.parse(line));
+      expect(records[1]).toEqual({ email: 'bob@test.com', createdAt: expect.any(String), status: 'confirmed', fields: { seats: 3 } });
+    });
+
+    test('Escapes formula cells on export and restores them on import', async () => {
+      await mailer.addEmail('ana@test.com', { username: '=HYPERLINK("http://evil")' });
+      await mailer.addEmail('bob@test.com', { username: '-bob', seats: -2 });
+
+      const csv = new PassThrough();
+      const csvOutput = collect(csv);
+      await mailer.exportWaitlist('csv', csv);
+      const output = await csvOutput;
+      const lines = output.split('\r\n');
+      expect(lines[1]).toMatch(/,"'=HYPERLINK\(""http:\/\/evil""\)",,$/);
+      expect(lines[2]).toMatch(/,'-bob,-2,$/);
+
+      await mailer.clearWaitlist();
+      await mailer.importWaitlist(Readable.from([output]));
+      expect(await mailer.getFields('ana@test.com')).toEqual({ username: '=HYPERLINK("http://evil")' });
+      expect(await mailer.getFields('bob@test.com')).toEqual({ username: '-bob', seats: -2 });
+    });
+
+    test('Fails the export instead of hanging when the destination closes', async () => {
+      await mailer.addEmail('ana@test.com');
+      // Un buffer mínimo que nadie lee, como un cliente que se desconecta
+      const destination = new PassThrough({ highWaterMark: 1 });
+      const exported = mailer.exportWaitlist('csv', destination);
+      setImmediate(() => destination.destroy());
+      expect(await exported).toBeNull();
+    });
+
+    test('Imports CSV in batches and reports rejected rows by line', async () => {
+      const importedSpy = jest.fn();
+      mailer.on('onWaitlistImported', importedSpy);
+      const insertSpy = jest.spyOn(LocalStore.prototype, 'insertMany');
+      await mailer.addEmail('existing@test.com');
+
+      const source = Readable.from([
+        'email,createdAt,status,seats,utm\r\n',
+        'ana@test.com,2024-01-02T00:00:00.000Z,pending,5,"{""source"":""x""}"\r\n',
+        'not-an-email,,,,\r\n',
+        'existing@test.com,,,,\r\n',
+        'bob@test.com,,,many,\r\n',
+        '"multi\nline@test.com",,,,\r\n',
+        'cy@te',
+        'st.com,,confirmed,,\r\n',
+        'ana@test.com,,,,\r\n',
+        'short@test.com\r\n',
+      ]);
+      const report = await mailer.importWaitlist(source, { batchSize: 1 });
+
+      expect(report.imported).toBe(2);
+      expect(report.updated).toBe(0);
+      expect(report.duplicates).toEqual([
+        { line: 4, email: 'existing@test.com', message: 'Duplicate email' },
+        { line: 9, email: 'ana@test.com', message: 'Duplicate email' },
+      ]);
+      expect(report.invalid.map(issue => [issue.line, issue.email, issue.message])).toEqual([
+        [3, 'not-an-email', 'Invalid email format'],
+        [5, 'bob@test.com', '"seats" must be a number'],
+        [6, 'multi\nline@test.com', 'Invalid email format'],
+        [10, '', 'Expected 5 columns, found 1'],
+      ]);
+      expect(insertSpy).toHaveBeenCalledTimes(2);
+      expect(importedSpy).toHaveBeenCalledWith(report);
+
+      expect(mailer.getWaitlist()).toEqual(['existing@test.com', 'ana@test.com', 'cy@test.com']);
+      const { items } = await mailer.querySubscribers({ filter: { email: { contains: 'ana' } } });
+      expect(items[0]).toMatchObject({ status: 'pending', createdAt: new Date('2024-01-02T00:00:00.000Z'), fields: { seats: 5, utm: { source: 'x' } } });
+      insertSpy.mockRestore();
+    });
+
+    test('Reports each row accurately when a batch is only partly saved', async () => {
+      // El lote guarda la primera fila y falla antes de la segunda
+      const insertManySpy = jest.spyOn(LocalStore.prototype, 'insertMany').mockImplementationOnce(async function (this: LocalStore, records) {
+        await this.insert(records[0]);
+        throw new Error('Write interrupted');
+      });
+      const originalInsert = LocalStore.prototype.insert;
+      const failingInsert = jest.spyOn(LocalStore.prototype, 'insert').mockImplementation(async function (this: LocalStore, record) {
+        if (record.email === 'cy@test.com') throw new Error('Disk full');
+        return originalInsert.call(this, record);
+      });
+
+      const source = Readable.from(['email\r\n', 'ana@test.com\r\n', 'bob@test.com\r\n', 'cy@test.com\r\n']);
+      const report = await mailer.importWaitlist(source, { batchSize: 3 });
+      expect(report.imported).toBe(2);
+      expect(report.invalid).toEqual([{ line: 4, email: 'cy@test.com', message: 'Failed to save' }]);
+      expect(mailer.getWaitlist()).toEqual(['ana@test.com', 'bob@test.com']);
+      expect((await mailer.getReferralStats('bob@test.com'))?.referralCode).toMatch(/^[0-9a-f]{12}$/);
+      insertManySpy.mockRestore();
+      failingInsert.mockRestore();
+    });
+
+    test('Updates existing entries from NDJSON when asked', async () => {
+      await mailer.addEmail('ana@test.com', { username: 'Ana' });
+      const source = Readable.from([
+        '{"email":"ana@test.com","status":"pending","fields":{"username":"Ana B"}}\n',
+        '\n',
+        '{"email":"new@test.com","fields":{"seats":"2"}}\n',
+        '[1,2]\n',
+        '{"email":',
+      ]);
+
+      const report = await mailer.importWaitlist(source, { format: 'ndjson', onDuplicate: 'update' });
+      expect(report).toEqual({
+        imported: 1,
+        updated: 1,
+        duplicates: [],
+        invalid: [
+          { line: 4, email: '', message: 'Expected a JSON object' },
+          { line: 5, email: '', message: 'Invalid JSON' },
+        ],
+      });
+      expect(await mailer.getFields('ana@test.com')).toEqual({ username: 'Ana B' });
+      expect(await mailer.getFields('new@test.com')).toEqual({ seats: 2 });
+    });
+  });
+
+  // ==================== Mail Transports ====================
+  describe('Mail Transports', () => {
+    // Proveedor en memoria con fallos configurables
+    const createTransport = (name: string, failures: Error[] = []): MailTransport & { send: jest.Mock } => ({
+      name,
+      verify: jest.fn().mockResolvedValue(undefined),
+      send: jest.fn().mockImplementation(async () => {
+        const failure = failures.shift();
+        if (failure) throw failure;
+        return { messageId: `${name}-id` };
+      }),
+    });
+
+    test('Fails over to the next provider on transient errors', async () => {
+      const primary = createTransport('primary', [new TransportError('Connection refused', false)]);
+      const backup = createTransport('backup');
+      mailer = new WaitlistMailer(StorageType.Local, { from: 'noreply@test.com', transports: [primary, backup] });
+      await mailer.waitForInitialization();
+      await mailer.addEmail('user@test.com');
+
+      const deliveredSpy = jest.fn();
+      const unhealthySpy = jest.fn();
+      const failoverSpy = jest.fn();
+      mailer.on('onEmailDelivered', deliveredSpy);
+      mailer.on('onProviderUnhealthy', unhealthySpy);
+      mailer.on('onProviderFailover', failoverSpy);
+
+      expect(await mailer.sendConfirmation('user@test.com', () => 'Hi', () => '<p>Hi</p>')).toBe(true);
+      expect(primary.send).toHaveBeenCalledTimes(1);
+      expect(backup.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'user@test.com', from: '"Your Company" <noreply@test.com>' }));
+      expect(deliveredSpy).toHaveBeenCalledWith({ email: 'user@test.com', provider: 'backup', messageId: 'backup-id' });
+      expect(unhealthySpy).toHaveBeenCalledWith({ provider: 'primary', error: 'Connection refused' });
+      expect(failoverSpy).toHaveBeenCalledWith({ email: 'user@test.com', from: 'primary', to: 'backup' });
+    }, 10000);
+
+    test('Does not fail over on permanent rejections', async () => {
+      const primary = createTransport('primary', [new TransportError('Mailbox unavailable', true, 550)]);
+      const backup = createTransport('backup');
+      mailer = new WaitlistMailer(StorageType.Local, { from: 'noreply@test.com', transports: [primary, backup] });
+      await mailer.waitForInitialization();
+      await mailer.addEmail('user@test.com');
+
+      expect(await mailer.sendConfirmation('user@test.com', () => 'Hi', () => '<p>Hi</p>')).toBe(false);
+      expect(backup.send).not.toHaveBeenCalled();
+    }, 10000);
+
+    test('Initializes while at least one provider is healthy and records the provider on queued jobs', async () => {
+      const broken = createTransport('broken');
+      broken.verify = jest.fn().mockRejectedValue(new Error('Invalid credentials'));
+      const backup = createTransport('backup');
+      const healthySpy = jest.fn();
+
+      mailer = new WaitlistMailer(StorageType.Local, { ...mailConfig, transports: [broken, backup] }, { queue: { autoStart: false } });
+      mailer.on('onProviderHealthy', healthySpy);
+      await mailer.waitForInitialization();
+      expect(healthySpy).toHaveBeenCalledWith('smtp');
+      expect(healthySpy).toHaveBeenCalledWith('backup');
+
+      await mailer.addEmail('user@test.com');
+      await mailer.enqueueConfirmation('user@test.com', () => 'Hi', () => '<p>Hi</p>');
+      await mailer.processQueue();
+      expect((await mailer.getQueueJobs('sent'))[0].provider).toBe('smtp');
+    }, 10000);
+
+    test('Rejects duplicate transport names', () => {
+      expect(() => new WaitlistMailer(StorageType.Local, {
+        from: 'noreply@test.com',
+        transports: [createTransport('same'), createTransport('same')],
+      })).toThrow('transport names must be unique');
+    });
+  });
+
+  // ==================== Lifecycle ====================
+  describe('Lifecycle', () => {
+    const createTransport = (name: string): MailTransport & { verify: jest.Mock; send: jest.Mock } => ({
+      name,
+      verify: jest.fn().mockResolvedValue(undefined),
+      send: jest.fn().mockResolvedValue({ messageId: `${name}-id` }),
+    });
+
+    test('Creates an initialized mailer or rejects when initialization fails', async () => {
+      const healthy = createTransport('healthy');
+      mailer = await WaitlistMailer.create(StorageType.Local, { from: 'noreply@test.com', transports: [healthy] });
+      expect(mailer.isInitialized()).toBe(true);
+      expect(healthy.verify).toHaveBeenCalled();
+
+      const broken = createTransport('broken');
+      broken.verify.mockRejectedValue(new Error('Invalid credentials'));
+      const store = new LocalStore();
+      const closeSpy = jest.spyOn(store, 'close');
+      await expect(WaitlistMailer.create(store, { from: 'noreply@test.com', transports: [broken] })).rejects.toThrow('Invalid credentials');
+      expect(closeSpy).toHaveBeenCalled();
+
+      const constructed = new WaitlistMailer(StorageType.Local, { from: 'noreply@test.com', transports: [broken] });
+      await expect(constructed.waitForInitialization()).rejects.toThrow('Invalid credentials');
+      await constructed.close();
+
+      // Verificación omitida o diferida: la inicialización no depende del proveedor
+      const skipped = await WaitlistMailer.create(StorageType.Local, { from: 'noreply@test.com', transports: [broken] }, { verifyTransports: false });
+      expect(skipped.isInitialized()).toBe(true);
+      await skipped.close();
+
+      broken.verify.mockClear();
+      const unhealthySpy = jest.fn();
+      const deferred = new WaitlistMailer(StorageType.Local, { from: 'noreply@test.com', transports: [broken] }, { verifyTransports: 'defer' });
+      deferred.on('onProviderUnhealthy', unhealthySpy);
+      await deferred.waitForInitialization();
+      expect(deferred.isInitialized()).toBe(true);
+      await deferred.close();
+      expect(broken.verify).toHaveBeenCalledTimes(1);
+      expect(unhealthySpy).toHaveBeenCalledWith({ provider: 'broken', error: 'Invalid credentials' });
+    }, 10000);
+
+    test('Drains sends in progress on close and reports storage and transport health', async () => {
+      const transport = createTransport('slow');
+      const store = new LocalStore();
+      mailer = await WaitlistMailer.create(store, { from: 'noreply@test.com', transports: [transport] });
+      await mailer.addEmail('user@test.com');
+
+      expect(await mailer.checkHealth()).toEqual({
+        healthy: true,
+        storage: { healthy: true },
+        transports: [{ name: 'slow', healthy: true }],
+      });
+      jest.spyOn(store, 'ping').mockRejectedValueOnce(new Error('Connection lost'));
+      transport.verify.mockRejectedValueOnce(new Error('Timeout'));
+      expect(await mailer.checkHealth()).toEqual({
+        healthy: false,
+        storage: { healthy: false, error: 'Connection lost' },
+        transports: [{ name: 'slow', healthy: false, error: 'Timeout' }],
+      });
+
+      let release!: () => void;
+      transport.send.mockImplementationOnce(() => new Promise(resolve => (release = () => resolve({ messageId: 'slow-id' }))));
+      const sending = mailer.sendConfirmation('user@test.com', () => 'Hi', () => '<p>Hi</p>');
+      await new Promise(resolve => setImmediate(resolve));
+
+      const closeSpy = jest.spyOn(store, 'close');
+      const closing = mailer.close();
+      await new Promise(resolve => setImmediate(resolve));
+      expect(closeSpy).not.toHaveBeenCalled();
+      expect(await mailer.sendConfirmation('user@test.com', () => 'Late', () => '<p>Late</p>')).toBe(false);
+
+      release();
+      expect(await sending).toBe(true);
+      await closing;
+      expect(closeSpy).toHaveBeenCalled();
+      expect(transport.send).toHaveBeenCalledTimes(1);
+    }, 10000);
+
+    test('Hands queued jobs back untouched when closed during a batch', async () => {
+      const transport = createTransport('slow');
+      const store = new LocalStore();
+      mailer = await WaitlistMailer.create(store, { from: 'noreply@test.com', transports: [transport] }, { queue: { autoStart: false } });
+      const retrySpy = jest.fn();
+      mailer.on('onEmailRetry', retrySpy);
+      for (const email of ['a@test.com', 'b@test.com', 'c@test.com']) {
+        await mailer.addEmail(email);
+        await mailer.enqueueConfirmation(email, () => 'Hi', () => '<p>Hi</p>');
+      }
+
+      let release!: () => void;
+      transport.send.mockImplementationOnce(() => new Promise(resolve => (release = () => resolve({ messageId: 'slow-id' }))));
+      const processing = mailer.processQueue();
+      await new Promise(resolve => setImmediate(resolve));
+      const closing = mailer.close();
+      release();
+      await Promise.all([processing, closing]);
+
+      // Solo el envío en curso termina; el resto vuelve a la cola sin contar un intento
+      const jobs = await store.findJobs();
+      expect(jobs.map(job => [job.email, job.status, job.attempts])).toEqual([
+        ['a@test.com', 'sent', 1],
+        ['b@test.com', 'queued', 0],
+        ['c@test.com', 'queued', 0],
+      ]);
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      expect(retrySpy).not.toHaveBeenCalled();
+    }, 10000);
+  });
+
+  // ==================== Logging and Metrics ====================
+  describe('Logging and Metrics', () => {
+    test('Reports signups, rejections, sends and retries to the hooks', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const exporter = new PrometheusExporter();
+      const incrementSpy = jest.spyOn(exporter, 'increment');
+      mailer = await WaitlistMailer.create(StorageType.Local, mailConfig, { logger, metrics: exporter });
+      expect(logger.info).toHaveBeenCalledWith('WaitlistMailer initialized', { lists: ['default'], transports: ['smtp'] });
+
+      await mailer.addEmail('user@test.com');
+      await mailer.addEmail('user@test.com');
+      await mailer.addEmail('invalid-email');
+      mockSendMail.mockRejectedValueOnce(new Error('Connection reset'));
+      expect(await mailer.sendConfirmationWithRetry('user@test.com', () => 'Hi', () => '<p>Hi</p>', 1, 0)).toBe(true);
+
+      expect(incrementSpy).toHaveBeenCalledWith(METRICS.signups, { list: 'default' });
+      expect(incrementSpy).toHaveBeenCalledWith(METRICS.duplicates, { list: 'default' });
+      expect(incrementSpy).toHaveBeenCalledWith(METRICS.validationFailures);
+      expect(incrementSpy).toHaveBeenCalledWith(METRICS.retries, { source: 'direct' });
+      const metrics = exporter.metrics();
+      expect(metrics).toContain('waitlist_sends_total{provider="smtp",status="failed"} 1');
+      expect(metrics).toContain('waitlist_sends_total{provider="smtp",status="sent"} 1');
+      expect(metrics).toContain('waitlist_send_duration_seconds_count{provider="smtp"} 2');
+      expect(logger.error).toHaveBeenCalledWith('Failed to send confirmation', expect.objectContaining({ context: 'sendConfirmation', error: 'Connection reset' }));
+    }, 10000);
+
+    test('Writes JSON lines with the console logger and stays silent by default', async () => {
+      (console.error as jest.Mock).mockClear();
+      mailer = await WaitlistMailer.create(StorageType.Local, mailConfig);
+      await mailer.sendConfirmation('missing@test.com', () => 'Hi', () => '<p>Hi</p>');
+      expect(console.error).not.toHaveBeenCalled();
+
+      const logger = new ConsoleLogger('warn');
+      logger.info('Ignored');
+      logger.error('Send failed', { context: 'sendConfirmation' });
+      expect(console.log).not.toHaveBeenCalledWith(expect.stringContaining('Ignored'));
+      const line = JSON.parse((console.error as jest.Mock).mock.calls[0][0]);
+      expect(line).toEqual({ context: 'sendConfirmation', time: expect.any(String), level: 'error', message: 'Send failed' });
+    }, 10000);
   });
 
   // ==================== MongoDB Storage ====================
@@ -163,6 +1695,43 @@ describe('WaitlistMailer - Comprehensive Tests', () => {
       expect(mailer.getWaitlist()).toContain('mongo@test.com');
     }, 10000);
 
+    test('Runs segment queries', async () => {
+      await mailer.clearWaitlist();
+      await mailer.close();
+      mailer = new WaitlistMailer(StorageType.Db, mailConfig, {
+        mongoUri: process.env.MONGO_URI || 'mongodb://localhost:27017/testdb',
+        fields: segmentFields,
+      });
+      await mailer.waitForInitialization();
+      await expectSegmentQueries(mailer);
+    }, 20000);
+
+    test('Treats documents from earlier versions as having the defaults', async () => {
+      await mailer.clearWaitlist();
+      // Documentos de la primera versión: sin status, referralCount ni listId
+      await mongoose.connection.collection('waitlists').insertMany([
+        { email: 'old@test.com', createdAt: new Date('2024-01-01') },
+        { email: 'older@test.com', createdAt: new Date('2023-01-01') },
+      ]);
+      await mailer.addEmail('new@test.com');
+      await mailer.addEmail('referrer@test.com');
+      const { referralCode } = (await mailer.getReferralStats('referrer@test.com'))!;
+      await mailer.addEmail('friend@test.com', { referredBy: referralCode! });
+
+      const confirmed = await mailer.querySubscribers({ filter: { status: 'confirmed', referralCount: { max: 0 } } });
+      expect(confirmed.items.map(record => record.email).sort()).toEqual(['friend@test.com', 'new@test.com', 'old@test.com', 'older@test.com']);
+      const byReferrals = await mailer.querySubscribers({ sort: { field: 'referralCount', direction: 'asc' } });
+      expect(byReferrals.items.map(record => record.email)).toEqual(['friend@test.com', 'new@test.com', 'old@test.com', 'older@test.com', 'referrer@test.com']);
+      expect(Object.keys(byReferrals.items[0])).not.toContain('_id');
+
+      const exported = new PassThrough();
+      let output = '';
+      exported.on('data', chunk => { output += chunk; });
+      await mailer.exportWaitlist('ndjson', exported);
+      expect(output).not.toMatch(/"_id"|"__v"/);
+      await mailer.clearWaitlist();
+    }, 20000);
+
     test('Clears the waitlist', async () => {
       const clearedSpy = jest.fn();
       mailer.on('onWaitlistCleared', clearedSpy);
@@ -205,6 +1774,38 @@ describe('WaitlistMailer - Comprehensive Tests', () => {
       expect(mailer.getWaitlist()).toContain('sql@test.com');
     }, 10000);
 
+    test('Runs segment queries', async () => {
+      await mailer.clearWaitlist();
+      await mailer.close();
+      mailer = new WaitlistMailer(StorageType.Sql, mailConfig, { sqlConfig, fields: segmentFields });
+      await mailer.waitForInitialization();
+      await expectSegmentQueries(mailer);
+    }, 20000);
+
+    test('Upgrades a table created by the first release in place', async () => {
+      await mailer.close();
+      // Tabla con la forma de la primera versión: solo email único y fechas
+      const queryInterface = sequelize.getQueryInterface();
+      await queryInterface.dropTable('Waitlists');
+      await queryInterface.createTable('Waitlists', {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        email: { type: DataTypes.STRING, allowNull: false, unique: true },
+        createdAt: { type: DataTypes.DATE, allowNull: false },
+        updatedAt: { type: DataTypes.DATE, allowNull: false },
+      });
+      await queryInterface.bulkInsert('Waitlists', [{ email: 'legacy@test.com', createdAt: new Date(), updatedAt: new Date() }]);
+
+      mailer = new WaitlistMailer(StorageType.Sql, mailConfig, { sqlConfig });
+      await mailer.waitForInitialization();
+      const indexes = (await queryInterface.showIndex('Waitlists')) as Array<{ name: string }>;
+      expect(indexes.map(index => index.name)).toEqual(expect.arrayContaining(['waitlists_referral_code', 'waitlists_invite_code']));
+
+      expect(await mailer.findEmailsByPattern('legacy')).toEqual(['legacy@test.com']);
+      expect(await mailer.addEmail('new@test.com')).toBe(true);
+      expect((await mailer.getReferralStats('new@test.com'))?.referralCode).toMatch(/^[0-9a-f]{12}$/);
+      await mailer.clearWaitlist();
+    }, 20000);
+
     test('Saves multiple emails persistently', async () => {
       const savedSpy = jest.fn();
       mailer.on('onWaitlistSaved', savedSpy);
@@ -253,6 +1854,62 @@ describe('WaitlistMailer - Comprehensive Tests', () => {
       expect(bulkSpy).toHaveBeenCalledWith({ successCount: 2, total: 2 });
     }, 10000);
 
+    test('Sends in parallel and reports progress', async () => {
+      const progressSpy = jest.fn();
+      mailer.on('onBulkProgress', progressSpy);
+
+      for (let i = 0; i < 5; i++) {
+        await mailer.addEmail(`parallel${i}@test.com`);
+      }
+      const sentCount = await mailer.sendBulkConfirmation(
+        email => `Bulk ${email}`,
+        email => `<p>Bulk ${email}</p>`,
+        0,
+        0,
+        { concurrency: 3 }
+      );
+      expect(sentCount).toBe(5);
+      expect(progressSpy).toHaveBeenCalledTimes(5);
+      expect(progressSpy).toHaveBeenLastCalledWith({ total: 5, sent: 5, failed: 0, remaining: 0, etaMs: 0 });
+    }, 10000);
+
+    test('Reports store failures while loading bulk recipients instead of rejecting', async () => {
+      await mailer.close();
+      const store = new LocalStore();
+      mailer = new WaitlistMailer(store, mailConfig, { companyName: 'TestCo' });
+      await mailer.waitForInitialization();
+      const errorSpy = jest.fn();
+      mailer.on('onError', errorSpy);
+      jest.spyOn(store, 'findAll').mockRejectedValueOnce(new Error('Connection lost'));
+
+      await mailer.addEmail('bulk@test.com');
+      expect(await mailer.sendBulkConfirmation(() => 'Hi', () => '<p>Hi</p>', 0, 0)).toBe(0);
+      expect(errorSpy).toHaveBeenCalledWith(expect.objectContaining({ context: 'sendBulkConfirmation' }));
+      expect(mockSendMail).not.toHaveBeenCalled();
+    }, 10000);
+
+    test('Adds a plain-text part and runs the rendering pipeline', async () => {
+      await mailer.close();
+      const compile = jest.fn((html: string) => html.replace('<mj-text>', '<style>p { color: red }</style><p>').replace('</mj-text>', '</p>'));
+      mailer = new WaitlistMailer(StorageType.Local, mailConfig, { rendering: { compile, inlineCss: true } });
+      await mailer.waitForInitialization();
+      await mailer.addEmail('user@test.com');
+
+      expect(await mailer.sendConfirmation('user@test.com', () => 'Hi', () => '<mj-text>Hello &amp; welcome</mj-text>')).toBe(true);
+      expect(compile).toHaveBeenCalledTimes(1);
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({
+        html: '<p style="color: red">Hello &amp; welcome</p>',
+        text: 'Hello & welcome',
+      }));
+    }, 10000);
+
+    test('Creates a pooled transporter when requested', async () => {
+      const pooled = new WaitlistMailer(StorageType.Local, { ...mailConfig, pool: true, maxConnections: 3 });
+      expect(nodemailer.createTransport).toHaveBeenLastCalledWith(expect.objectContaining({ pool: true, maxConnections: 3 }));
+      await pooled.waitForInitialization();
+      await pooled.close();
+    }, 10000);
+
     test('Retries sending on failure', async () => {
       const retrySpy = jest.fn();
       mailer.on('onEmailRetry', retrySpy);
@@ -0,0 +1,122 @@
+import { parseBounceWebhook, parseDsn } from './bounces';
+
+const dsn = [
+  'From: Mail Delivery System <MAILER-DAEMON@mx.example.com>',
+  'To: noreply@test.com',
+  'Subject: Undelivered Mail Returned to Sender',
+  'Content-Type: multipart/report; report-type=delivery-status;',
+  '\tboundary="REPORT"',
+  '',
+  'This is a MIME-encapsulated message.',
+  '',
+  '--REPORT',
+  'Content-Type: text/plain',
+  '',
+  'I could not deliver your message.',
+  '',
+  '--REPORT',
+  'Content-Type: message/delivery-status',
+  '',
+  'Reporting-MTA: dns; mx.example.com',
+  'Arrival-Date: Mon, 19 Oct 2026 10:00:00 +0000',
+  '',
+  'Final-Recipient: rfc822; gone@example.com',
+  'Action: failed',
+  'Status: 5.1.1',
+  'Diagnostic-Code: smtp; 550 5.1.1 <gone@example.com>:',
+  '  Recipient address rejected: User unknown',
+  '',
+  'Final-Recipient: rfc822; full@example.com',
+  'Action: failed',
+  'Status: 4.2.2',
+  '',
+  'Final-Recipient: rfc822; ok@example.com',
+  'Action: delivered',
+  'Status: 2.0.0',
+  '',
+  '--REPORT',
+  'Content-Type: text/rfc822-headers',
+  '',
+  'Message-ID: <abc@test.com>',
+  'To: gone@example.com',
+  '',
+  '--REPORT--',
+  '',
+].join('\r\n');
+
+describe('parseDsn', () => {
+  test('Reports failed recipients with the original message id', () => {
+    expect(parseDsn(dsn)).toEqual([
+      {
+        type: 'hard',
+        email: 'gone@example.com',
+        messageId: '<abc@test.com>',
+        status: '5.1.1',
+        diagnostic: '550 5.1.1 <gone@example.com>: Recipient address rejected: User unknown',
+      },
+      { type: 'soft', email: 'full@example.com', messageId: '<abc@test.com>', status: '4.2.2' },
+    ]);
+    expect(parseDsn(Buffer.from(dsn))).toHaveLength(2);
+    expect(parseDsn('Subject: Hello\r\n\r\nNot a report')).toEqual([]);
+  });
+
+  test('Reads abuse feedback reports as complaints', () => {
+    const arf = [
+      'Content-Type: multipart/report; report-type=feedback-report; boundary=ARF',
+      '',
+      '--ARF',
+      'Content-Type: message/feedback-report',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('Feedback-Type: abuse\r\nVersion: 1\r\nOriginal-Rcpt-To: <ana@example.com>\r\n').toString('base64'),
+      '--ARF',
+      'Content-Type: message/rfc822',
+      '',
+      'Message-ID: <def@test.com>',
+      'Subject: News',
+      '',
+      'Hi',
+      '--ARF--',
+    ].join('\n');
+
+    expect(parseDsn(arf)).toEqual([{ type: 'complaint', email: 'ana@example.com', messageId: '<def@test.com>', diagnostic: 'abuse' }]);
+  });
+});
+
+describe('parseBounceWebhook', () => {
+  test('Normalizes generic and provider-specific payloads', () => {
+    expect(parseBounceWebhook([
+      { event: 'bounce', email: 'a@example.com', sg_message_id: 'sg-1', status: '5.0.0', reason: 'Unknown user' },
+      { event: 'bounce', email: 'b@example.com', type: 'soft_bounce' },
+      { event: 'spamreport', email: 'c@example.com' },
+      { event: 'delivered', email: 'd@example.com' },
+    ])).toEqual([
+      { type: 'hard', email: 'a@example.com', messageId: 'sg-1', status: '5.0.0', diagnostic: 'Unknown user' },
+      { type: 'soft', email: 'b@example.com' },
+      { type: 'complaint', email: 'c@example.com' },
+    ]);
+
+    expect(parseBounceWebhook({
+      'event-data': {
+        event: 'failed',
+        severity: 'temporary',
+        recipient: 'e@example.com',
+        message: { headers: { 'message-id': 'mg-1' } },
+        'delivery-status': { code: 452, description: 'Mailbox full' },
+      },
+    })).toEqual([{ type: 'soft', email: 'e@example.com', messageId: 'mg-1', status: '452', diagnostic: 'Mailbox full' }]);
+
+    const ses = {
+      notificationType: 'Bounce',
+      bounce: { bounceType: 'Permanent', bouncedRecipients: [{ emailAddress: 'f@example.com', status: '5.1.1', diagnosticCode: 'smtp; 550' }] },
+      mail: { messageId: 'ses-1' },
+    };
+    expect(parseBounceWebhook({ Type: 'Notification', Message: JSON.stringify(ses) })).toEqual([
+      { type: 'hard', email: 'f@example.com', messageId: 'ses-1', status: '5.1.1', diagnostic: 'smtp; 550' },
+    ]);
+    expect(parseBounceWebhook({ RecordType: 'SpamComplaint', Email: 'g@example.com', MessageID: 'pm-1' })).toEqual([
+      { type: 'complaint', email: 'g@example.com', messageId: 'pm-1' },
+    ]);
+    expect(parseBounceWebhook('nonsense')).toEqual([]);
+  });
+});
@@ -0,0 +1,303 @@
+import { BounceSeverity } from './stores/WaitlistStore';
+
+/**
+ * What a delivery report says about a recipient.
+ * @typedef {'hard' | 'soft' | 'complaint'} BounceType
+ */
+export type BounceType = BounceSeverity | 'complaint';
+
+/**
+ * A bounce or complaint, parsed from a DSN or a provider webhook.
+ * @typedef {Object} BounceReport
+ * @property {BounceType} type - A permanent or temporary bounce, or a spam complaint.
+ * @property {string} [email] - The recipient, when the report names one.
+ * @property {string} [messageId] - The `Message-ID` of the original message, or the provider's message id.
+ * @property {string} [status] - The SMTP status (e.g., `5.1.1` or `550`).
+ * @property {string} [diagnostic] - The remote server's explanation.
+ */
+export interface BounceReport {
+  type: BounceType;
+  email?: string;
+  messageId?: string;
+  status?: string;
+  diagnostic?: string;
+}
+
+/**
+ * A MIME part.
+ * @private
+ */
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * How deep multipart messages are searched for the report.
+ * @constant {number} MAX_MIME_DEPTH
+ */
+const MAX_MIME_DEPTH = 5;
+
+/**
+ * Parses a header block, unfolding continuation lines. Names are lower-cased; the first occurrence wins.
+ * @param {string} block - The header lines.
+ * @returns {Record<string, string>}
+ */
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  });
+  return headers;
+}
+
+/**
+ * Splits a message or part into its headers and body.
+ * @param {string} raw - The message.
+ * @returns {MimePart}
+ */
+function splitPart(raw: string): MimePart {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { headers: parseHeaders(raw), body: '' };
+  return { headers: parseHeaders(raw.slice(0, match.index)), body: raw.slice(match.index + match[0].length) };
+}
+
+/**
+ * Reads a parameter of a structured header, e.g. the boundary of a `Content-Type`.
+ * @param {string} value - The header value.
+ * @param {string} name - The parameter name.
+ * @returns {string | undefined}
+ */
+function headerParam(value: string, name: string): string | undefined {
+  const match = new RegExp(`;\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i').exec(value);
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+/**
+ * Gets the lower-cased media type of a part.
+ * @param {MimePart} part - The part.
+ * @returns {string}
+ */
+function mediaType(part: MimePart): string {
+  return (part.headers['content-type'] ?? 'text/plain').split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Decodes a base64 or quoted-printable body.
+ * @param {MimePart} part - The part.
+ * @returns {string}
+ */
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers['content-transfer-encoding'] ?? '').trim().toLowerCase();
+  if (encoding === 'base64') return Buffer.from(part.body.replace(/\s+/g, ''), 'base64').toString('utf8');
+  if (encoding === 'quoted-printable') {
+    return part.body
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9A-F]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  }
+  return part.body;
+}
+
+/**
+ * Collects the leaf parts of a message, descending into multipart bodies.
+ * @param {string} raw - The message or part.
+ * @param {number} [depth=0] - The current nesting depth.
+ * @returns {MimePart[]}
+ */
+function collectParts(raw: string, depth: number = 0): MimePart[] {
+  const part = splitPart(raw);
+  const boundary = headerParam(part.headers['content-type'] ?? '', 'boundary');
+  if (!mediaType(part).startsWith('multipart/') || !boundary || depth >= MAX_MIME_DEPTH) return [part];
+
+  const delimiter = `--${boundary}`;
+  const sections = part.body.split(new RegExp(`(?:^|\\r?\\n)${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+  // The first section is the preamble; the closing delimiter leaves a section starting with "--"
+  return sections.slice(1).reduce<MimePart[]>((parts, section) => {
+    if (section.startsWith('--')) return parts;
+    return parts.concat(collectParts(section.replace(/^[ \t]*\r?\n/, ''), depth + 1));
+  }, []);
+}
+
+/**
+ * Reads an address from a DSN or ARF field (e.g., `rfc822; user@example.com`).
+ * @param {string} [value] - The field value.
+ * @returns {string | undefined}
+ */
+function readAddress(value?: string): string | undefined {
+  if (!value) return undefined;
+  const address = value.slice(value.indexOf(';') + 1).trim().replace(/^<|>$/g, '');
+  return address.includes('@') ? address : undefined;
+}
+
+/**
+ * Classifies a bounce by its SMTP status: 4xx statuses are temporary.
+ * @param {string} [status] - The status code.
+ * @param {BounceSeverity} [fallback='hard'] - The severity when the status is missing.
+ * @returns {BounceSeverity}
+ */
+function severityOf(status?: string, fallback: BounceSeverity = 'hard'): BounceSeverity {
+  if (status?.startsWith('4')) return 'soft';
+  if (status?.startsWith('5')) return 'hard';
+  return fallback;
+}
+
+/**
+ * Removes undefined fields from a report.
+ * @param {BounceReport} report - The report.
+ * @returns {BounceReport}
+ */
+function compact(report: BounceReport): BounceReport {
+  return Object.keys(report).reduce<BounceReport>((result, key) => {
+    const value = report[key as keyof BounceReport];
+    return value === undefined || value === '' ? result : { ...result, [key]: value };
+  }, { type: report.type });
+}
+
+/**
+ * Parses a delivery status notification (RFC 3464) or an abuse feedback report (RFC 5965) from a raw MIME message.
+ * Only failed and delayed recipients are reported; delayed deliveries count as soft bounces.
+ * @param {string | Buffer} raw - The message, as received.
+ * @returns {BounceReport[]} - The reports, or an empty array if the message contains none.
+ */
+export function parseDsn(raw: string | Buffer): BounceReport[] {
+  const parts = collectParts(Buffer.isBuffer(raw) ? raw.toString('utf8') : raw);
+  const original = parts.find(part => ['message/rfc822', 'text/rfc822-headers'].includes(mediaType(part)));
+  const originalHeaders = original ? splitPart(decodeBody(original)).headers : {};
+  const messageId = originalHeaders['message-id'];
+
+  const reports: BounceReport[] = [];
+  parts.forEach(part => {
+    const type = mediaType(part);
+    if (type === 'message/feedback-report') {
+      const fields = parseHeaders(decodeBody(part));
+      reports.push(compact({
+        type: 'complaint',
+        email: readAddress(fields['original-rcpt-to'] ?? fields['removal-recipient']) ?? readAddress(originalHeaders.to),
+        messageId,
+        diagnostic: fields['feedback-type'],
+      }));
+    }
+    if (type !== 'message/delivery-status' && type !== 'message/global-delivery-status') return;
+
+    // The first field group describes the message, each following group one recipient
+    decodeBody(part).split(/\r?\n(?:[ \t]*\r?\n)+/).slice(1).forEach(group => {
+      const fields = parseHeaders(group);
+      const action = (fields.action ?? '').toLowerCase();
+      if (action !== 'failed' && action !== 'delayed') return;
+      const status = fields.status?.split(/\s/)[0];
+      reports.push(compact({
+        type: action === 'delayed' ? 'soft' : severityOf(status),
+        email: readAddress(fields['original-recipient'] ?? fields['final-recipient']),
+        messageId,
+        status,
+        diagnostic: fields['diagnostic-code']?.replace(/^smtp;\s*/i, ''),
+      }));
+    });
+  });
+  return reports;
+}
+
+/**
+ * Narrows a parsed JSON value to an object; anything else becomes an empty object.
+ * @param {unknown} value - The value.
+ * @returns {Record<string, unknown>}
+ */
+function asObject(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Reads the first string or number among the given fields of an object.
+ * @param {Record<string, unknown>} source - The object.
+ * @param {string[]} names - The field names, in order of preference.
+ * @returns {string | undefined}
+ */
+function pick(source: Record<string, unknown>, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = source[name];
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Normalizes a single webhook event.
+ * @param {Record<string, unknown>} event - The event.
+ * @returns {BounceReport[]}
+ */
+function normalizeEvent(event: Record<string, unknown>): BounceReport[] {
+  // Amazon SES: one notification lists every bounced or complaining recipient
+  if (event.notificationType === 'Bounce' || event.notificationType === 'Complaint') {
+    const complaint = event.notificationType === 'Complaint';
+    const details = asObject(complaint ? event.complaint : event.bounce);
+    const listed = complaint ? details.complainedRecipients : details.bouncedRecipients;
+    const recipients = Array.isArray(listed) ? listed.map(asObject) : [];
+    const severity: BounceSeverity = details.bounceType === 'Transient' ? 'soft' : 'hard';
+    return recipients.map(recipient => compact({
+      type: complaint ? 'complaint' : severityOf(pick(recipient, ['status']), severity),
+      email: pick(recipient, ['emailAddress']),
+      messageId: pick(asObject(event.mail), ['messageId']),
+      status: pick(recipient, ['status']),
+      diagnostic: complaint ? pick(details, ['complaintFeedbackType']) : pick(recipient, ['diagnosticCode']),
+    }));
+  }
+
+  const kind = (pick(event, ['event', 'eventType', 'RecordType', 'type', 'Type']) ?? '').toLowerCase();
+  const hint = ['bounceType', 'bounce_type', 'severity', 'Type', 'type']
+    .map(name => {
+      const value = event[name];
+      return typeof value === 'string' ? value.toLowerCase() : '';
+    })
+    .join(' ');
+  const delivery = asObject(event['delivery-status']);
+  const headers = asObject(asObject(event.message).headers);
+  const status = pick(event, ['status', 'code', 'smtpStatus']) ?? pick(delivery, ['code']);
+
+  let type: BounceType;
+  if (/complain|spam|abuse/.test(kind) || /complain|spam|abuse/.test(hint)) {
+    type = 'complaint';
+  } else if (/bounce|fail|drop|reject/.test(kind)) {
+    if (/hard|permanent/.test(hint)) type = 'hard';
+    else if (/soft|transient|temporary/.test(hint)) type = 'soft';
+    else type = severityOf(status);
+  } else {
+    return [];
+  }
+
+  return [compact({
+    type,
+    email: pick(event, ['email', 'recipient', 'Email', 'Recipient', 'emailAddress']),
+    messageId: pick(event, ['messageId', 'message_id', 'MessageID', 'sg_message_id']) ?? pick(headers, ['message-id']),
+    status,
+    diagnostic: pick(event, ['reason', 'diagnostic', 'description', 'Description', 'Details']) ?? pick(delivery, ['description', 'message']),
+  })];
+}
+
+/**
+ * Normalizes a bounce or complaint webhook payload. Accepts a single event, an array of events, an
+ * `{ events: [...] }` envelope, Mailgun-style `event-data` and SNS-wrapped Amazon SES notifications.
+ * Events that are neither bounces nor complaints (deliveries, opens) are ignored.
+ * @param {unknown} payload - The parsed JSON body.
+ * @returns {BounceReport[]}
+ */
+export function parseBounceWebhook(payload: unknown): BounceReport[] {
+  if (Array.isArray(payload)) {
+    return payload.reduce<BounceReport[]>((reports, event) => reports.concat(parseBounceWebhook(event)), []);
+  }
+  if (!payload || typeof payload !== 'object') return [];
+
+  const event = asObject(payload);
+  if (Array.isArray(event.events)) return parseBounceWebhook(event.events);
+  if (event['event-data'] && typeof event['event-data'] === 'object') return parseBounceWebhook(event['event-data']);
+  if (event.Type === 'Notification' && typeof event.Message === 'string') {
+    try {
+      return parseBounceWebhook(JSON.parse(event.Message));
+    } catch {
+      return [];
+    }
+  }
+  return normalizeEvent(event);
+}
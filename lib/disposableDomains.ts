@@ -0,0 +1,111 @@
+/**
+ * Well-known disposable (throwaway) email domains, used when signup protection blocks disposable addresses.
+ * Subdomains are matched too. Extend or replace the list at runtime with `updateDisposableDomains`.
+ * @constant {string[]} DISPOSABLE_DOMAINS
+ */
+export const DISPOSABLE_DOMAINS: string[] = [
+  '0-mail.com',
+  '10minutemail.com',
+  '10minutemail.net',
+  '20minutemail.com',
+  '33mail.com',
+  'anonbox.net',
+  'armyspy.com',
+  'binkmail.com',
+  'bobmail.info',
+  'burnermail.io',
+  'byom.de',
+  'cuvox.de',
+  'dayrep.com',
+  'deadaddress.com',
+  'discard.email',
+  'discardmail.com',
+  'dispostable.com',
+  'dodgit.com',
+  'drdrb.net',
+  'dropmail.me',
+  'einrot.com',
+  'emailfake.com',
+  'emailondeck.com',
+  'emailtemporanea.net',
+  'fakeinbox.com',
+  'fakemail.net',
+  'fleckens.hu',
+  'getairmail.com',
+  'getnada.com',
+  'gishpuppy.com',
+  'grr.la',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.info',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'gustr.com',
+  'harakirimail.com',
+  'incognitomail.org',
+  'inboxbear.com',
+  'jetable.org',
+  'jourrapide.com',
+  'kasmail.com',
+  'mail-temp.com',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailexpire.com',
+  'mailforspam.com',
+  'mailinator.com',
+  'mailinator.net',
+  'mailinator2.com',
+  'mailmoat.com',
+  'mailnesia.com',
+  'mailnull.com',
+  'mailsac.com',
+  'mailtemp.info',
+  'meltmail.com',
+  'mintemail.com',
+  'mohmal.com',
+  'moakt.com',
+  'mytemp.email',
+  'mytrashmail.com',
+  'nada.email',
+  'no-spam.ws',
+  'nowmymail.com',
+  'objectmail.com',
+  'onewaymail.com',
+  'pokemail.net',
+  'rhyta.com',
+  'sharklasers.com',
+  'shieldemail.com',
+  'spam4.me',
+  'spambog.com',
+  'spambox.us',
+  'spamfree24.org',
+  'spamgourmet.com',
+  'spamherelots.com',
+  'spaml.com',
+  'superrito.com',
+  'teleworm.us',
+  'temp-mail.io',
+  'temp-mail.org',
+  'tempail.com',
+  'tempinbox.com',
+  'tempmail.com',
+  'tempmail.net',
+  'tempmail.plus',
+  'tempmailo.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'tmail.ws',
+  'tmpmail.net',
+  'tmpmail.org',
+  'trash-mail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'trashmail.net',
+  'trbvm.com',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+  'zetmail.com',
+];
@@ -0,0 +1,69 @@
+import { appendPixel, htmlToText, inlineCss, rewriteLinks } from './html';
+
+describe('htmlToText', () => {
+  test('Keeps structure, links and entities', () => {
+    const html = `
+      <html><head><style>p { color: red; }</style></head>
+      <body>
+        <h1>Welcome&nbsp;aboard!</h1>
+        <p>You are <strong>#3</strong> in line &amp; rising.<br>Share <a href="https://example.com/r/abc">your link</a>.</p>
+        <ul><li>One</li><li>Two</li></ul>
+        <p><a href="https://example.com/u">https://example.com/u</a></p>
+      </body></html>`;
+
+    expect(htmlToText(html)).toBe([
+      'Welcome aboard!',
+      '',
+      'You are #3 in line & rising.',
+      'Share your link (https://example.com/r/abc).',
+      '',
+      '- One',
+      '- Two',
+      '',
+      'https://example.com/u',
+    ].join('\n'));
+  });
+});
+
+describe('inlineCss', () => {
+  test('Inlines simple selectors by specificity and keeps existing styles last', () => {
+    const html = '<style>p { color: red } .lead { font-size: 18px } #intro.lead { color: blue }</style>'
+      + '<p id="intro" class="lead" style="margin: 0">Hi</p><p>There</p>';
+
+    expect(inlineCss(html)).toBe(
+      '<p id="intro" class="lead" style="color: red; font-size: 18px; color: blue; margin: 0">Hi</p>'
+      + '<p style="color: red">There</p>'
+    );
+  });
+
+  test('Keeps media queries and complex selectors in a style block', () => {
+    const html = '<html><head><style>td { padding: 4px } @media (max-width: 600px) { td { display: block } } table td b { color: red }</style></head>'
+      + '<body><table><tr><td>A</td></tr></table></body></html>';
+    const result = inlineCss(html);
+
+    expect(result).toContain('<td style="padding: 4px">A</td>');
+    expect(result).toContain('@media (max-width: 600px) { td { display: block } }');
+    expect(result).toContain('table td b { color: red }');
+    expect(result.indexOf('<style>')).toBeLessThan(result.indexOf('</head>'));
+  });
+});
+
+describe('rewriteLinks', () => {
+  test('Rewrites web links with their decoded target and escapes the result', () => {
+    const html = '<a class="cta" href="https://example.com/?a=1&amp;b=2">Go</a> <a href="mailto:hi@example.com">Mail</a> <a href=\'#top\'>Top</a>';
+    const rewritten = rewriteLinks(html, url => `https://t.example.com/click?u=${encodeURIComponent(url)}&x="1"`);
+
+    expect(rewritten).toBe(
+      '<a class="cta" href="https://t.example.com/click?u=https%3A%2F%2Fexample.com%2F%3Fa%3D1%26b%3D2&amp;x=&quot;1&quot;">Go</a>'
+      + ' <a href="mailto:hi@example.com">Mail</a> <a href=\'#top\'>Top</a>'
+    );
+  });
+});
+
+describe('appendPixel', () => {
+  test('Appends the image inside the body', () => {
+    expect(appendPixel('<html><body><p>Hi</p></body></html>', 'https://t.example.com/open?token=a&b'))
+      .toBe('<html><body><p>Hi</p><img src="https://t.example.com/open?token=a&amp;b" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px"></body></html>');
+    expect(appendPixel('<p>Hi</p>', 'https://t.example.com/open')).toMatch(/^<p>Hi<\/p><img /);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Named HTML entities decoded when generating plain text.
+ * @constant {Record<string, string>} ENTITIES
+ */
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+};
+
+/**
+ * Elements whose end starts a new line in the plain-text version.
+ * @constant {string} BLOCK_ELEMENTS
+ */
+const BLOCK_ELEMENTS = 'p|div|h[1-6]|ul|ol|tr|table|section|article|header|footer|blockquote|pre|hr';
+
+/**
+ * Decodes named and numeric HTML entities.
+ * @param {string} text - The text to decode.
+ * @returns {string}
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Generates a readable plain-text version of an HTML email.
+ * Links keep their target as `label (url)`, list items become `- item`, and block elements end lines.
+ * @param {string} html - The HTML body.
+ * @returns {string}
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<a\b[^>]*?href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const content = label.replace(/<[^>]+>/g, '').trim();
+      return !content || content === href || (href.startsWith('mailto:') && content === href.slice(7))
+        ? href
+        : `${content} (${href})`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(new RegExp(`</(${BLOCK_ELEMENTS})>|<hr\\b[^>]*>`, 'gi'), '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * A parsed CSS rule with a single simple selector.
+ * @private
+ */
+interface CssRule {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  declarations: string;
+  specificity: number;
+  order: number;
+}
+
+/**
+ * Parses a simple selector (`p`, `.button`, `#hero`, `a.button`). Returns null for anything more complex.
+ * @param {string} selector - The selector.
+ * @returns {Omit<CssRule, 'declarations' | 'order'> | null}
+ */
+function parseSelector(selector: string): Omit<CssRule, 'declarations' | 'order'> | null {
+  const match = selector.match(/^([a-z][a-z0-9]*)?((?:[.#][\w-]+)*)$/i);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const parts = match[2].match(/[.#][\w-]+/g) ?? [];
+  const ids = parts.filter(part => part[0] === '#').map(part => part.slice(1));
+  if (ids.length > 1) return null;
+  const classes = parts.filter(part => part[0] === '.').map(part => part.slice(1));
+
+  return {
+    tag: match[1]?.toLowerCase(),
+    id: ids[0],
+    classes,
+    specificity: ids.length * 100 + classes.length * 10 + (match[1] ? 1 : 0),
+  };
+}
+
+/**
+ * Reads an attribute from the attribute string of an opening tag.
+ * @param {string} attributes - The attribute string.
+ * @param {string} name - The attribute name.
+ * @returns {string | undefined}
+ */
+function readAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? match[1] ?? match[2] ?? match[3] : undefined;
+}
+
+/**
+ * Moves the rules of `<style>` blocks into `style` attributes, which many mail clients require.
+ * Only simple selectors (tag, class, id and their combinations) are inlined; `@media` queries and other
+ * rules stay in a `<style>` block so responsive layouts keep working. Existing inline styles take precedence.
+ * @param {string} html - The HTML document.
+ * @returns {string}
+ */
+export function inlineCss(html: string): string {
+  const rules: CssRule[] = [];
+  const leftovers: string[] = [];
+
+  const withoutStyles = html.replace(/<style\b[^>]*>([\s\S]*?)<\/style>/gi, (_match, css: string) => {
+    const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+    // At-rules (e.g. @media) contain nested braces, so they are cut out before the flat rules are read
+    const flat = source.replace(/@[^{]+\{(?:[^{}]*\{[^{}]*\})*[^{}]*\}/g, atRule => {
+      leftovers.push(atRule.trim());
+      return '';
+    });
+
+    const rulePattern = /([^{}]+)\{([^{}]*)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = rulePattern.exec(flat)) !== null) {
+      const [, selectorList, declarations] = match;
+      const body = declarations.trim().replace(/;$/, '');
+      if (!body) continue;
+      for (const selector of selectorList.split(',').map(part => part.trim())) {
+        const parsed = parseSelector(selector);
+        if (parsed) {
+          rules.push({ ...parsed, declarations: body, order: rules.length });
+        } else {
+          leftovers.push(`${selector} { ${body} }`);
+        }
+      }
+    }
+    return '';
+  });
+
+  rules.sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+
+  const inlined = withoutStyles.replace(/<([a-z][a-z0-9]*)(\s[^>]*?)?(\/?)>/gi, (match, tag: string, attributes = '', selfClosing: string) => {
+    const id = readAttribute(attributes, 'id');
+    const classes = (readAttribute(attributes, 'class') ?? '').split(/\s+/).filter(Boolean);
+    const matching = rules.filter(rule =>
+      (!rule.tag || rule.tag === tag.toLowerCase())
+      && (!rule.id || rule.id === id)
+      && rule.classes.every(name => classes.includes(name))
+    );
+    if (matching.length === 0) return match;
+
+    const existing = readAttribute(attributes, 'style');
+    const style = [...matching.map(rule => rule.declarations), ...(existing ? [existing.replace(/;\s*$/, '')] : [])].join('; ');
+    const rest = attributes.replace(/\sstyle\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/i, '');
+    return `<${tag}${rest} style="${style.replace(/"/g, '&quot;')}"${selfClosing ? ' /' : ''}>`;
+  });
+
+  if (leftovers.length === 0) return inlined;
+
+  const style = `<style>\n${leftovers.join('\n')}\n</style>`;
+  return /<\/head>/i.test(inlined) ? inlined.replace(/<\/head>/i, `${style}\n</head>`) : `${style}\n${inlined}`;
+}
+
+/**
+ * Escapes a value for use inside a quoted HTML attribute.
+ * @param {string} value - The raw value.
+ * @returns {string}
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/**
+ * Replaces the target of every `http(s)` link, e.g. with a click-tracking redirect.
+ * `mailto:` links, anchors and relative links are left alone.
+ * @param {string} html - The HTML body.
+ * @param {(url: string) => string} rewrite - Returns the new target for a decoded link target.
+ * @returns {string}
+ */
+export function rewriteLinks(html: string, rewrite: (url: string) => string): string {
+  return html.replace(
+    /(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"']*)\2/gi,
+    (_match, prefix: string, quote: string, href: string) => `${prefix}${quote}${escapeAttribute(rewrite(decodeEntities(href)))}${quote}`
+  );
+}
+
+/**
+ * Adds a 1x1 image at the end of the body, e.g. an open-tracking pixel.
+ * @param {string} html - The HTML body.
+ * @param {string} src - The image URL.
+ * @returns {string}
+ */
+export function appendPixel(html: string, src: string): string {
+  const pixel = `<img src="${escapeAttribute(src)}" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px">`;
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${pixel}</body>`) : `${html}${pixel}`;
+}
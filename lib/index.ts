@@ -1,26 +1,723 @@
-import nodemailer, { Transporter, SendMailOptions } from 'nodemailer';
 import { readFile } from 'fs/promises';
 import validator from 'validator';
 import { EventEmitter } from 'events';
-import mongoose, { Schema, Model, Document } from 'mongoose';
-import { Sequelize, DataTypes, Model as SequelizeModel, Optional, Op } from 'sequelize';
+import { Readable, Writable } from 'stream';
+import { randomBytes } from 'crypto';
 import Handlebars from 'handlebars';
+import Joi from 'joi';
+import {
+  CampaignDelivery,
+  CampaignState,
+  DEFAULT_LIST_ID,
+  DeliveryStatus,
+  DuplicateEmailError,
+  InviteStatus,
+  MessageFilter,
+  MessageLogEntry,
+  SendJob,
+  SegmentFilter,
+  SegmentPage,
+  SegmentQuery,
+  SendJobStatus,
+  SequenceEnrollment,
+  SubscriberFields,
+  SubscriberStatus,
+  SuppressionEntry,
+  SuppressionReason,
+  TrackingEvent,
+  WaitlistAttributes,
+  WaitlistStore,
+} from './stores/WaitlistStore';
+import { LocalStore } from './stores/LocalStore';
+import { MongoStore } from './stores/MongoStore';
+import { SqlConfig, SqlStore } from './stores/SqlStore';
+import { signToken, TokenPayload, verifyToken } from './tokens';
+import { RateLimiter, RateLimitOptions } from './RateLimiter';
+import { SignupGuard, SignupProtectionOptions, SignupRejection } from './SignupGuard';
+import { EmailNormalizationOptions, normalizeEmail } from './normalize';
+import { RenderedMessage, TemplateRegistry, TemplateRegistryOptions } from './TemplateRegistry';
+import { appendPixel, htmlToText, inlineCss, rewriteLinks } from './html';
+import { BounceReport, BounceType, parseBounceWebhook, parseDsn } from './bounces';
+import { readRows, toCsvLine, TransferFormat, writeChunk } from './transfer';
+import { Logger, noopLogger } from './logger';
+import { METRICS, MetricsHooks } from './metrics';
+import { MailTransport, OutgoingMessage, responseCodeOf, TransportError, TransportResult } from './transports/MailTransport';
+import { NodemailerTransport, SmtpTransportOptions } from './transports/NodemailerTransport';
+import { HttpTransport, HttpTransportOptions } from './transports/HttpTransport';
+
+export {
+  DEFAULT_LIST_ID,
+  DuplicateEmailError,
+  WaitlistStore,
+  WaitlistAttributes,
+  SubscriberStatus,
+  SubscriberFields,
+  InviteStatus,
+  SendJob,
+  SendJobStatus,
+  Campaign,
+  CampaignState,
+  CampaignDelivery,
+  DeliveryStatus,
+  SuppressionEntry,
+  SuppressionReason,
+  FieldValue,
+  FieldCondition,
+  SegmentFilter,
+  SegmentSortField,
+  SegmentQuery,
+  SegmentPage,
+  EnrollmentStatus,
+  SequenceEnrollment,
+  MessageLogEntry,
+  MessageFilter,
+  MessageCounts,
+  TrackingEvent,
+  BounceSeverity,
+  MessageFeedback,
+} from './stores/WaitlistStore';
+export { LocalStore } from './stores/LocalStore';
+export { MongoStore } from './stores/MongoStore';
+export { SqlStore, SqlConfig } from './stores/SqlStore';
+export { RateLimitOptions } from './RateLimiter';
+export {
+  MxResolver,
+  SignupProtectionOptions,
+  SignupRateLimit,
+  SignupRejection,
+  SignupRejectionReason,
+} from './SignupGuard';
+export { DISPOSABLE_DOMAINS } from './disposableDomains';
+export {
+  normalizeEmail,
+  EmailNormalizationOptions,
+  GMAIL_DOMAINS,
+  DOT_INSENSITIVE_DOMAINS,
+  PLUS_TAG_DOMAINS,
+  DOMAIN_ALIASES,
+} from './normalize';
+export { TemplateRegistry, TemplateRegistryOptions, RenderOptions, RenderedMessage } from './TemplateRegistry';
+export { htmlToText, inlineCss } from './html';
+export { parseDsn, parseBounceWebhook, BounceReport, BounceType } from './bounces';
+export { TransferFormat } from './transfer';
+export { ConsoleLogger, Logger, LogFields, LogLevel, noopLogger } from './logger';
+export {
+  METRICS,
+  MetricLabels,
+  MetricsHooks,
+  PROMETHEUS_CONTENT_TYPE,
+  PrometheusExporter,
+  PrometheusExporterOptions,
+} from './metrics';
+export { createHttpHandler, HttpApiOptions, HttpHandler } from './server';
+export { MailTransport, OutgoingMessage, TransportResult, TransportError } from './transports/MailTransport';
+export { NodemailerTransport, SmtpTransportOptions } from './transports/NodemailerTransport';
+export { HttpTransport, HttpTransportOptions } from './transports/HttpTransport';
+
+/**
+ * A transport entry in the mail configuration: a ready-made transport, or settings for a built-in one.
+ * @typedef {MailTransport | Object} TransportConfig
+ */
+export type TransportConfig =
+  | MailTransport
+  | ({ type: 'smtp' } & SmtpTransportOptions)
+  | ({ type: 'http' } & HttpTransportOptions)
+  | { type: 'json' | 'stream'; name?: string };
 
 /**
- * Configuration for the mail transporter.
+ * Configuration for the mail transporter. The SMTP settings are required unless `transports` is given;
+ * when both are present the SMTP server is the primary provider and `transports` are the fallbacks.
  * @typedef {Object} MailConfig
- * @property {string} host - The SMTP host (e.g., smtp.gmail.com).
- * @property {number} port - The SMTP port (e.g., 587).
- * @property {string} user - The SMTP username (e.g., your-email@gmail.com).
- * @property {string} pass - The SMTP password or app-specific password.
+ * @property {string} [host] - The SMTP host (e.g., smtp.gmail.com).
+ * @property {number} [port] - The SMTP port (e.g., 587).
+ * @property {string} [user] - The SMTP username (e.g., your-email@gmail.com).
+ * @property {string} [pass] - The SMTP password or app-specific password.
  * @property {boolean} [secure] - Whether to use a secure connection (defaults to true if port is 465).
+ * @property {boolean} [pool] - Whether to reuse pooled SMTP connections.
+ * @property {number} [maxConnections=5] - The maximum number of pooled connections.
+ * @property {number} [maxMessages=100] - The number of messages sent per pooled connection before it is recycled.
+ * @property {string} [from] - The sender address (defaults to `user`).
+ * @property {TransportConfig[]} [transports] - Additional providers, tried in order when the previous one fails.
  */
 interface MailConfig {
-  host: string;
-  port: number;
-  user: string;
-  pass: string;
+  host?: string;
+  port?: number;
+  user?: string;
+  pass?: string;
   secure?: boolean;
+  pool?: boolean;
+  maxConnections?: number;
+  maxMessages?: number;
+  from?: string;
+  transports?: TransportConfig[];
+}
+
+/**
+ * The outcome of a successful delivery.
+ * @typedef {Object} DeliveryResult
+ * @property {string} provider - The name of the transport that accepted the message.
+ * @property {string} [messageId] - The provider's message id.
+ */
+export interface DeliveryResult {
+  provider: string;
+  messageId?: string;
+}
+
+/**
+ * The health of the store or of one transport.
+ * @typedef {Object} ComponentHealth
+ * @property {boolean} healthy - Whether it answered the check.
+ * @property {string} [error] - Why the check failed.
+ */
+export interface ComponentHealth {
+  healthy: boolean;
+  error?: string;
+}
+
+/**
+ * The health of one mail transport.
+ * @typedef {Object} TransportHealth
+ * @property {string} name - The transport name.
+ * @property {boolean} healthy - Whether the provider could be verified.
+ * @property {string} [error] - Why the verification failed.
+ */
+export interface TransportHealth extends ComponentHealth {
+  name: string;
+}
+
+/**
+ * The result of `checkHealth`.
+ * @typedef {Object} HealthReport
+ * @property {boolean} healthy - True when the store is reachable and at least one transport is usable.
+ * @property {ComponentHealth} storage - The store's health.
+ * @property {TransportHealth[]} transports - The health of each transport, in failover order.
+ */
+export interface HealthReport {
+  healthy: boolean;
+  storage: ComponentHealth;
+  transports: TransportHealth[];
+}
+
+/**
+ * What a message was sent for, recorded in the message log.
+ * @private
+ */
+interface MessageContext {
+  template?: string;
+  campaignId?: string;
+}
+
+/**
+ * Delivery statistics of logged messages.
+ * @typedef {Object} MessageStats
+ * @property {number} sent - Logged messages.
+ * @property {number} opened - Messages opened at least once.
+ * @property {number} clicked - Messages with at least one followed link.
+ * @property {number} openRate - The share of messages that were opened, between 0 and 1.
+ * @property {number} clickRate - The share of messages with a followed link, between 0 and 1.
+ */
+export interface MessageStats {
+  sent: number;
+  opened: number;
+  clicked: number;
+  openRate: number;
+  clickRate: number;
+}
+
+/**
+ * A processed bounce or complaint, emitted with `onBounce` or `onComplaint`.
+ * @typedef {Object} BounceEvent
+ * @property {string} email - The canonical address.
+ * @property {BounceType} type - The outcome; a soft bounce at the threshold is reported as hard.
+ * @property {string | null} listId - The list of the logged message, or null if no message matched.
+ * @property {string | null} messageId - The id of the logged message, or null if no message matched.
+ * @property {string | null} status - The SMTP status.
+ * @property {string | null} diagnostic - The remote server's explanation.
+ * @property {number} [softBounces] - Soft bounces counted in the current window, for soft bounces.
+ */
+export interface BounceEvent {
+  email: string;
+  type: BounceType;
+  listId: string | null;
+  messageId: string | null;
+  status: string | null;
+  diagnostic: string | null;
+  softBounces?: number;
+}
+
+/**
+ * Options for a bulk send run.
+ * @typedef {Object} BulkSendOptions
+ * @property {number} [concurrency=1] - How many emails are sent in parallel.
+ * @property {SegmentFilter} [segment] - Limits the run to a segment of the waitlist.
+ * @property {string} [listId='default'] - The list to send to.
+ */
+export interface BulkSendOptions {
+  concurrency?: number;
+  segment?: SegmentFilter;
+  listId?: string;
+}
+
+/**
+ * Subject and body generators for a campaign.
+ * @typedef {Object} CampaignTemplate
+ * @property {(email: string) => string} subject - A function to generate the email subject.
+ * @property {(email: string) => string} body - A function to generate the email body.
+ */
+export interface CampaignTemplate {
+  subject: (email: string) => string;
+  body: (email: string) => string;
+}
+
+/**
+ * Options for a campaign run.
+ * @typedef {Object} CampaignOptions
+ * @property {number} [maxRetries=3] - The maximum number of retry attempts per recipient.
+ * @property {number} [retryDelay=1000] - The delay between retries in milliseconds.
+ * @property {number} [batchSize=100] - How many recipients are sent between checks of the stored campaign state.
+ * @property {number} [leaseTimeout=600000] - How long a claimed recipient stays reserved before another process may send to it.
+ */
+export interface CampaignOptions extends BulkSendOptions {
+  maxRetries?: number;
+  retryDelay?: number;
+  batchSize?: number;
+  leaseTimeout?: number;
+}
+
+/**
+ * Snapshot of a campaign, returned by `getCampaignStatus`.
+ * @typedef {Object} CampaignStatus
+ * @property {string} id - The campaign id.
+ * @property {CampaignState} status - The campaign state.
+ * @property {Record<DeliveryStatus, number>} counts - Recipients by delivery state.
+ * @property {number} total - The number of recipients.
+ */
+export interface CampaignStatus {
+  id: string;
+  status: CampaignState;
+  counts: Record<DeliveryStatus, number>;
+  total: number;
+}
+
+/**
+ * A step of a drip sequence.
+ * @typedef {Object} SequenceStep
+ * @property {number} delay - How long after the reference point the step is sent, in milliseconds.
+ * @property {'signup' | 'previous'} [after='previous'] - Whether the delay counts from the subscriber's signup or from the previous step (from the enrollment for the first step).
+ * @property {CampaignTemplate | string} template - Subject and body generators, or the name of a registry template rendered in the subscriber's locale.
+ */
+export interface SequenceStep {
+  delay: number;
+  after?: 'signup' | 'previous';
+  template: CampaignTemplate | string;
+}
+
+/**
+ * A drip sequence: ordered steps sent to each enrolled subscriber.
+ * @typedef {Object} SequenceOptions
+ * @property {SequenceStep[]} steps - The steps, in order.
+ * @property {string} [listId='default'] - The list whose subscribers are enrolled.
+ * @property {boolean} [autoEnroll=true] - Whether subscribers are enrolled when they join, or when they confirm with double opt-in.
+ */
+export interface SequenceOptions {
+  steps: SequenceStep[];
+  listId?: string;
+  autoEnroll?: boolean;
+}
+
+/**
+ * A suppression to add or import.
+ * @typedef {Object} SuppressionInput
+ * @property {string} email - The address to suppress.
+ * @property {SuppressionReason} [reason='manual'] - Why the address is suppressed.
+ * @property {Date | null} [expiresAt] - When the suppression lapses; omit to suppress forever.
+ * @property {string} [note] - Free-form details.
+ */
+export interface SuppressionInput {
+  email: string;
+  reason?: SuppressionReason;
+  expiresAt?: Date | null;
+  note?: string;
+}
+
+/**
+ * Result of a bulk suppression import.
+ * @typedef {Object} SuppressionImportReport
+ * @property {number} imported - The number of saved entries.
+ * @property {string[]} invalid - Inputs rejected because of an invalid email or reason.
+ */
+export interface SuppressionImportReport {
+  imported: number;
+  invalid: string[];
+}
+
+/**
+ * Options for exporting a waitlist.
+ * @typedef {Object} ExportOptions
+ * @property {string} [listId='default'] - The list to export.
+ * @property {number} [batchSize=500] - How many entries are read from the store at a time.
+ */
+export interface ExportOptions {
+  listId?: string;
+  batchSize?: number;
+}
+
+/**
+ * Options for importing a waitlist.
+ * @typedef {Object} ImportOptions
+ * @property {TransferFormat} [format='csv'] - The format of the source stream.
+ * @property {'skip' | 'update'} [onDuplicate='skip'] - Whether rows for emails already on the list are skipped or update the entry's status and fields.
+ * @property {string} [listId='default'] - The list to import into.
+ * @property {number} [batchSize=500] - How many new entries are saved per store call.
+ */
+export interface ImportOptions {
+  format?: TransferFormat;
+  onDuplicate?: 'skip' | 'update';
+  listId?: string;
+  batchSize?: number;
+}
+
+/**
+ * An import row that was skipped or rejected.
+ * @typedef {Object} ImportRowIssue
+ * @property {number} line - The 1-based line of the row in the source.
+ * @property {string} email - The row's email, empty if it could not be read.
+ * @property {string} message - Why the row was not imported.
+ */
+export interface ImportRowIssue {
+  line: number;
+  email: string;
+  message: string;
+}
+
+/**
+ * Result of a waitlist import.
+ * @typedef {Object} WaitlistImportReport
+ * @property {number} imported - The number of new entries saved.
+ * @property {number} updated - The number of existing entries updated (with `onDuplicate: 'update'`).
+ * @property {ImportRowIssue[]} duplicates - Rows skipped because the email is already on the list.
+ * @property {ImportRowIssue[]} invalid - Rows rejected because of malformed data, an invalid email, status or fields.
+ */
+export interface WaitlistImportReport {
+  imported: number;
+  updated: number;
+  duplicates: ImportRowIssue[];
+  invalid: ImportRowIssue[];
+}
+
+/**
+ * Options for migrating stored entries to canonical addresses.
+ * @typedef {Object} EmailMigrationOptions
+ * @property {string} [listId] - The list to migrate; every list when omitted.
+ * @property {boolean} [dryRun=false] - Reports what would change without changing anything.
+ */
+export interface EmailMigrationOptions {
+  listId?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Stored entries of a list whose addresses share a canonical form.
+ * @typedef {Object} EmailCollision
+ * @property {string} listId - The list the entries are on.
+ * @property {string} canonicalEmail - The shared canonical address.
+ * @property {string[]} emails - The stored addresses, oldest entry first.
+ */
+export interface EmailCollision {
+  listId: string;
+  canonicalEmail: string;
+  emails: string[];
+}
+
+/**
+ * Result of migrating stored entries to canonical addresses.
+ * @typedef {Object} EmailMigrationReport
+ * @property {number} migrated - The number of entries renamed to their canonical address (or that would be, in a dry run).
+ * @property {EmailCollision[]} collisions - Groups left untouched because several entries share a canonical address.
+ */
+export interface EmailMigrationReport {
+  migrated: number;
+  collisions: EmailCollision[];
+}
+
+/**
+ * Progress of a bulk send run, emitted with `onBulkProgress`.
+ * @typedef {Object} BulkProgress
+ * @property {number} total - The number of recipients.
+ * @property {number} sent - Recipients sent successfully so far.
+ * @property {number} failed - Recipients that failed after all retries.
+ * @property {number} remaining - Recipients not processed yet.
+ * @property {number | null} etaMs - Estimated time to completion in milliseconds, null until the first result.
+ */
+export interface BulkProgress {
+  total: number;
+  sent: number;
+  failed: number;
+  remaining: number;
+  etaMs: number | null;
+}
+
+/**
+ * Result of a validation check, emitted with `onValidationError` when it fails.
+ * @typedef {Object} ValidationResult
+ * @property {boolean} isValid - Whether the input is valid.
+ * @property {string} [message] - Why it is not.
+ */
+export interface ValidationResult {
+  isValid: boolean;
+  message?: string;
+}
+
+/**
+ * An error reported with `onError`.
+ * @typedef {Object} MailerErrorEvent
+ * @property {string} context - The method where the error occurred.
+ * @property {string} message - What failed.
+ * @property {string} error - The message of the underlying error.
+ * @property {string} code - The code of the underlying error, or `UNKNOWN`.
+ */
+export interface MailerErrorEvent {
+  context: string;
+  message: string;
+  error: string;
+  code: string;
+}
+
+/**
+ * Configuration for the double opt-in flow.
+ * @typedef {Object} DoubleOptInOptions
+ * @property {string} secret - The secret used to sign confirmation tokens.
+ * @property {string} confirmUrl - The URL the confirmation link points to; the token is appended as the `token` query parameter.
+ * @property {number} [tokenTtl=172800000] - How long a confirmation token stays valid, in milliseconds (defaults to 48 hours).
+ * @property {(email: string) => string} [subjectTemplate] - A function to generate the confirmation request subject.
+ * @property {(email: string, confirmLink: string) => string} [bodyTemplate] - A function to generate the confirmation request body.
+ */
+interface DoubleOptInOptions {
+  secret: string;
+  confirmUrl: string;
+  tokenTtl?: number;
+  subjectTemplate?: (email: string) => string;
+  bodyTemplate?: (email: string, confirmLink: string) => string;
+}
+
+/**
+ * Configuration for unsubscribe links.
+ * @typedef {Object} UnsubscribeOptions
+ * @property {string} secret - The secret used to sign unsubscribe tokens.
+ * @property {string} unsubscribeUrl - The URL the unsubscribe link points to; the token is appended as the `token` query parameter.
+ * @property {string} [mailto] - An address that also accepts unsubscribe requests, added to the `List-Unsubscribe` header.
+ */
+interface UnsubscribeOptions {
+  secret: string;
+  unsubscribeUrl: string;
+  mailto?: string;
+}
+
+/**
+ * Configuration for open and click tracking.
+ * @typedef {Object} TrackingOptions
+ * @property {string} secret - The secret used to sign tracking tokens.
+ * @property {string} baseUrl - Where the tracking routes are served; links point to `<baseUrl>/open` and `<baseUrl>/click`.
+ * @property {boolean} [opens=true] - Adds an open-tracking pixel to every HTML body.
+ * @property {boolean} [clicks=true] - Sends links through a click-tracking redirect.
+ */
+interface TrackingOptions {
+  secret: string;
+  baseUrl: string;
+  opens?: boolean;
+  clicks?: boolean;
+}
+
+/**
+ * Configuration for bounce handling.
+ * @typedef {Object} BounceOptions
+ * @property {number} [softBounceThreshold=3] - Soft bounces within a window after which the address is treated as a hard bounce.
+ * @property {number} [softBounceWindow=2592000000] - The soft-bounce counting window in milliseconds (30 days).
+ */
+interface BounceOptions {
+  softBounceThreshold?: number;
+  softBounceWindow?: number;
+}
+
+/**
+ * Configuration for referral codes and queue-jumping.
+ * @typedef {Object} ReferralOptions
+ * @property {number} [positionsPerReferral=1] - How many positions a referrer moves up per successful referral.
+ * @property {string} [referralUrl] - The signup URL shared by referrers; the code is appended as the `ref` query parameter.
+ */
+interface ReferralOptions {
+  positionsPerReferral?: number;
+  referralUrl?: string;
+}
+
+/**
+ * Configuration for invites.
+ * @typedef {Object} InviteOptions
+ * @property {string} [inviteUrl] - The page where invites are redeemed; the code is appended as the `code` query parameter.
+ */
+interface InviteOptions {
+  inviteUrl?: string;
+}
+
+/**
+ * Options for adding an email to the waitlist.
+ * @typedef {Object} AddEmailOptions
+ * @property {string} [referredBy] - The referral code of the subscriber who referred this email.
+ * @property {string} [locale] - The subscriber's preferred locale (e.g., `es`), used to pick template variants.
+ * @property {SubscriberFields} [fields] - Custom fields, validated against the `fields` schema.
+ * @property {string} [listId='default'] - The list to join.
+ * @property {string[]} [tags] - Free-form labels for segmentation.
+ * @property {string} [ip] - The client's IP address, used by the per-IP signup limit.
+ * @property {unknown} [honeypot] - The value of a hidden form field; any non-empty value rejects the signup as a bot.
+ */
+export interface AddEmailOptions {
+  referredBy?: string;
+  locale?: string;
+  fields?: SubscriberFields;
+  listId?: string;
+  tags?: string[];
+  ip?: string;
+  honeypot?: unknown;
+}
+
+/**
+ * Keys that mark the second `addEmail` argument as options rather than custom fields.
+ * @constant {string[]} ADD_EMAIL_OPTION_KEYS
+ */
+const ADD_EMAIL_OPTION_KEYS = ['referredBy', 'locale', 'fields', 'listId', 'tags', 'ip', 'honeypot'];
+
+/**
+ * Referral details of a waitlist entry.
+ * @typedef {Object} ReferralStats
+ * @property {string | null} referralCode - The entry's referral code; null for entries created before referral support until `assignReferralCodes` runs.
+ * @property {string} [referralLink] - The shareable link, when `referralUrl` is configured and the entry has a code.
+ * @property {number} referralCount - The number of successful referrals.
+ * @property {string | null} referredBy - The referral code the entry signed up with.
+ * @property {number} position - The entry's current position (1-based).
+ */
+export interface ReferralStats {
+  referralCode: string | null;
+  referralLink?: string;
+  referralCount: number;
+  referredBy: string | null;
+  position: number;
+}
+
+/**
+ * Options for an invite batch.
+ * @typedef {Object} InviteBatchOptions
+ * @property {string} [listId='default'] - The list to invite from.
+ * @property {string} [batchId] - A name for the batch, used to track its conversion; generated when omitted.
+ */
+export interface InviteBatchOptions {
+  listId?: string;
+  batchId?: string;
+}
+
+/**
+ * The outcome of an invite batch.
+ * @typedef {Object} InviteBatch
+ * @property {string} batchId - The batch id.
+ * @property {string} listId - The list the batch was invited from.
+ * @property {string[]} invited - Subscribers who were sent an invite.
+ * @property {string[]} failed - Subscribers whose invite could not be sent; they stay waiting.
+ * @property {string[]} skipped - Addresses that are not waiting on the list or may not receive mail.
+ */
+export interface InviteBatch {
+  batchId: string;
+  listId: string;
+  invited: string[];
+  failed: string[];
+  skipped: string[];
+}
+
+/**
+ * Subscriber counts through the invite funnel.
+ * @typedef {Object} InviteFunnel
+ * @property {number} waiting - Entries that have not been invited.
+ * @property {number} invited - Entries that were invited and have not joined yet.
+ * @property {number} joined - Entries that redeemed their invite.
+ * @property {number} conversionRate - The share of invited entries that joined, between 0 and 1.
+ */
+export interface InviteFunnel extends Record<InviteStatus, number> {
+  conversionRate: number;
+}
+
+/**
+ * Configuration for the persisted send queue and its worker.
+ * @typedef {Object} QueueOptions
+ * @property {number} [pollInterval=5000] - How often the worker checks for due jobs, in milliseconds.
+ * @property {number} [batchSize=10] - The maximum number of jobs claimed per poll.
+ * @property {number} [maxAttempts=5] - Attempts before a job is moved to the dead-letter state.
+ * @property {number} [baseDelay=1000] - The initial retry delay in milliseconds; doubled after every failed attempt.
+ * @property {number} [maxDelay=3600000] - The upper bound for the retry delay in milliseconds.
+ * @property {number} [leaseTimeout=60000] - How long a claimed job stays reserved before another worker may retry it.
+ * @property {boolean} [autoStart=true] - Whether the worker starts once the mailer is initialized.
+ */
+interface QueueOptions {
+  pollInterval?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  leaseTimeout?: number;
+  autoStart?: boolean;
+}
+
+/**
+ * Configuration for the drip sequence scheduler.
+ * @typedef {Object} SchedulerOptions
+ * @property {number} [pollInterval=60000] - How often the scheduler checks for due steps, in milliseconds.
+ * @property {number} [batchSize=50] - The maximum number of enrollments claimed per poll.
+ * @property {number} [maxAttempts=5] - Attempts at a step before the enrollment is cancelled.
+ * @property {number} [leaseTimeout=60000] - How long a claimed enrollment stays reserved before another scheduler may retry it.
+ * @property {boolean} [autoStart=true] - Whether the scheduler starts once the mailer is initialized (when sequences are configured).
+ */
+interface SchedulerOptions {
+  pollInterval?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  leaseTimeout?: number;
+  autoStart?: boolean;
+}
+
+/**
+ * Steps applied to every outgoing HTML body, in this order: `compile`, `inlineCss`, then plain-text generation.
+ * @typedef {Object} RenderingOptions
+ * @property {(html: string) => string | Promise<string>} [compile] - Compiles the body before sending, e.g. MJML markup into responsive HTML.
+ * @property {boolean} [inlineCss=false] - Moves `<style>` rules into `style` attributes.
+ * @property {boolean} [plainText=true] - Generates a plain-text part from the HTML when none is given.
+ */
+interface RenderingOptions {
+  compile?: (html: string) => string | Promise<string>;
+  inlineCss?: boolean;
+  plainText?: boolean;
+}
+
+/**
+ * Settings of a named list. Settings that are left out fall back to the mailer-wide ones.
+ * @typedef {Object} ListOptions
+ * @property {string} [companyName] - The company name used in this list's emails.
+ * @property {string} [from] - The sender address of this list's emails.
+ * @property {TemplateRegistryOptions} [templates] - The template directory used by `sendTemplate` for this list.
+ */
+export interface ListOptions {
+  companyName?: string;
+  from?: string;
+  templates?: TemplateRegistryOptions;
+}
+
+/**
+ * A configured list with its resolved settings and cached emails. The store is authoritative:
+ * the cache only holds the emails this process has loaded or seen, and `pending` the signups in progress.
+ * @private
+ */
+interface MailingList {
+  companyName: string;
+  fromEmail: string;
+  templates?: TemplateRegistry;
+  emails: Set<string>;
+  pending: Set<string>;
 }
 
 /**
@@ -28,69 +725,73 @@ interface MailConfig {
  * @typedef {Object} WaitlistMailerOptions
  * @property {string} [companyName] - The name of the company for email templates.
  * @property {string} [mongoUri] - The MongoDB connection URI (e.g., mongodb://localhost:27017/waitlistdb).
- * @property {Object} [sqlConfig] - Configuration for SQL databases.
- * @property {'postgres' | 'mysql'} sqlConfig.dialect - The SQL dialect (PostgreSQL or MySQL).
- * @property {string} sqlConfig.host - The SQL database host.
- * @property {number} sqlConfig.port - The SQL database port.
- * @property {string} sqlConfig.username - The SQL database username.
- * @property {string} sqlConfig.password - The SQL database password.
- * @property {string} sqlConfig.database - The SQL database name.
+ * @property {SqlConfig} [sqlConfig] - Configuration for SQL databases.
+ * @property {DoubleOptInOptions} [doubleOptIn] - Enables double opt-in: new signups stay pending until they confirm.
+ * @property {ReferralOptions} [referrals] - Configures referral links and queue-jumping.
+ * @property {InviteOptions} [invites] - Configures the links sent with invites.
+ * @property {QueueOptions} [queue] - Configures the persisted send queue worker.
+ * @property {RateLimitOptions} [rateLimit] - Caps the outgoing message rate across every send path.
+ * @property {UnsubscribeOptions} [unsubscribe] - Adds signed unsubscribe links and List-Unsubscribe headers.
+ * @property {TrackingOptions} [tracking] - Adds open pixels and click redirects to outgoing mail.
+ * @property {BounceOptions} [bounces] - Configures when soft bounces suppress an address.
+ * @property {Logger} [logger] - Receives structured log entries; nothing is logged by default. `ConsoleLogger` writes JSON lines to the console.
+ * @property {MetricsHooks} [metrics] - Receives counters and timings, e.g. a `PrometheusExporter`.
+ * @property {boolean | 'defer'} [verifyTransports=true] - Verifies the transports before initialization completes; `'defer'` verifies them in the background afterwards and `false` skips the check.
+ * @property {boolean} [preload=true] - Loads every stored email into memory at startup, so `getWaitlist` and `saveWaitlist` see whole lists. Turn it off for large lists or stores shared by several processes.
+ * @property {TemplateRegistryOptions} [templates] - Loads a template directory once for `sendTemplate`.
+ * @property {RenderingOptions} [rendering] - Configures the HTML compile, CSS inlining and plain-text steps.
+ * @property {Joi.ObjectSchema | Record<string, Joi.Schema>} [fields] - The schema of custom subscriber fields.
+ * @property {Record<string, ListOptions>} [lists] - Named lists managed next to the default list, keyed by list id.
+ * @property {SignupProtectionOptions} [protection] - Screens signups with rate limits, domain rules and MX checks.
+ * @property {EmailNormalizationOptions | false} [normalization] - How emails are canonicalized for duplicate checks; `false` compares them as entered.
+ * @property {Record<string, SequenceOptions>} [sequences] - Drip sequences, keyed by sequence id.
+ * @property {SchedulerOptions} [scheduler] - Configures the drip sequence scheduler.
+ * @property {() => Date} [clock] - Returns the current time for the dates the mailer records, token and suppression expiry, the send queue and drip scheduling; defaults to the system clock.
  */
 interface WaitlistMailerOptions {
   companyName?: string;
   mongoUri?: string;
-  sqlConfig?: {
-    dialect: 'postgres' | 'mysql' | 'sqlite';
-    host: string;
-    port: number;
-    username: string;
-    password: string;
-    database: string;
-  };
-}
-/**
- * Attributes for the Waitlist model.
- * @typedef {Object} WaitlistAttributes
- * @property {string} email - The email address.
- * @property {Date} [createdAt] - The creation date of the record.
- */
-interface WaitlistAttributes {
-  email: string;
-  createdAt?: Date;
+  sqlConfig?: SqlConfig;
+  doubleOptIn?: DoubleOptInOptions;
+  referrals?: ReferralOptions;
+  invites?: InviteOptions;
+  queue?: QueueOptions;
+  rateLimit?: RateLimitOptions;
+  unsubscribe?: UnsubscribeOptions;
+  tracking?: TrackingOptions;
+  bounces?: BounceOptions;
+  preload?: boolean;
+  verifyTransports?: boolean | 'defer';
+  logger?: Logger;
+  metrics?: MetricsHooks;
+  templates?: TemplateRegistryOptions;
+  rendering?: RenderingOptions;
+  fields?: Joi.ObjectSchema | Record<string, Joi.Schema>;
+  lists?: Record<string, ListOptions>;
+  protection?: SignupProtectionOptions;
+  normalization?: EmailNormalizationOptions | false;
+  sequences?: Record<string, SequenceOptions>;
+  scheduler?: SchedulerOptions;
+  clock?: () => Date;
 }
 
 /**
- * Creation attributes for the Waitlist model.
- * @typedef {Object} WaitlistCreationAttributes
- * @extends {Optional<WaitlistAttributes, 'email' | 'createdAt'>}
+ * Valid suppression reasons.
+ * @constant {SuppressionReason[]} SUPPRESSION_REASONS
  */
-interface WaitlistCreationAttributes extends Optional<WaitlistAttributes, 'email' | 'createdAt'> {}
+const SUPPRESSION_REASONS: SuppressionReason[] = ['bounce', 'complaint', 'unsubscribe', 'manual'];
 
 /**
- * Sequelize model for the Waitlist table.
- * @class WaitlistSequelize
- * @extends {SequelizeModel<WaitlistAttributes, WaitlistCreationAttributes>}
- * @implements {WaitlistAttributes}
+ * Formats supported by `exportWaitlist` and `importWaitlist`.
+ * @constant {TransferFormat[]} TRANSFER_FORMATS
  */
-class WaitlistSequelize extends SequelizeModel<WaitlistAttributes, WaitlistCreationAttributes> implements WaitlistAttributes {
-  declare email: string;
-  declare createdAt: Date;
-}
-
-/**
- * Mongoose schema for the Waitlist collection.
- * @constant {Schema} WaitlistSchema
- */
-const WaitlistSchema = new Schema<Document & WaitlistAttributes>({
-  email: { type: String, required: true, unique: true, index: true },
-  createdAt: { type: Date, default: Date.now },
-});
+const TRANSFER_FORMATS: TransferFormat[] = ['csv', 'ndjson'];
 
 /**
- * Mongoose model for the Waitlist collection.
- * @constant {Model<Document & WaitlistAttributes>} WaitlistModel
+ * Columns of an import or export that are not custom fields.
+ * @constant {string[]} TRANSFER_COLUMNS
  */
-const WaitlistModel: Model<Document & WaitlistAttributes> = mongoose.model<Document & WaitlistAttributes>('Waitlist', WaitlistSchema);
+const TRANSFER_COLUMNS = ['email', 'createdAt', 'status'];
 
 /**
  * Enum for storage types.
@@ -108,63 +809,159 @@ export enum StorageType {
  * @extends {EventEmitter}
  */
 export class WaitlistMailer extends EventEmitter {
-  private storage: StorageType;
-  private waitlist: Set<string>;
-  private transporter: Transporter;
-  private fromEmail: string;
-  private companyName: string;
-  private mongoUri?: string;
-  private sqlConnection?: Sequelize;
+  private storage?: StorageType;
+  private store: WaitlistStore;
+  private lists: Map<string, MailingList> = new Map();
+  private transports: MailTransport[];
+  private providerHealth: Map<string, boolean> = new Map();
+  private doubleOptIn?: DoubleOptInOptions;
+  private unsubscribeOptions?: UnsubscribeOptions;
+  private tracking?: TrackingOptions;
+  private bounceOptions: BounceOptions;
+  private preload: boolean;
+  private verifyTransports: boolean | 'defer';
+  private logger: Logger;
+  private metrics?: MetricsHooks;
+  private referrals: ReferralOptions;
+  private invites: InviteOptions;
+  private queueOptions?: QueueOptions;
+  private queueTimer?: NodeJS.Timeout;
+  private queueProcessing: boolean = false;
+  private rateLimiter?: RateLimiter;
+  private rendering: RenderingOptions;
+  private fieldSchema?: Joi.ObjectSchema;
+  private signupGuard: SignupGuard;
+  private normalization: EmailNormalizationOptions | false;
+  private campaignTemplates: Map<string, { template: CampaignTemplate; options: CampaignOptions }> = new Map();
+  private campaignStates: Map<string, CampaignState> = new Map();
+  private sequences: Map<string, SequenceOptions> = new Map();
+  private fileTemplates: Map<string, HandlebarsTemplateDelegate> = new Map();
+  private schedulerOptions: SchedulerOptions;
+  private schedulerTimer?: NodeJS.Timeout;
+  private schedulerProcessing: boolean = false;
+  private clock: () => Date;
   private initialized: boolean = false;
+  private initialization: Promise<void>;
+  private inFlight: Set<Promise<void>> = new Set();
+  private closing: boolean = false;
 
   /**
    * Creates an instance of WaitlistMailer.
-   * @param {StorageType} [storage=StorageType.Local] - The storage type (local, db, or sql).
+   * @param {StorageType | WaitlistStore} [storage=StorageType.Local] - The storage type (local, db, or sql) or a custom store.
    * @param {MailConfig} mailConfig - The mail configuration.
    * @param {WaitlistMailerOptions} [options] - Additional options for the mailer.
-   * @throws {Error} If mailConfig parameters are invalid.
+   * @throws {Error} If mailConfig parameters are invalid or SQL storage lacks sqlConfig.
    */
-  constructor(storage: StorageType = StorageType.Local, mailConfig: MailConfig, options?: WaitlistMailerOptions) {
+  constructor(storage: StorageType | WaitlistStore = StorageType.Local, mailConfig: MailConfig, options?: WaitlistMailerOptions) {
     super();
-    this.storage = storage;
-    this.waitlist = new Set();
-    this.companyName = options?.companyName || 'Your Company';
-    this.mongoUri = options?.mongoUri;
-    this.fromEmail = mailConfig.user;
+    const companyName = options?.companyName || 'Your Company';
+    const fromEmail = mailConfig.from ?? mailConfig.user ?? '';
+    this.doubleOptIn = options?.doubleOptIn;
+    this.unsubscribeOptions = options?.unsubscribe;
+    this.tracking = options?.tracking;
+    this.bounceOptions = options?.bounces ?? {};
+    this.preload = options?.preload ?? true;
+    this.verifyTransports = options?.verifyTransports ?? true;
+    this.logger = options?.logger ?? noopLogger;
+    this.metrics = options?.metrics;
+    this.referrals = options?.referrals ?? {};
+    this.invites = options?.invites ?? {};
+    this.queueOptions = options?.queue;
+    this.rendering = options?.rendering ?? {};
+    this.normalization = options?.normalization ?? {};
+    this.schedulerOptions = options?.scheduler ?? {};
+    this.clock = options?.clock ?? (() => new Date());
+    if (options?.fields) {
+      this.fieldSchema = Joi.isSchema(options.fields) ? options.fields as Joi.ObjectSchema : Joi.object(options.fields);
+    }
+    if (options?.rateLimit) {
+      this.rateLimiter = new RateLimiter(options.rateLimit);
+    }
+
+    // Named lists inherit the mailer-wide company, sender and templates
+    const templates = options?.templates ? new TemplateRegistry(options.templates) : undefined;
+    const lists: Record<string, ListOptions> = { [DEFAULT_LIST_ID]: {}, ...options?.lists };
+    Object.entries(lists).forEach(([listId, list]) => {
+      this.lists.set(listId, {
+        companyName: list.companyName || companyName,
+        fromEmail: list.from ?? fromEmail,
+        templates: list.templates ? new TemplateRegistry(list.templates) : templates,
+        emails: new Set(),
+        pending: new Set(),
+      });
+    });
 
     // Validate mailConfig
-    if (!mailConfig.host || !mailConfig.port || !mailConfig.user || !mailConfig.pass) {
+    const hasSmtp = Boolean(mailConfig.host || mailConfig.port || mailConfig.user || mailConfig.pass);
+    if ((hasSmtp || !mailConfig.transports?.length)
+      && (!mailConfig.host || !mailConfig.port || !mailConfig.user || !mailConfig.pass)) {
       throw new Error('Invalid mail configuration: host, port, user, and pass are required');
     }
 
-    // Initialize SQL connection if configured
-    if (options?.sqlConfig) {
-      this.sqlConnection = new Sequelize({
-        dialect: options.sqlConfig.dialect,
-        host: options.sqlConfig.host,
-        port: options.sqlConfig.port,
-        username: options.sqlConfig.username,
-        password: options.sqlConfig.password,
-        database: options.sqlConfig.database,
-        logging: false,
-      });
+    if (Array.from(this.lists.values()).some(list => !list.fromEmail)) {
+      throw new Error('Invalid mail configuration: from is required when no SMTP user is set');
     }
 
-    // Initialize Nodemailer transporter
-    this.transporter = nodemailer.createTransport({
-      host: mailConfig.host,
-      port: mailConfig.port,
-      secure: mailConfig.secure ?? mailConfig.port === 465,
-      auth: {
-        user: mailConfig.user,
-        pass: mailConfig.pass,
-      },
+    if (this.doubleOptIn && (!this.doubleOptIn.secret || !this.doubleOptIn.confirmUrl)) {
+      throw new Error('Invalid double opt-in configuration: secret and confirmUrl are required');
+    }
+
+    if (this.unsubscribeOptions && (!this.unsubscribeOptions.secret || !this.unsubscribeOptions.unsubscribeUrl)) {
+      throw new Error('Invalid unsubscribe configuration: secret and unsubscribeUrl are required');
+    }
+
+    Object.entries(options?.sequences ?? {}).forEach(([sequenceId, sequence]) => {
+      const list = this.lists.get(sequence.listId ?? DEFAULT_LIST_ID);
+      if (!list || !sequence.steps?.length) {
+        throw new Error(`Invalid sequence configuration: ${sequenceId} needs steps and a configured list`);
+      }
+      if (sequence.steps.some(step => typeof step.template === 'string') && !list.templates) {
+        throw new Error(`Invalid sequence configuration: ${sequenceId} uses registry templates but its list has none`);
+      }
+      this.sequences.set(sequenceId, sequence);
     });
 
-    // Initialize the mailer asynchronously
-    this.initialize()
-      .then(() => console.log('WaitlistMailer initialized'))
-      .catch(error => this.handleError('initialize', 'Initialization failed', error));
+    // Resolve the storage adapter
+    if (typeof storage === 'object') {
+      this.store = storage;
+    } else {
+      this.storage = storage;
+      this.store = WaitlistMailer.createStore(storage, options);
+    }
+
+    // Signup rate-limit counters live in memory unless they should be shared through the store
+    const protection = options?.protection ?? {};
+    this.signupGuard = new SignupGuard(protection, protection.rateLimitStorage === 'store' ? this.store : new LocalStore());
+
+    // Initialize the mail transports
+    this.transports = WaitlistMailer.createTransports(mailConfig);
+
+    // Initialize the mailer asynchronously; waitForInitialization settles with the outcome
+    this.initialization = this.initialize();
+    this.initialization.catch(error => this.handleError('initialize', 'Initialization failed', error));
+  }
+
+  /**
+   * Creates a mailer and waits for it to initialize. If initialization fails, whatever it opened is closed again.
+   * @param {StorageType | WaitlistStore} storage - The storage type (local, db, or sql) or a custom store.
+   * @param {MailConfig} mailConfig - The mail configuration.
+   * @param {WaitlistMailerOptions} [options] - Additional options for the mailer.
+   * @returns {Promise<WaitlistMailer>} - The initialized mailer.
+   * @throws {Error} If the configuration is invalid, the store cannot connect or no transport could be verified.
+   */
+  public static async create(
+    storage: StorageType | WaitlistStore,
+    mailConfig: MailConfig,
+    options?: WaitlistMailerOptions
+  ): Promise<WaitlistMailer> {
+    const mailer = new WaitlistMailer(storage, mailConfig, options);
+    try {
+      await mailer.waitForInitialization();
+    } catch (error) {
+      await mailer.close();
+      throw error;
+    }
+    return mailer;
   }
 
   // ==================== Private Methods ====================
@@ -175,129 +972,361 @@ export class WaitlistMailer extends EventEmitter {
    * @returns {Promise<void>}
    */
   private async initialize(): Promise<void> {
-    await this.verifyTransporter();
+    if (this.verifyTransports === true) await this.verifyTransporter();
+    for (const templates of new Set(Array.from(this.lists.values(), list => list.templates))) {
+      await templates?.load();
+    }
     await this.initializeStorage();
-    await this.loadInitialData();
+    if (this.preload) await this.loadInitialData();
     this.initialized = true;
     this.emit('onInitialized');
+    this.logger.info('WaitlistMailer initialized', {
+      lists: Array.from(this.lists.keys()),
+      transports: this.transports.map(transport => transport.name),
+    });
+
+    if (this.queueOptions && this.queueOptions.autoStart !== false) {
+      this.startQueueWorker();
+    }
+    if (this.sequences.size > 0 && this.schedulerOptions.autoStart !== false) {
+      this.startSequenceScheduler();
+    }
+    if (this.verifyTransports === 'defer') {
+      const done = this.beginWork();
+      this.verifyTransporter()
+        .catch(error => this.handleError('verifyTransporter', 'No transport could be verified', error))
+        .then(done);
+    }
+  }
+
+  /**
+   * Registers background work that `close` waits for.
+   * @private
+   * @returns {() => void} - Marks the work as finished.
+   */
+  private beginWork(): () => void {
+    let finish!: () => void;
+    const work = new Promise<void>(resolve => (finish = resolve));
+    this.inFlight.add(work);
+    return () => {
+      this.inFlight.delete(work);
+      finish();
+    };
   }
 
   /**
-   * Verifies the Nodemailer transporter configuration.
+   * Verifies every transport. Initialization proceeds as long as one of them is usable.
    * @private
    * @returns {Promise<void>}
-   * @throws {Error} If transporter verification fails.
+   * @throws {Error} If no transport could be verified.
    */
   private async verifyTransporter(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.transporter.verify(error => {
-        if (error) {
-          this.emit('onTransporterError', error);
-          reject(error);
-        } else {
-          this.emit('onTransporterReady');
-          resolve();
-        }
-      });
-    });
+    const errors = await Promise.all(this.transports.map(async transport => {
+      try {
+        await transport.verify();
+        this.setProviderHealth(transport.name, true);
+        return null;
+      } catch (error) {
+        this.setProviderHealth(transport.name, false, error);
+        return error;
+      }
+    }));
+
+    if (errors.every(error => error !== null)) {
+      this.emit('onTransporterError', errors[0]);
+      throw errors[0];
+    }
+    this.emit('onTransporterReady');
   }
 
   /**
-   * Initializes the database storage (MongoDB or SQL).
+   * Records a provider's health and emits `onProviderHealthy` / `onProviderUnhealthy` when it changes.
    * @private
-   * @returns {Promise<void>}
+   * @param {string} name - The transport name.
+   * @param {boolean} healthy - Whether the provider is usable.
+   * @param {unknown} [error] - The error that made it unhealthy.
    */
-  private async initializeStorage(): Promise<void> {
-    if (this.storage === StorageType.Db && this.mongoUri) {
-      await mongoose.connect(this.mongoUri);
-      this.emit('onDbConnected');
-    } else if (this.storage === StorageType.Sql && this.sqlConnection) {
-      await this.initializeSequelize();
-      this.emit('onSqlConnected');
+  private setProviderHealth(name: string, healthy: boolean, error?: unknown): void {
+    if (this.providerHealth.get(name) === healthy) return;
+    this.providerHealth.set(name, healthy);
+    if (healthy) {
+      this.emit('onProviderHealthy', name);
+    } else {
+      this.emit('onProviderUnhealthy', { provider: name, error: error instanceof Error ? error.message : String(error) });
     }
   }
 
   /**
-   * Initializes the Sequelize model and connection.
+   * Builds the ordered transport list from the mail configuration.
    * @private
-   * @returns {Promise<void>}
+   * @param {MailConfig} mailConfig - The mail configuration.
+   * @returns {MailTransport[]}
+   * @throws {Error} If two transports share a name.
    */
-  private async initializeSequelize(): Promise<void> {
-    if (!this.sqlConnection) return;
-
-    WaitlistSequelize.init({
-      email: {
-        type: DataTypes.STRING,
-        allowNull: false,
-        unique: true,
-      },
-      createdAt: {
-        type: DataTypes.DATE,
-        defaultValue: DataTypes.NOW,
-      },
-    }, {
-      sequelize: this.sqlConnection,
-      modelName: 'Waitlist',
-    });
+  private static createTransports(mailConfig: MailConfig): MailTransport[] {
+    const transports: MailTransport[] = [];
+    if (mailConfig.host && mailConfig.port && mailConfig.user && mailConfig.pass) {
+      transports.push(NodemailerTransport.smtp({
+        host: mailConfig.host,
+        port: mailConfig.port,
+        user: mailConfig.user,
+        pass: mailConfig.pass,
+        secure: mailConfig.secure,
+        pool: mailConfig.pool,
+        maxConnections: mailConfig.maxConnections,
+        maxMessages: mailConfig.maxMessages,
+      }));
+    }
+
+    for (const config of mailConfig.transports ?? []) {
+      if (!('type' in config)) {
+        transports.push(config);
+        continue;
+      }
+      switch (config.type) {
+        case 'smtp':
+          transports.push(NodemailerTransport.smtp(config));
+          break;
+        case 'http':
+          transports.push(new HttpTransport(config));
+          break;
+        case 'json':
+          transports.push(NodemailerTransport.json(config.name));
+          break;
+        case 'stream':
+          transports.push(NodemailerTransport.stream(config.name));
+          break;
+      }
+    }
+
+    const names = transports.map(transport => transport.name);
+    if (new Set(names).size !== names.length) {
+      throw new Error('Invalid mail configuration: transport names must be unique');
+    }
+    return transports;
+  }
 
-    await this.sqlConnection.authenticate();
-    await WaitlistSequelize.sync();
+  /**
+   * Creates the built-in store for a storage type.
+   * @private
+   * @param {StorageType} storage - The storage type.
+   * @param {WaitlistMailerOptions} [options] - The mailer options holding connection settings.
+   * @returns {WaitlistStore}
+   * @throws {Error} If SQL storage is requested without sqlConfig.
+   */
+  private static createStore(storage: StorageType, options?: WaitlistMailerOptions): WaitlistStore {
+    switch (storage) {
+      case StorageType.Db:
+        return new MongoStore(options?.mongoUri);
+      case StorageType.Sql:
+        if (!options?.sqlConfig) {
+          throw new Error('Invalid storage configuration: sqlConfig is required for SQL storage');
+        }
+        return new SqlStore(options.sqlConfig);
+      default:
+        return new LocalStore();
+    }
   }
 
   /**
-   * Loads initial data from the database into memory.
+   * Connects the storage adapter.
    * @private
    * @returns {Promise<void>}
    */
-  private async loadInitialData(): Promise<void> {
+  private async initializeStorage(): Promise<void> {
+    await this.store.connect();
+    this.emit('onStoreConnected');
     if (this.storage === StorageType.Db) {
-      await this.loadFromMongo();
+      this.emit('onDbConnected');
     } else if (this.storage === StorageType.Sql) {
-      await this.loadFromSql();
+      this.emit('onSqlConnected');
     }
   }
 
   /**
-   * Loads data from MongoDB.
+   * Loads initial data from the store into memory.
    * @private
    * @returns {Promise<void>}
    */
-  private async loadFromMongo(): Promise<void> {
+  private async loadInitialData(): Promise<void> {
     try {
-      const docs = await WaitlistModel.find();
-      docs.forEach(doc => this.waitlist.add(doc.email));
+      for (const [listId, list] of this.lists) {
+        const emails = await this.store.loadEmails(undefined, listId);
+        emails.forEach(email => list.emails.add(email));
+      }
     } catch (error) {
-      this.handleError('loadFromMongo', 'Failed to load from MongoDB', error);
+      this.handleError('loadInitialData', 'Failed to load from storage', error);
     }
   }
 
   /**
-   * Loads data from SQL.
+   * Validates an email address using validator.js.
    * @private
-   * @returns {Promise<void>}
+   * @param {string} email - The email to validate.
+   * @returns {ValidationResult} - The validation result.
+   */
+  private validateEmail(email: string): ValidationResult {
+    if (!validator.isEmail(email)) {
+      return { isValid: false, message: 'Invalid email format' };
+    }
+    return { isValid: true };
+  }
+
+  /**
+   * Resolves an email passed to a public method to the address it is stored under: its canonical form,
+   * or the address as given if a list entry stored before normalization uses it.
+   * @private
+   * @param {string} email - The email as given.
+   * @param {string} listId - The list to look in.
+   * @returns {string}
    */
-  private async loadFromSql(): Promise<void> {
-    if (!this.sqlConnection) return;
+  private resolveEmail(email: string, listId: string): string {
+    const canonical = this.normalizeEmail(email);
+    const emails = this.lists.get(listId)?.emails;
+    return emails && !emails.has(canonical) && emails.has(email) ? email : canonical;
+  }
 
+  /**
+   * Checks whether a list has an email. The store is asked every time, since another process may have
+   * added or removed the email; the answer refreshes the in-memory cache.
+   * @private
+   * @param {string} email - The stored email.
+   * @param {string} listId - The list to look in.
+   * @returns {Promise<boolean>} - False if the email is not on the list or the store cannot be read.
+   */
+  private async hasEmail(email: string, listId: string): Promise<boolean> {
+    const list = this.lists.get(listId);
+    if (!list) return false;
     try {
-      const records = await WaitlistSequelize.findAll();
-      records.forEach(record => this.waitlist.add(record.email));
+      const found = (await this.store.findOne(email, listId)) !== null;
+      if (found) list.emails.add(email);
+      else list.emails.delete(email);
+      return found;
     } catch (error) {
-      this.handleError('loadFromSql', 'Failed to load from SQL', error);
+      this.handleError('hasEmail', 'Failed to look up email', error);
+      return false;
     }
   }
 
   /**
-   * Validates an email address using validator.js.
+   * Validates custom fields against the declared schema.
    * @private
-   * @param {string} email - The email to validate.
-   * @returns {{ isValid: boolean; message?: string }} - The validation result.
+   * @param {SubscriberFields} fields - The fields to validate.
+   * @returns {{ isValid: boolean, message?: string, value?: SubscriberFields }} - The result, with the converted fields when valid.
    */
-  private validateEmail(email: string): { isValid: boolean; message?: string } {
-    if (!validator.isEmail(email)) {
-      return { isValid: false, message: 'Invalid email format' };
+  private validateFields(fields: SubscriberFields): { isValid: boolean; message?: string; value?: SubscriberFields } {
+    if (!this.fieldSchema) {
+      return Object.keys(fields).length === 0
+        ? { isValid: true, value: {} }
+        : { isValid: false, message: 'Custom fields require a fields schema' };
     }
-    return { isValid: true };
+
+    const { error, value } = this.fieldSchema.validate(fields, { abortEarly: false });
+    if (error) {
+      return { isValid: false, message: error.details.map(detail => detail.message).join('; ') };
+    }
+    return { isValid: true, value };
+  }
+
+  /**
+   * Validates tags and removes duplicates. Tags are trimmed and may not contain commas.
+   * @private
+   * @param {string[]} tags - The tags to validate.
+   * @returns {{ isValid: boolean, message?: string, value?: string[] }} - The result, with the cleaned tags when valid.
+   */
+  private validateTags(tags: string[]): { isValid: boolean; message?: string; value?: string[] } {
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string' || !tag.trim() || tag.includes(','))) {
+      return { isValid: false, message: 'Tags must be non-empty strings without commas' };
+    }
+    return { isValid: true, value: Array.from(new Set(tags.map(tag => tag.trim()))) };
+  }
+
+  /**
+   * Gets the custom field names declared in the fields schema, used as CSV columns.
+   * @private
+   * @returns {string[]}
+   */
+  private getFieldNames(): string[] {
+    return this.fieldSchema ? Object.keys(this.fieldSchema.describe().keys ?? {}) : [];
+  }
+
+  /**
+   * Validates an import row and converts it into entry attributes.
+   * CSV cells of custom fields are strings (converted by the schema) or JSON for objects and arrays; empty cells are left out.
+   * NDJSON rows carry custom fields in a nested `fields` object.
+   * @private
+   * @param {Record<string, unknown>} row - The parsed row.
+   * @param {TransferFormat} format - The format the row was read from.
+   * @returns {{ email: string, originalEmail: string, message?: string, changes?: Partial<WaitlistAttributes> }} - The canonical
+   * and original email with the attributes, or why the row is invalid.
+   */
+  private parseImportRow(
+    row: Record<string, unknown>,
+    format: TransferFormat
+  ): { email: string; originalEmail: string; message?: string; changes?: Partial<WaitlistAttributes> } {
+    const originalEmail = typeof row.email === 'string' ? row.email.trim() : '';
+    const email = this.normalizeEmail(originalEmail);
+    const validation = this.validateEmail(email);
+    if (!validation.isValid) {
+      return { email: originalEmail, originalEmail, message: validation.message };
+    }
+
+    const changes: Partial<WaitlistAttributes> = {};
+    if (row.status !== undefined && row.status !== '') {
+      if (row.status !== 'pending' && row.status !== 'confirmed') {
+        return { email, originalEmail, message: 'Invalid status' };
+      }
+      changes.status = row.status;
+    }
+    if (row.createdAt !== undefined && row.createdAt !== '') {
+      const createdAt = typeof row.createdAt === 'string' ? new Date(row.createdAt) : null;
+      if (!createdAt || Number.isNaN(createdAt.getTime())) {
+        return { email, originalEmail, message: 'Invalid createdAt' };
+      }
+      changes.createdAt = createdAt;
+    }
+
+    let fields: SubscriberFields = {};
+    if (format === 'csv') {
+      for (const [name, cell] of Object.entries(row)) {
+        if (TRANSFER_COLUMNS.includes(name) || cell === '') continue;
+        const text = String(cell);
+        try {
+          fields[name] = /^[[{]/.test(text) ? JSON.parse(text) : text;
+        } catch {
+          fields[name] = text;
+        }
+      }
+    } else if (row.fields !== undefined && row.fields !== null) {
+      if (typeof row.fields !== 'object' || Array.isArray(row.fields)) {
+        return { email, originalEmail, message: 'Invalid fields' };
+      }
+      fields = row.fields as SubscriberFields;
+    }
+
+    const fieldValidation = this.validateFields(fields);
+    if (!fieldValidation.isValid) {
+      return { email, originalEmail, message: fieldValidation.message ?? 'Invalid fields' };
+    }
+    if (fieldValidation.value && Object.keys(fieldValidation.value).length > 0) {
+      changes.fields = fieldValidation.value;
+    }
+    return { email, originalEmail, changes };
+  }
+
+  /**
+   * Looks up a configured list.
+   * @private
+   * @param {string} listId - The list id.
+   * @returns {MailingList}
+   * @throws {Error} If the list is not configured.
+   */
+  private getList(listId: string): MailingList {
+    const list = this.lists.get(listId);
+    if (!list) {
+      throw new Error(`Unknown list: ${listId}`);
+    }
+    return list;
   }
 
   /**
@@ -311,401 +1340,2824 @@ export class WaitlistMailer extends EventEmitter {
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorCode = error instanceof Error ? (error as any).code || 'UNKNOWN' : 'UNKNOWN';
 
-    console.error(`[${context}] ${message}:`, errorMessage);
-    this.emit('onError', {
-      context,
-      message,
-      error: errorMessage,
-      code: errorCode,
-    });
+    this.logger.error(message, { context, error: errorMessage, code: errorCode });
+    const event: MailerErrorEvent = { context, message, error: errorMessage, code: errorCode };
+    this.emit('onError', event);
   }
 
   /**
-   * Persists an email to the database.
+   * Persists a new entry to the store with a fresh referral code.
    * @private
-   * @param {string} email - The email to persist.
+   * @param {WaitlistAttributes} record - The entry's list, state and signup details.
    * @returns {Promise<void>}
    */
-  private async persistEmail(email: string): Promise<void> {
-    const record = { email, createdAt: new Date() };
+  private async persistEmail(record: WaitlistAttributes): Promise<void> {
     try {
-      if (this.storage === StorageType.Db) {
-        await new WaitlistModel(record).save();
-      } else if (this.storage === StorageType.Sql) {
-        await WaitlistSequelize.create(record);
-      }
+      const referralCode = await this.generateReferralCode();
+      await this.store.insert({ ...record, createdAt: this.clock(), referralCode, referralCount: 0 });
     } catch (error) {
-      this.handleError('persistEmail', 'Failed to persist email', error);
+      // A duplicate means another process signed the email up first, which the caller reports
+      if (!(error instanceof DuplicateEmailError)) this.handleError('persistEmail', 'Failed to persist email', error);
       throw error; // Propagate error to caller
     }
   }
 
   /**
-   * Removes an email from the database.
+   * Removes an email from the store.
    * @private
    * @param {string} email - The email to remove.
+   * @param {string} listId - The list to remove it from.
    * @returns {Promise<void>}
    */
-  private async removePersistedEmail(email: string): Promise<void> {
+  private async removePersistedEmail(email: string, listId: string): Promise<void> {
     try {
-      if (this.storage === StorageType.Db) {
-        await WaitlistModel.deleteOne({ email });
-      } else if (this.storage === StorageType.Sql) {
-        await WaitlistSequelize.destroy({ where: { email } });
-      }
+      await this.store.remove(email, listId);
     } catch (error) {
       this.handleError('removePersistedEmail', 'Failed to remove email', error);
       throw error; // Propagate error to caller
     }
   }
 
-  // ==================== Public API ====================
-
-  /**
-   * Checks if the mailer is initialized.
-   * @returns {boolean} - True if initialized, false otherwise.
-   */
-  public isInitialized(): boolean {
-    return this.initialized;
-  }
-
-  /**
-   * Waits for the mailer to initialize.
-   * @returns {Promise<void>}
-   */
-  public async waitForInitialization(): Promise<void> {
-    if (this.initialized) return;
-    return new Promise(resolve => this.once('onInitialized', resolve));
-  }
-
   /**
-   * Adds an email to the waitlist.
-   * @param {string} email - The email to add.
-   * @returns {Promise<boolean>} - True if the email was added successfully, false otherwise.
-   * @throws {Error} If persistence fails.
+   * Checks whether an email may receive waitlist mail, reporting why not.
+   * Suppressed and unsubscribed addresses never qualify; with double opt-in enabled only confirmed entries do.
+   * @private
+   * @param {string} email - The email to check.
+   * @param {string} context - The calling method, used when reporting errors.
+   * @param {string} listId - The list the email is on.
+   * @returns {Promise<boolean>}
    */
-  public async addEmail(email: string): Promise<boolean> {
-    if (!this.initialized) {
-      this.handleError('addEmail', 'WaitlistMailer not initialized', new Error('Not initialized'));
+  private async canSendTo(email: string, context: string, listId: string): Promise<boolean> {
+    const suppression = await this.findActiveSuppression(email);
+    if (suppression) {
+      this.emit('onEmailSuppressed', { email, reason: suppression.reason });
       return false;
     }
 
-    const validation = this.validateEmail(email);
-    if (!validation.isValid) {
-      this.emit('onValidationError', validation);
+    const record = await this.store.findOne(email, listId);
+    if (record?.unsubscribedAt) {
+      this.emit('onEmailSuppressed', { email, reason: 'unsubscribe' });
       return false;
     }
-
-    if (this.waitlist.has(email)) {
-      this.emit('onDuplicateEmail', email);
+    if (this.doubleOptIn && record?.status !== 'confirmed') {
+      this.handleError(context, 'Email has not confirmed its subscription', new Error('Email not confirmed'));
       return false;
     }
-
-    this.waitlist.add(email);
-    await this.persistEmail(email);
-    this.emit('onEmailAdded', email);
     return true;
   }
 
   /**
-   * Removes an email from the waitlist.
-   * @param {string} email - The email to remove.
-   * @returns {Promise<boolean>} - True if the email was removed successfully, false otherwise.
-   * @throws {Error} If removal fails.
+   * Lists the emails a bulk send may go to: subscribed entries, confirmed ones only with double opt-in.
+   * Suppressed addresses are left out and reported with `onEmailSuppressed`.
+   * @private
+   * @param {SegmentFilter} [segment] - Limits the recipients to a segment.
+   * @param {string} [listId='default'] - The list to send to.
+   * @returns {Promise<string[]>}
+   * @throws {Error} If the list is not configured.
    */
-  public async removeEmail(email: string): Promise<boolean> {
-    if (!this.initialized || !this.waitlist.has(email)) {
-      return false;
-    }
+  private async getEligibleRecipients(segment?: SegmentFilter, listId: string = DEFAULT_LIST_ID): Promise<string[]> {
+    this.getList(listId);
+    const now = this.clock();
+    const suppressions = new Map(
+      (await this.store.listSuppressions())
+        .filter(entry => !entry.expiresAt || entry.expiresAt > now)
+        .map(entry => [entry.email, entry])
+    );
+    const records = segment
+      ? (await this.store.findSegment({ filter: { ...segment, listId } })).items
+      : await this.store.findAll(listId);
 
-    this.waitlist.delete(email);
-    await this.removePersistedEmail(email);
-    this.emit('onEmailRemoved', email);
-    return true;
+    return records
+      .filter(record => !record.unsubscribedAt && (!this.doubleOptIn || record.status === 'confirmed'))
+      .filter(record => {
+        const suppression = suppressions.get(this.suppressionKey(record.email));
+        if (suppression) {
+          this.emit('onEmailSuppressed', { email: record.email, reason: suppression.reason });
+        }
+        return !suppression;
+      })
+      .map(record => record.email);
   }
 
   /**
-   * Gets the current waitlist.
-   * @returns {string[]} - An array of emails in the waitlist.
+   * Finds the suppression entry of an address if it has not expired.
+   * @private
+   * @param {string} email - The address to look up.
+   * @returns {Promise<SuppressionEntry | null>}
    */
-  public getWaitlist(): string[] {
-    return Array.from(this.waitlist);
+  private async findActiveSuppression(email: string): Promise<SuppressionEntry | null> {
+    const entry = await this.store.findSuppression(this.suppressionKey(email));
+    if (!entry || (entry.expiresAt && entry.expiresAt <= this.clock())) return null;
+    return entry;
   }
 
   /**
-   * Clears the waitlist.
-   * @returns {Promise<void>}
+   * Gets the key of an address on the suppression list: its canonical form, always lower-cased.
+   * @private
+   * @param {string} email - The address.
+   * @returns {string}
    */
-  public async clearWaitlist(): Promise<void> {
-    this.waitlist.clear();
+  private suppressionKey(email: string): string {
+    return this.normalizeEmail(email).toLowerCase();
+  }
 
-    if (this.storage === StorageType.Db) {
-      await WaitlistModel.deleteMany({});
-    } else if (this.storage === StorageType.Sql) {
-      await WaitlistSequelize.destroy({ where: {} });
+  /**
+   * Validates a suppression input and converts it to a store entry.
+   * @private
+   * @param {SuppressionInput} input - The input to convert.
+   * @returns {SuppressionEntry | null} - The entry, or null if the email or reason is invalid.
+   */
+  private toSuppressionEntry(input: SuppressionInput): SuppressionEntry | null {
+    const reason = input.reason ?? 'manual';
+    const email = this.suppressionKey(input.email);
+    if (!this.validateEmail(email).isValid || !SUPPRESSION_REASONS.includes(reason)) {
+      return null;
     }
-
-    this.emit('onWaitlistCleared');
+    return {
+      email,
+      reason,
+      createdAt: this.clock(),
+      expiresAt: input.expiresAt ?? null,
+      note: input.note ?? null,
+    };
   }
 
   /**
-   * Sends a confirmation email.
-   * @param {string} email - The email to send to.
-   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
-   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
-   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   * Builds the data shared by every template: the subscriber's custom fields (also available as `fields`),
+   * email, company, position, referral and unsubscribe details.
+   * @private
+   * @param {string} email - The recipient.
+   * @param {Record<string, string>} replacements - Caller-supplied data, which takes precedence.
+   * @param {string} listId - The list the recipient is on.
+   * @param {Map<string, Map<string, number>>} [rankings] - Positions already computed in this run, by list; filled on first use.
+   * @returns {Promise<Record<string, unknown>>}
+   * @throws {Error} If the list is not configured.
    */
-  public async sendConfirmation(
+  private async buildTemplateContext(
     email: string,
-    subjectTemplate: (email: string) => string,
-    bodyTemplate: (email: string) => string
-  ): Promise<boolean> {
-    if (!this.waitlist.has(email)) {
-      this.handleError('sendConfirmation', 'Email not in waitlist', new Error('Email not found'));
-      return false;
+    replacements: Record<string, string>,
+    listId: string,
+    rankings: Map<string, Map<string, number>> = new Map()
+  ): Promise<Record<string, unknown>> {
+    const list = this.getList(listId);
+    const record = await this.store.findOne(email, listId);
+    let positions = rankings.get(listId);
+    if (!positions) {
+      positions = await this.computePositions(listId);
+      rankings.set(listId, positions);
+    }
+    const fields = record?.fields ?? {};
+    const referralCode = record?.referralCode ?? undefined;
+    return {
+      ...fields,
+      fields,
+      email,
+      companyName: list.companyName,
+      position: positions.get(email),
+      referralCode,
+      referralLink: referralCode ? this.buildReferralLink(referralCode) : undefined,
+      unsubscribeUrl: this.buildUnsubscribeUrl(email, listId),
+      ...replacements,
+    };
+  }
+
+  /**
+   * Runs an HTML body through the rendering pipeline: compile step, CSS inlining and plain-text generation.
+   * @private
+   * @param {string} html - The HTML body.
+   * @param {string} [text] - An explicit plain-text body, which skips generation.
+   * @returns {Promise<{ html: string, text?: string }>}
+   */
+  private async renderBody(html: string, text?: string): Promise<{ html: string; text?: string }> {
+    let output = this.rendering.compile ? await this.rendering.compile(html) : html;
+    if (this.rendering.inlineCss) {
+      output = inlineCss(output);
     }
+    if (text === undefined && this.rendering.plainText !== false) {
+      text = htmlToText(output);
+    }
+    return { html: output, text };
+  }
 
+  /**
+   * Builds a single message and sends it through the first transport that accepts it.
+   * Transient failures fail over to the next transport; permanent rejections are thrown straight away.
+   * Sends in progress hold up `close`; once it has been called, new sends are refused.
+   * @private
+   * @param {string} email - The recipient.
+   * @param {string} subject - The subject line.
+   * @param {string} html - The HTML body; `[Company Name]` and `[Unsubscribe URL]` placeholders are replaced.
+   * @param {string} [text] - The plain-text body; generated from the HTML when omitted.
+   * @param {string} [listId='default'] - The list whose company name and sender are used.
+   * @param {MessageContext} [context={}] - The template or campaign, recorded in the message log.
+   * @returns {Promise<DeliveryResult>}
+   * @throws {Error} The permanent error, or the last provider's error if every provider failed.
+   */
+  private async deliverMail(
+    email: string,
+    subject: string,
+    html: string,
+    text?: string,
+    listId: string = DEFAULT_LIST_ID,
+    context: MessageContext = {}
+  ): Promise<DeliveryResult> {
+    if (this.closing) throw new Error('WaitlistMailer is closing');
+    const done = this.beginWork();
     try {
-      const subject = subjectTemplate(email);
-      const html = bodyTemplate(email).replace(/\[Company Name\]/g, this.companyName);
+      const list = this.getList(listId);
+      const unsubscribeUrl = this.buildUnsubscribeUrl(email, listId);
+      const fill = (content: string) => content
+        .replace(/\[Company Name\]/g, list.companyName)
+        .replace(/\[Unsubscribe URL\]/g, unsubscribeUrl ?? '');
+      const body = await this.renderBody(fill(html), text === undefined ? undefined : fill(text));
+      const id = randomBytes(12).toString('hex');
 
-      const mailOptions: SendMailOptions = {
-        from: `"${this.companyName}" <${this.fromEmail}>`,
+      const mailOptions: OutgoingMessage = {
+        from: `"${list.companyName}" <${list.fromEmail}>`,
         to: email,
         subject,
-        html,
+        html: this.tracking ? this.addTracking(body.html, id, email, listId, unsubscribeUrl) : body.html,
+        ...(body.text !== undefined ? { text: body.text } : {}),
       };
 
-      await this.transporter.sendMail(mailOptions);
-      this.emit('onEmailSent', email);
-      return true;
-    } catch (error) {
-      this.handleError('sendConfirmation', 'Failed to send confirmation', error);
-      return false;
+      if (unsubscribeUrl) {
+        // RFC 8058 one-click unsubscribe
+        const mailto = this.unsubscribeOptions?.mailto;
+        mailOptions.headers = {
+          'List-Unsubscribe': mailto ? `<${unsubscribeUrl}>, <mailto:${mailto}?subject=unsubscribe>` : `<${unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        };
+      }
+
+      await this.rateLimiter?.acquire();
+
+      let lastError: unknown;
+      for (const [index, transport] of this.transports.entries()) {
+        try {
+          const { messageId, response } = await this.sendThrough(transport, mailOptions);
+          this.setProviderHealth(transport.name, true);
+          this.emit('onEmailDelivered', { email, provider: transport.name, messageId });
+          await this.logMessage({
+            id,
+            email,
+            listId,
+            subject,
+            template: context.template ?? null,
+            campaignId: context.campaignId ?? null,
+            provider: transport.name,
+            providerMessageId: messageId ?? null,
+            response: response ?? null,
+            sentAt: this.clock(),
+            opens: 0,
+            clicks: 0,
+          });
+          return { provider: transport.name, messageId };
+        } catch (error) {
+          if (error instanceof TransportError && error.permanent) throw error;
+          lastError = error;
+          this.setProviderHealth(transport.name, false, error);
+          const next = this.transports[index + 1];
+          if (next) {
+            this.logger.warn('Provider failed, failing over', { provider: transport.name, next: next.name });
+            this.emit('onProviderFailover', { email, from: transport.name, to: next.name });
+          }
+        }
+      }
+      throw lastError;
+    } finally {
+      done();
     }
   }
 
   /**
-   * Sends a confirmation email using a template file.
-   * @param {string} email - The email to send to.
-   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
-   * @param {string} templatePath - The path to the template file.
-   * @param {Record<string, string>} [replacements={}] - Replacements for the template.
-   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   * Sends a message through one transport, recording the attempt's outcome and duration.
+   * @private
+   * @param {MailTransport} transport - The transport.
+   * @param {OutgoingMessage} message - The message.
+   * @returns {Promise<TransportResult>}
    */
-  public async sendConfirmationFromFile(
-    email: string,
-    subjectTemplate: (email: string) => string,
-    templatePath: string,
-    replacements: Record<string, string> = {}
-  ): Promise<boolean> {
+  private async sendThrough(transport: MailTransport, message: OutgoingMessage): Promise<TransportResult> {
+    const startedAt = Date.now();
+    let status = 'failed';
     try {
-      const templateContent = await readFile(templatePath, 'utf8');
-      if (!templateContent) {
-        throw new Error('Template file is empty');
-      }
-      const template = Handlebars.compile(templateContent);
-      const html = template({
-        email,
-        companyName: this.companyName,
-        ...replacements,
-      });
+      const result = await transport.send(message);
+      status = 'sent';
+      return result;
+    } finally {
+      this.metrics?.increment(METRICS.sends, { provider: transport.name, status });
+      this.metrics?.observe(METRICS.sendDuration, (Date.now() - startedAt) / 1000, { provider: transport.name });
+    }
+  }
 
-      return this.sendConfirmation(email, subjectTemplate, () => html);
+  /**
+   * Records a sent message. The message was delivered, so a failure is reported without failing the send.
+   * @private
+   * @param {MessageLogEntry} entry - The message.
+   * @returns {Promise<void>}
+   */
+  private async logMessage(entry: MessageLogEntry): Promise<void> {
+    try {
+      await this.store.logMessage(entry);
     } catch (error) {
-      this.handleError('sendConfirmationFromFile', 'Template processing failed', error);
-      return false;
+      this.handleError('logMessage', 'Failed to log message', error);
     }
   }
 
   /**
-   * Sends a confirmation email with retry logic.
-   * @param {string} email - The email to send to.
-   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
-   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
-   * @param {number} [maxRetries=3] - The maximum number of retry attempts.
-   * @param {number} [retryDelay=1000] - The delay between retries in milliseconds.
-   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   * Applies bounce and complaint reports in order. Reports that cannot be applied are reported and skipped.
+   * @private
+   * @param {string} context - The calling method, for error reporting.
+   * @param {BounceReport[]} reports - The parsed reports.
+   * @returns {Promise<BounceEvent[]>}
    */
-  public async sendConfirmationWithRetry(
-    email: string,
-    subjectTemplate: (email: string) => string,
-    bodyTemplate: (email: string) => string,
-    maxRetries: number = 3,
-    retryDelay: number = 1000
-  ): Promise<boolean> {
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  private async processBounceReports(context: string, reports: BounceReport[]): Promise<BounceEvent[]> {
+    const events: BounceEvent[] = [];
+    for (const report of reports) {
       try {
-        const result = await this.sendConfirmation(email, subjectTemplate, bodyTemplate);
-        if (result) return true;
-
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
-          this.emit('onEmailRetry', email, attempt + 1);
-        }
+        const event = await this.applyBounceReport(context, report);
+        if (event) events.push(event);
       } catch (error) {
-        this.handleError('sendConfirmationWithRetry', `Attempt ${attempt + 1} failed`, error);
+        this.handleError(context, 'Failed to process bounce', error);
       }
     }
-    return false;
+    return events;
   }
 
   /**
-   * Sends confirmation emails to all emails in the waitlist.
-   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
-   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
-   * @param {number} [maxRetries=3] - The maximum number of retry attempts per email.
-   * @param {number} [retryDelay=1000] - The delay between retries in milliseconds.
-   * @returns {Promise<number>} - The number of successfully sent emails.
+   * Records a bounce or complaint on the logged message, counts soft bounces and suppresses the address
+   * after a hard bounce, a complaint or too many soft bounces.
+   * @private
+   * @param {string} context - The calling method, for error reporting.
+   * @param {BounceReport} report - The report.
+   * @returns {Promise<BounceEvent | null>} - The event, or null if the recipient is unknown.
    */
-  public async sendBulkConfirmation(
-    subjectTemplate: (email: string) => string,
-    bodyTemplate: (email: string) => string,
-    maxRetries: number = 3,
-    retryDelay: number = 1000
-  ): Promise<number> {
-    const emails = this.getWaitlist();
-    let successCount = 0;
+  private async applyBounceReport(context: string, report: BounceReport): Promise<BounceEvent | null> {
+    const now = this.clock();
+    const feedback = report.type === 'complaint' ? { complainedAt: now } : { bounce: report.type, bouncedAt: now };
+    let message = report.messageId ? await this.store.recordMessageFeedback(report.messageId, feedback) : null;
+    const address = report.email ?? message?.email;
+    if (!address) {
+      this.handleError(context, 'Bounce report has no known recipient', new Error('Recipient not found'));
+      return null;
+    }
 
-    for (const email of emails) {
-      const success = await this.sendConfirmationWithRetry(
-        email,
-        subjectTemplate,
-        bodyTemplate,
-        maxRetries,
-        retryDelay
+    const email = this.suppressionKey(address);
+    let type = report.type;
+    let softBounces: number | undefined;
+    if (type === 'soft') {
+      const { softBounceThreshold = 3, softBounceWindow = 30 * 24 * 60 * 60 * 1000 } = this.bounceOptions;
+      const window = Math.floor(now.getTime() / softBounceWindow);
+      softBounces = await this.store.incrementCounter(
+        `bounce:soft:${email}:${softBounceWindow}:${window}`,
+        new Date((window + 1) * softBounceWindow),
+        now
       );
-      if (success) successCount++;
+      if (softBounces >= softBounceThreshold) {
+        type = 'hard';
+        if (message) message = await this.store.recordMessageFeedback(message.id, { bounce: 'hard' });
+      }
     }
 
-    this.emit('onBulkConfirmationComplete', { successCount, total: emails.length });
-    return successCount;
+    if (type !== 'soft') {
+      const note = [report.status, report.diagnostic].filter(Boolean).join(' ') || undefined;
+      await this.addSuppression(email, type === 'complaint' ? 'complaint' : 'bounce', { note });
+    }
+
+    const event: BounceEvent = {
+      email,
+      type,
+      listId: message ? message.listId ?? DEFAULT_LIST_ID : null,
+      messageId: message?.id ?? null,
+      status: report.status ?? null,
+      diagnostic: report.diagnostic ?? null,
+      ...(softBounces === undefined ? {} : { softBounces }),
+    };
+    this.emit(type === 'complaint' ? 'onComplaint' : 'onBounce', event);
+    return event;
   }
 
   /**
-   * Finds emails in the waitlist that match a pattern.
-   * @param {string} pattern - The pattern to search for.
-   * @returns {Promise<string[]>} - An array of matching emails.
+   * Verifies an open or click token.
+   * @private
+   * @param {string} context - The calling method, for error reporting.
+   * @param {string} token - The signed token.
+   * @param {TrackingEvent} purpose - The event the token must have been issued for.
+   * @returns {TokenPayload | null}
    */
-  public async findEmailsByPattern(pattern: string): Promise<string[]> {
-    try {
-      if (this.storage === StorageType.Local) {
-        return Array.from(this.waitlist).filter(email =>
-          email.toLowerCase().includes(pattern.toLowerCase())
-        );
-      }
-
-      if (this.storage === StorageType.Db) {
-        const regex = new RegExp(pattern, 'i');
-        const docs = await WaitlistModel.find({ email: { $regex: regex } });
-        return docs.map(doc => doc.email);
-      }
-
-      if (this.storage === StorageType.Sql) {
-        const records = await WaitlistSequelize.findAll({
-          where: { email: { [Op.like]: `%${pattern}%` } },
-        });
-        return records.map(record => record.email);
-      }
+  private verifyTrackingToken(context: string, token: string, purpose: TrackingEvent): TokenPayload | null {
+    if (!this.tracking) {
+      this.handleError(context, 'Tracking is not enabled', new Error('Tracking disabled'));
+      return null;
+    }
 
-      return [];
-    } catch (error) {
-      this.handleError('findEmailsByPattern', 'Search failed', error);
-      return [];
+    const verification = verifyToken(token, this.tracking.secret, purpose, this.clock());
+    if (!verification?.payload.messageId) {
+      this.handleError(context, 'Invalid tracking token', new Error('Invalid token'));
+      return null;
     }
+    return verification.payload;
   }
 
   /**
-   * Counts the number of emails in the waitlist within a date range.
-   * @param {Date} [start] - The start date of the range.
-   * @param {Date} [end] - The end date of the range.
-   * @returns {Promise<number>} - The count of emails.
+   * Adds the open pixel and click redirects to an HTML body. The unsubscribe link is never redirected.
+   * @private
+   * @param {string} html - The rendered HTML body.
+   * @param {string} id - The message id.
+   * @param {string} email - The recipient.
+   * @param {string} listId - The list the recipient is on.
+   * @param {string} [unsubscribeUrl] - The recipient's unsubscribe URL.
+   * @returns {string}
    */
-  public async countWaitlistByDate(start?: Date, end?: Date): Promise<number> {
-    try {
-      if (this.storage === StorageType.Local) {
-        return this.waitlist.size;
-      }
-
-      if (this.storage === StorageType.Db) {
-        const query: any = {};
-        if (start || end) {
-          query.createdAt = {};
-          if (start) query.createdAt.$gte = start;
-          if (end) query.createdAt.$lte = end;
-        }
-        return WaitlistModel.countDocuments(query);
-      }
-
-      if (this.storage === StorageType.Sql) {
-        const where: any = {};
-        if (start && end) {
-          where.createdAt = { [Op.between]: [start, end] };
-        } else if (start) {
-          where.createdAt = { [Op.gte]: start };
-        } else if (end) {
-          where.createdAt = { [Op.lte]: end };
-        }
-        return WaitlistSequelize.count({ where });
-      }
+  private addTracking(html: string, id: string, email: string, listId: string, unsubscribeUrl?: string): string {
+    const { secret, baseUrl, opens = true, clicks = true } = this.tracking as TrackingOptions;
+    const trackingUrl = (purpose: TrackingEvent, target?: string) => {
+      const url = new URL(`${baseUrl.replace(/\/+$/, '')}/${purpose}`);
+      url.searchParams.set('token', signToken({ email, purpose, listId, messageId: id, ...(target ? { url: target } : {}) }, secret));
+      return url.toString();
+    };
 
-      return 0;
-    } catch (error) {
-      this.handleError('countWaitlistByDate', 'Count failed', error);
-      return 0;
+    let tracked = html;
+    if (clicks) {
+      tracked = rewriteLinks(tracked, url => (url === unsubscribeUrl ? url : trackingUrl('click', url)));
+    }
+    if (opens) {
+      tracked = appendPixel(tracked, trackingUrl('open'));
     }
+    return tracked;
   }
 
   /**
-   * Saves the waitlist to the database.
-   * @returns {Promise<boolean>} - True if the waitlist was saved successfully, false otherwise.
+   * Builds the signed, per-recipient unsubscribe URL.
+   * @private
+   * @param {string} email - The recipient.
+   * @param {string} listId - The list the recipient is on.
+   * @returns {string | undefined} - The URL, or undefined if unsubscribe links are not configured.
    */
-  public async saveWaitlist(): Promise<boolean> {
-    try {
-      const emails = this.getWaitlist();
-  
-      if (this.storage === StorageType.Db) {
-        await WaitlistModel.deleteMany({});
-        if (emails.length > 0) {
-          await WaitlistModel.insertMany(emails.map(email => ({ email })));
-        }
-        this.emit('onWaitlistSaved', emails); 
-        return true;
-      }
-  
-      if (this.storage === StorageType.Sql) {
-        await this.sqlConnection?.transaction(async t => {
-          await WaitlistSequelize.destroy({ where: {}, transaction: t });
-          if (emails.length > 0) {
-            await WaitlistSequelize.bulkCreate(
-              emails.map(email => ({ email })),
-              { transaction: t }
-            );
-          }
-        });
-        this.emit('onWaitlistSaved', emails); 
+  private buildUnsubscribeUrl(email: string, listId: string): string | undefined {
+    if (!this.unsubscribeOptions) return undefined;
+    const token = signToken({ email, purpose: 'unsubscribe', listId }, this.unsubscribeOptions.secret);
+    const url = new URL(this.unsubscribeOptions.unsubscribeUrl);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  /**
+   * Builds the confirmation link for a token.
+   * @private
+   * @param {string} token - The signed confirmation token.
+   * @returns {string}
+   */
+  private buildConfirmLink(token: string): string {
+    const url = new URL((this.doubleOptIn as DoubleOptInOptions).confirmUrl);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  /**
+   * Generates a referral code that is not yet in use.
+   * @private
+   * @returns {Promise<string>}
+   */
+  private async generateReferralCode(): Promise<string> {
+    for (;;) {
+      const code = randomBytes(6).toString('hex');
+      if (!(await this.store.findByReferralCode(code))) return code;
+    }
+  }
+
+  /**
+   * Builds the shareable referral link for a code.
+   * @private
+   * @param {string} code - The referral code.
+   * @returns {string | undefined} - The link, or undefined if no referralUrl is configured.
+   */
+  private buildReferralLink(code: string): string | undefined {
+    if (!this.referrals.referralUrl) return undefined;
+    const url = new URL(this.referrals.referralUrl);
+    url.searchParams.set('ref', code);
+    return url.toString();
+  }
+
+  /**
+   * Builds the redemption link for an invite code.
+   * @private
+   * @param {string} code - The invite code.
+   * @returns {string | undefined} - The link, or undefined if no inviteUrl is configured.
+   */
+  private buildInviteLink(code: string): string | undefined {
+    if (!this.invites.inviteUrl) return undefined;
+    const url = new URL(this.invites.inviteUrl);
+    url.searchParams.set('code', code);
+    return url.toString();
+  }
+
+  /**
+   * Credits the referrer of a newly confirmed entry. Only referrers on the same list are credited.
+   * @private
+   * @param {WaitlistAttributes} record - The entry that was referred.
+   * @returns {Promise<void>}
+   */
+  private async creditReferral(record: WaitlistAttributes): Promise<void> {
+    if (!record.referredBy) return;
+    const listId = record.listId ?? DEFAULT_LIST_ID;
+    const referrer = await this.store.findByReferralCode(record.referredBy);
+    if (!referrer || (referrer.listId ?? DEFAULT_LIST_ID) !== listId || referrer.email === record.email) return;
+
+    await this.store.incrementReferralCount(referrer.email, listId);
+    this.emit('onReferralCredited', referrer.email, record.email);
+  }
+
+  /**
+   * Computes the queue order. Entries are ordered by signup date and each
+   * successful referral moves the referrer up `positionsPerReferral` places.
+   * @private
+   * @param {string} listId - The list to rank.
+   * @returns {Promise<WaitlistAttributes[]>} - Entries in queue order.
+   */
+  private async computeRanking(listId: string): Promise<WaitlistAttributes[]> {
+    const boost = this.referrals.positionsPerReferral ?? 1;
+    const records = await this.store.findAll(listId);
+    return records
+      .map((record, index) => ({ record, index, referrals: record.referralCount ?? 0 }))
+      .map(entry => ({ ...entry, score: entry.index - entry.referrals * boost }))
+      // A referrer that lands on an occupied slot goes ahead of whoever held it
+      .sort((a, b) => a.score - b.score || b.referrals - a.referrals || a.index - b.index)
+      .map(entry => entry.record);
+  }
+
+  /**
+   * Computes every entry's 1-based queue position in one pass over the list.
+   * @private
+   * @param {string} listId - The list to rank.
+   * @returns {Promise<Map<string, number>>} - Positions by email.
+   */
+  private async computePositions(listId: string): Promise<Map<string, number>> {
+    return new Map((await this.computeRanking(listId)).map((record, index): [string, number] => [record.email, index + 1]));
+  }
+
+  /**
+   * Computes the delay before the next attempt using exponential backoff with equal jitter.
+   * @private
+   * @param {number} attempts - The number of attempts made so far.
+   * @returns {number} - The delay in milliseconds.
+   */
+  private computeBackoff(attempts: number): number {
+    const { baseDelay = 1000, maxDelay = 60 * 60 * 1000 } = this.queueOptions ?? {};
+    const delay = Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempts - 1));
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /**
+   * Checks whether a send error is permanent (a rejection of the message itself) and should not be retried.
+   * @private
+   * @param {unknown} error - The error thrown by the transports.
+   * @returns {boolean}
+   */
+  private static isPermanentFailure(error: unknown): boolean {
+    if (error instanceof TransportError) return error.permanent;
+    const responseCode = responseCodeOf(error);
+    return responseCode !== undefined && responseCode >= 500 && responseCode < 600;
+  }
+
+  /**
+   * Attempts delivery of a claimed job and records the outcome.
+   * @private
+   * @param {SendJob} job - The claimed job.
+   * @returns {Promise<void>}
+   */
+  private async runJob(job: SendJob): Promise<void> {
+    const attempts = job.attempts + 1;
+    const listId = job.listId ?? DEFAULT_LIST_ID;
+    if (!(await this.canSendTo(job.email, 'processQueue', listId))) {
+      await this.store.updateJob(job.id, { status: 'dead', lastError: 'Recipient is no longer eligible' });
+      return;
+    }
+    if (this.closing) {
+      await this.store.updateJob(job.id, { status: 'queued', nextAttemptAt: this.clock() });
+      return;
+    }
+
+    try {
+      const { provider } = await this.deliverMail(job.email, job.subject, job.html, undefined, listId);
+      await this.store.updateJob(job.id, { status: 'sent', attempts, lastError: null, provider });
+      this.emit('onEmailSent', job.email);
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const maxAttempts = this.queueOptions?.maxAttempts ?? 5;
+
+      if (WaitlistMailer.isPermanentFailure(error) || attempts >= maxAttempts) {
+        await this.store.updateJob(job.id, { status: 'dead', attempts, lastError });
+        this.emit('onJobDeadLettered', { ...job, status: 'dead', attempts, lastError });
+      } else {
+        const nextAttemptAt = new Date(this.clock().getTime() + this.computeBackoff(attempts));
+        await this.store.updateJob(job.id, { status: 'queued', attempts, lastError, nextAttemptAt });
+        this.metrics?.increment(METRICS.retries, { source: 'queue' });
+        this.emit('onEmailRetry', job.email, attempts);
+      }
+    }
+  }
+
+  /**
+   * Renders a registry template of a list in the subscriber's locale.
+   * @private
+   * @param {string} email - The recipient.
+   * @param {string} templateName - The registered template name.
+   * @param {Record<string, string>} replacements - Extra template data.
+   * @param {string} listId - The list the recipient is on.
+   * @param {Map<string, Map<string, number>>} [rankings] - Positions already computed in this run, by list.
+   * @returns {Promise<{ message: RenderedMessage, locale: string }>}
+   * @throws {Error} If the list has no templates or the template cannot be rendered.
+   */
+  private async renderRegistryTemplate(
+    email: string,
+    templateName: string,
+    replacements: Record<string, string>,
+    listId: string,
+    rankings?: Map<string, Map<string, number>>
+  ): Promise<{ message: RenderedMessage; locale: string }> {
+    const templates = this.getList(listId).templates;
+    if (!templates) {
+      throw new Error('No template directory');
+    }
+    const record = await this.store.findOne(email, listId);
+    const locale = record?.locale ?? templates.defaultLocale;
+    const context = await this.buildTemplateContext(email, replacements, listId, rankings);
+    return { message: templates.renderMessage(templateName, context, { locale }), locale };
+  }
+
+  /**
+   * Renders a subject and body pair, or a registry template in the subscriber's locale.
+   * @private
+   * @param {string} email - The recipient.
+   * @param {CampaignTemplate | string} template - The generators, or the registered template name.
+   * @param {Record<string, string>} replacements - Extra data for registry templates.
+   * @param {string} listId - The list the recipient is on.
+   * @param {Map<string, Map<string, number>>} [rankings] - Positions already computed in this run, by list.
+   * @returns {Promise<RenderedMessage & { subject: string }>}
+   * @throws {Error} If the template cannot be rendered or has no subject.
+   */
+  private async renderTemplate(
+    email: string,
+    template: CampaignTemplate | string,
+    replacements: Record<string, string>,
+    listId: string,
+    rankings?: Map<string, Map<string, number>>
+  ): Promise<RenderedMessage & { subject: string }> {
+    const message = typeof template === 'string'
+      ? (await this.renderRegistryTemplate(email, template, replacements, listId, rankings)).message
+      : { subject: template.subject(email), html: template.body(email) };
+    if (!message.subject) {
+      throw new Error(`Template ${template} has no subject`);
+    }
+    return { ...message, subject: message.subject };
+  }
+
+  /**
+   * Computes when a sequence step is due.
+   * @private
+   * @param {SequenceStep} step - The step.
+   * @param {Date} signedUpAt - When the subscriber signed up.
+   * @param {Date} previousAt - When the previous step was sent, or when the subscriber was enrolled.
+   * @returns {Date}
+   */
+  private static stepDueAt(step: SequenceStep, signedUpAt: Date, previousAt: Date): Date {
+    return new Date((step.after === 'signup' ? signedUpAt : previousAt).getTime() + step.delay);
+  }
+
+  /**
+   * Enrolls a subscriber in every auto-enrolling sequence of a list. Failures are reported but never fail the signup.
+   * @private
+   * @param {string} email - The subscriber.
+   * @param {string} listId - The list the subscriber joined.
+   * @returns {Promise<void>}
+   */
+  private async autoEnroll(email: string, listId: string): Promise<void> {
+    for (const [sequenceId, sequence] of this.sequences) {
+      if ((sequence.listId ?? DEFAULT_LIST_ID) === listId && sequence.autoEnroll !== false) {
+        await this.enrollInSequence(email, sequenceId);
+      }
+    }
+  }
+
+  /**
+   * Sends the due step of a claimed enrollment and schedules the next one.
+   * Subscribers who left the list or can no longer receive mail are unenrolled; failed sends are retried with backoff.
+   * @private
+   * @param {SequenceEnrollment} enrollment - The claimed enrollment.
+   * @param {Date} now - The current time.
+   * @param {Map<string, Map<string, number>>} rankings - Positions already computed in this batch, by list.
+   * @returns {Promise<void>}
+   */
+  private async runSequenceStep(enrollment: SequenceEnrollment, now: Date, rankings: Map<string, Map<string, number>>): Promise<void> {
+    const { sequenceId, email, listId } = enrollment;
+    const sequence = this.sequences.get(sequenceId);
+    const step = sequence?.steps[enrollment.step];
+    const record = await this.store.findOne(email, listId);
+    if (!sequence || !step || !record || !(await this.canSendTo(email, 'processSequences', listId))) {
+      await this.store.saveEnrollment({ ...enrollment, status: 'cancelled', nextRunAt: null });
+      this.emit('onSequenceCancelled', { sequenceId, email, listId });
+      return;
+    }
+
+    try {
+      const message = await this.renderTemplate(email, step.template, {}, listId, rankings);
+      await this.deliverMail(email, message.subject, message.html, message.text, listId, typeof step.template === 'string' ? { template: step.template } : {});
+    } catch (error) {
+      if (this.closing) {
+        // The step was refused because the mailer is closing; it is due again right away
+        await this.store.saveEnrollment({ ...enrollment, nextRunAt: now });
+        return;
+      }
+      const attempts = enrollment.attempts + 1;
+      const lastError = error instanceof Error ? error.message : String(error);
+      this.handleError('processSequences', 'Failed to send sequence step', error);
+      if (WaitlistMailer.isPermanentFailure(error) || attempts >= (this.schedulerOptions.maxAttempts ?? 5)) {
+        await this.store.saveEnrollment({ ...enrollment, status: 'cancelled', nextRunAt: null, attempts, lastError });
+        this.emit('onSequenceCancelled', { sequenceId, email, listId });
+      } else {
+        const nextRunAt = new Date(now.getTime() + this.computeBackoff(attempts));
+        await this.store.saveEnrollment({ ...enrollment, nextRunAt, attempts, lastError });
+      }
+      return;
+    }
+
+    const next = enrollment.step + 1;
+    const completed = next >= sequence.steps.length;
+    await this.store.saveEnrollment({
+      ...enrollment,
+      step: next,
+      status: completed ? 'completed' : 'active',
+      nextRunAt: completed ? null : WaitlistMailer.stepDueAt(sequence.steps[next], record.createdAt ?? now, now),
+      attempts: 0,
+      lastError: null,
+      lastSentAt: now,
+    });
+    this.emit('onSequenceStepSent', { sequenceId, email, listId, step: enrollment.step });
+    if (completed) {
+      this.emit('onSequenceCompleted', { sequenceId, email, listId });
+    }
+  }
+
+  /**
+   * Invites waiting subscribers one by one: each gets a single-use code, is marked invited and is sent the invite.
+   * Subscribers whose invite cannot be sent are put back on the waitlist.
+   * @private
+   * @param {string[]} emails - The waiting subscribers, in invite order.
+   * @param {string[]} skipped - Addresses already turned down, reported with the batch.
+   * @param {CampaignTemplate | string} template - The invite email.
+   * @param {string} listId - The list the subscribers are on.
+   * @param {string} [batchId] - The batch id; generated when omitted.
+   * @param {string} context - The calling method, used when reporting errors.
+   * @returns {Promise<InviteBatch>}
+   */
+  private async sendInvites(
+    emails: string[],
+    skipped: string[],
+    template: CampaignTemplate | string,
+    listId: string,
+    batchId: string | undefined,
+    context: string
+  ): Promise<InviteBatch> {
+    const batch: InviteBatch = { batchId: batchId ?? randomBytes(6).toString('hex'), listId, invited: [], failed: [], skipped };
+    const rankings = new Map<string, Map<string, number>>();
+
+    for (const email of emails) {
+      // 128 random bits, so codes are unique without a lookup
+      const inviteCode = randomBytes(16).toString('hex');
+      const inviteLink = this.buildInviteLink(inviteCode) ?? '';
+      const fill = (content: string) => content.replace(/\[Invite Code\]/g, inviteCode).replace(/\[Invite URL\]/g, inviteLink);
+
+      // The code is stored first so it can be redeemed as soon as the email arrives
+      await this.store.update(email, { inviteStatus: 'invited', inviteCode, inviteBatch: batch.batchId, invitedAt: this.clock() }, listId);
+      try {
+        const message = await this.renderTemplate(email, template, { inviteCode, inviteLink }, listId, rankings);
+        await this.deliverMail(
+          email,
+          message.subject,
+          fill(message.html),
+          message.text === undefined ? undefined : fill(message.text),
+          listId,
+          typeof template === 'string' ? { template } : {}
+        );
+        batch.invited.push(email);
+        this.emit('onInviteSent', { email, listId, batchId: batch.batchId });
+      } catch (error) {
+        this.handleError(context, 'Failed to send invite', error);
+        await this.store.update(email, { inviteStatus: 'waiting', inviteCode: null, inviteBatch: null, invitedAt: null }, listId);
+        batch.failed.push(email);
+      }
+    }
+
+    this.emit('onInviteBatchCompleted', batch);
+    return batch;
+  }
+
+  /**
+   * Runs an async task for every item with at most `concurrency` tasks in flight.
+   * @private
+   * @param {T[]} items - The items to process.
+   * @param {number} concurrency - The maximum number of parallel tasks.
+   * @param {(item: T) => Promise<boolean>} task - The task; returning false stops workers from taking new items.
+   * @returns {Promise<void>}
+   */
+  private async runConcurrently<T>(items: T[], concurrency: number, task: (item: T) => Promise<boolean>): Promise<void> {
+    let next = 0;
+    let stopped = false;
+    const worker = async () => {
+      while (!stopped && next < items.length) {
+        if (!(await task(items[next++]))) stopped = true;
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker));
+  }
+
+  /**
+   * Sends every outstanding delivery of a running campaign.
+   * @private
+   * @param {string} id - The campaign id.
+   * @returns {Promise<CampaignStatus | null>}
+   */
+  private async runCampaign(id: string): Promise<CampaignStatus | null> {
+    const { template, options } = this.campaignTemplates.get(id) as { template: CampaignTemplate; options: CampaignOptions };
+    const { maxRetries = 3, retryDelay = 1000, concurrency = 1, batchSize = 100, leaseTimeout = 10 * 60 * 1000 } = options;
+    const deliveries = await this.store.findCampaignDeliveries(id, ['pending', 'failed', 'sending']);
+
+    const sendTo = async (delivery: CampaignDelivery): Promise<boolean> => {
+      if (this.closing || this.campaignStates.get(id) !== 'running') return false;
+      // Another process running the same campaign may have taken the recipient
+      const now = this.clock();
+      if (!(await this.store.claimCampaignDelivery(id, delivery.email, now, new Date(now.getTime() + leaseTimeout)))) return true;
+
+      // Recipients who opted out since the campaign started are recorded once and left out of every resume
+      const listId = options.listId ?? DEFAULT_LIST_ID;
+      if (!(await this.canSendTo(delivery.email, 'runCampaign', listId))) {
+        await this.store.updateCampaignDelivery(id, delivery.email, { status: 'skipped', lastError: 'Recipient not eligible', leaseUntil: null });
         return true;
       }
-  
-      return true; // Local storage no necesita guardar
+
+      const success = await this.retrySend(
+        delivery.email,
+        template.subject,
+        template.body,
+        maxRetries,
+        retryDelay,
+        listId,
+        { campaignId: id }
+      );
+      // A send refused because the mailer is closing is released as it was, for the next run
+      if (!success && this.closing) {
+        await this.store.updateCampaignDelivery(id, delivery.email, { status: delivery.status === 'failed' ? 'failed' : 'pending', leaseUntil: null });
+        return false;
+      }
+      await this.store.updateCampaignDelivery(id, delivery.email, success
+        ? { status: 'delivered', deliveredAt: this.clock(), lastError: null, leaseUntil: null }
+        : { status: 'failed', lastError: 'Delivery failed', leaseUntil: null });
+      return true;
+    };
+
+    for (let offset = 0; offset < deliveries.length && !this.closing; offset += batchSize) {
+      // Pauses and cancels made by other processes only show up in the store
+      const campaign = await this.store.findCampaign(id);
+      if (campaign && campaign.status !== 'running') this.campaignStates.set(id, campaign.status);
+      if (this.campaignStates.get(id) !== 'running') break;
+      await this.runConcurrently(deliveries.slice(offset, offset + batchSize), concurrency, sendTo);
+    }
+
+    if (!this.closing && this.campaignStates.get(id) === 'running' && (await this.store.findCampaign(id))?.status === 'running') {
+      const counts = await this.store.countCampaignDeliveries(id);
+      if (counts.pending === 0 && counts.sending === 0) {
+        this.campaignStates.set(id, 'completed');
+        await this.store.saveCampaign({ id, status: 'completed' });
+        this.emit('onCampaignCompleted', await this.getCampaignStatus(id));
+      }
+    }
+    return this.getCampaignStatus(id);
+  }
+
+  /**
+   * Persists a campaign state change for a campaign that exists.
+   * @private
+   * @param {string} id - The campaign id.
+   * @param {CampaignState} status - The new state.
+   * @param {CampaignState[]} from - The states the change is allowed from.
+   * @returns {Promise<boolean>} - True if the state changed.
+   */
+  private async transitionCampaign(id: string, status: CampaignState, from: CampaignState[]): Promise<boolean> {
+    const campaign = await this.store.findCampaign(id);
+    if (!campaign || !from.includes(campaign.status)) {
+      this.handleError('transitionCampaign', `Cannot move campaign to ${status}`, new Error(`Campaign ${id} is ${campaign?.status ?? 'missing'}`));
+      return false;
+    }
+    this.campaignStates.set(id, status);
+    await this.store.saveCampaign({ id, status });
+    return true;
+  }
+
+  // ==================== Public API ====================
+
+  /**
+   * Checks if the mailer is initialized.
+   * @returns {boolean} - True if initialized, false otherwise.
+   */
+  public isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Waits for the mailer to initialize.
+   * @returns {Promise<void>}
+   * @throws {Error} The error that made initialization fail, e.g. an unreachable store or no usable transport.
+   */
+  public async waitForInitialization(): Promise<void> {
+    return this.initialization;
+  }
+
+  /**
+   * Checks whether the store can be reached.
+   * @returns {Promise<ComponentHealth>}
+   */
+  public async checkStorageHealth(): Promise<ComponentHealth> {
+    try {
+      await this.store.ping();
+      return { healthy: true };
+    } catch (error) {
+      return { healthy: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Verifies every transport again and records the outcome, emitting `onProviderHealthy` / `onProviderUnhealthy` on changes.
+   * @returns {Promise<TransportHealth[]>} - One entry per transport, in failover order.
+   */
+  public async checkTransportHealth(): Promise<TransportHealth[]> {
+    return Promise.all(this.transports.map(async transport => {
+      try {
+        await transport.verify();
+        this.setProviderHealth(transport.name, true);
+        return { name: transport.name, healthy: true };
+      } catch (error) {
+        this.setProviderHealth(transport.name, false, error);
+        return { name: transport.name, healthy: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+  }
+
+  /**
+   * Checks the store and the transports, e.g. for a readiness probe.
+   * @returns {Promise<HealthReport>} - Healthy when the store is reachable and at least one transport is usable.
+   */
+  public async checkHealth(): Promise<HealthReport> {
+    const [storage, transports] = await Promise.all([this.checkStorageHealth(), this.checkTransportHealth()]);
+    return { healthy: storage.healthy && transports.some(transport => transport.healthy), storage, transports };
+  }
+
+  /**
+   * Adds an email to a waitlist. Duplicates are detected per list, so the same email can join several lists.
+   * Custom fields can be passed directly, as in `addEmail(email, { username: 'Ana' })`, or through `options.fields`.
+   * A second argument made only of option keys (`referredBy`, `locale`, `fields`, `listId`, `tags`, `ip`, `honeypot`) is read as options; pass options
+   * as the third argument when a custom field shares one of those names.
+   * @param {string} email - The email to add.
+   * @param {SubscriberFields | AddEmailOptions} [fieldsOrOptions={}] - Custom fields, or additional signup details such as the referrer's code.
+   * @param {AddEmailOptions} [extraOptions] - Additional signup details when custom fields are passed as the second argument.
+   * @returns {Promise<boolean>} - True if the email was added successfully, false otherwise.
+   * @throws {Error} If persistence fails.
+   */
+  public addEmail(email: string, options?: AddEmailOptions): Promise<boolean>;
+  public addEmail(email: string, fields: SubscriberFields, options?: AddEmailOptions): Promise<boolean>;
+  public async addEmail(
+    email: string,
+    fieldsOrOptions: SubscriberFields | AddEmailOptions = {},
+    extraOptions?: AddEmailOptions
+  ): Promise<boolean> {
+    const options: AddEmailOptions = extraOptions === undefined
+      && Object.keys(fieldsOrOptions).every(key => ADD_EMAIL_OPTION_KEYS.includes(key))
+      ? fieldsOrOptions as AddEmailOptions
+      : { ...extraOptions, fields: fieldsOrOptions as SubscriberFields };
+
+    if (!this.initialized) {
+      this.handleError('addEmail', 'WaitlistMailer not initialized', new Error('Not initialized'));
+      return false;
+    }
+
+    // Duplicates are detected on the canonical address; the address as entered is kept next to it
+    const originalEmail = email.trim();
+    email = this.normalizeEmail(email);
+    const validation = this.validateEmail(email);
+    if (!validation.isValid) {
+      this.metrics?.increment(METRICS.validationFailures);
+      this.emit('onValidationError', validation);
+      return false;
+    }
+
+    const listId = options.listId ?? DEFAULT_LIST_ID;
+    const list = this.lists.get(listId);
+    if (!list) {
+      this.handleError('addEmail', 'Unknown list', new Error(`List ${listId} is not configured`));
+      return false;
+    }
+
+    if (list.pending.has(email)) {
+      this.metrics?.increment(METRICS.duplicates, { list: listId });
+      this.emit('onDuplicateEmail', email);
+      return false;
+    }
+
+    const fieldValidation = this.validateFields(options.fields ?? {});
+    if (!fieldValidation.isValid) {
+      this.metrics?.increment(METRICS.validationFailures);
+      this.emit('onValidationError', { isValid: false, message: fieldValidation.message });
+      return false;
+    }
+
+    const tagValidation = this.validateTags(options.tags ?? []);
+    if (!tagValidation.isValid) {
+      this.metrics?.increment(METRICS.validationFailures);
+      this.emit('onValidationError', { isValid: false, message: tagValidation.message });
+      return false;
+    }
+
+    const status: SubscriberStatus = this.doubleOptIn ? 'pending' : 'confirmed';
+    const referredBy = options.referredBy ?? null;
+    const fields = fieldValidation.value && Object.keys(fieldValidation.value).length > 0 ? fieldValidation.value : null;
+
+    // The email is claimed before the asynchronous checks so concurrent signups in this process see it as a
+    // duplicate; signups in other processes are caught by the store's unique index when the entry is inserted
+    list.pending.add(email);
+    try {
+      if (await this.hasEmail(email, listId)) {
+        this.metrics?.increment(METRICS.duplicates, { list: listId });
+        this.emit('onDuplicateEmail', email);
+        return false;
+      }
+
+      let rejection: SignupRejection | null = null;
+      try {
+        rejection = await this.signupGuard.check({ email, ip: options.ip, honeypot: options.honeypot });
+      } catch (error) {
+        this.handleError('addEmail', 'Signup protection check failed', error);
+      }
+      if (rejection) {
+        this.emit('onSignupRejected', { email, listId, ip: options.ip ?? null, ...rejection });
+        return false;
+      }
+
+      try {
+        await this.persistEmail({
+          email,
+          originalEmail,
+          listId,
+          status,
+          referredBy,
+          locale: options.locale ?? null,
+          fields,
+          tags: tagValidation.value,
+        });
+      } catch (error) {
+        if (!(error instanceof DuplicateEmailError)) throw error;
+        list.emails.add(email);
+        this.metrics?.increment(METRICS.duplicates, { list: listId });
+        this.emit('onDuplicateEmail', email);
+        return false;
+      }
+      list.emails.add(email);
+    } finally {
+      list.pending.delete(email);
+    }
+    this.metrics?.increment(METRICS.signups, { list: listId });
+    this.emit('onEmailAdded', email);
+
+    if (this.doubleOptIn) {
+      await this.sendOptInEmail(email, listId);
+    } else {
+      if (referredBy) await this.creditReferral({ email, listId, referredBy });
+      await this.autoEnroll(email, listId);
+    }
+    return true;
+  }
+
+  /**
+   * Sends (or re-sends) the double opt-in email containing a fresh signed confirmation link.
+   * @param {string} email - The pending email to send to.
+   * @param {string} [listId='default'] - The list the email signed up for.
+   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   */
+  public async sendOptInEmail(email: string, listId: string = DEFAULT_LIST_ID): Promise<boolean> {
+    if (!this.doubleOptIn) {
+      this.handleError('sendOptInEmail', 'Double opt-in is not enabled', new Error('Double opt-in disabled'));
+      return false;
+    }
+
+    email = this.resolveEmail(email, listId);
+    try {
+      const list = this.getList(listId);
+      const record = await this.store.findOne(email, listId);
+      if (!record || record.status !== 'pending') {
+        this.handleError('sendOptInEmail', 'Email is not pending confirmation', new Error('Email not pending'));
+        return false;
+      }
+
+      const { secret, tokenTtl = 48 * 60 * 60 * 1000, subjectTemplate, bodyTemplate } = this.doubleOptIn;
+      const token = signToken({ email, purpose: 'confirm', listId, exp: this.clock().getTime() + tokenTtl }, secret);
+      await this.store.update(email, { confirmationToken: token }, listId);
+
+      const link = this.buildConfirmLink(token);
+      const subject = subjectTemplate ? subjectTemplate(email) : `Please confirm your subscription to ${list.companyName}`;
+      const html = bodyTemplate
+        ? bodyTemplate(email, link)
+        : `<p>Please confirm your spot on the [Company Name] waitlist:</p><p><a href="${link}">${link}</a></p>`;
+
+      await this.deliverMail(email, subject, html, undefined, listId);
+      this.emit('onConfirmationRequested', email);
+      return true;
+    } catch (error) {
+      this.handleError('sendOptInEmail', 'Failed to send opt-in email', error);
+      return false;
+    }
+  }
+
+  /**
+   * Confirms a pending subscription using the token from the opt-in email.
+   * Tokens are single-use: a token is only accepted while it is the latest one issued for the email.
+   * @param {string} token - The signed confirmation token.
+   * @returns {Promise<boolean>} - True if the email was confirmed, false if the token is invalid, expired or already used.
+   */
+  public async confirmEmail(token: string): Promise<boolean> {
+    if (!this.doubleOptIn) {
+      this.handleError('confirmEmail', 'Double opt-in is not enabled', new Error('Double opt-in disabled'));
+      return false;
+    }
+
+    const verification = verifyToken(token, this.doubleOptIn.secret, 'confirm', this.clock());
+    if (!verification) {
+      this.handleError('confirmEmail', 'Invalid confirmation token', new Error('Invalid token'));
+      return false;
+    }
+
+    const { email, listId = DEFAULT_LIST_ID } = verification.payload;
+    if (verification.expired) {
+      this.emit('onConfirmationExpired', email);
+      return false;
+    }
+
+    try {
+      const record = await this.store.findOne(email, listId);
+      if (!record || record.status !== 'pending' || record.confirmationToken !== token) {
+        this.handleError('confirmEmail', 'Confirmation token already used or superseded', new Error('Stale token'));
+        return false;
+      }
+
+      await this.store.update(email, { status: 'confirmed', confirmedAt: this.clock(), confirmationToken: null }, listId);
+      this.emit('onEmailConfirmed', email);
+      await this.creditReferral({ ...record, listId });
+      await this.autoEnroll(email, listId);
+      return true;
+    } catch (error) {
+      this.handleError('confirmEmail', 'Failed to confirm email', error);
+      return false;
+    }
+  }
+
+  /**
+   * Removes an email from a waitlist.
+   * @param {string} email - The email to remove.
+   * @param {string} [listId='default'] - The list to remove it from.
+   * @returns {Promise<boolean>} - True if the email was removed successfully, false otherwise.
+   * @throws {Error} If removal fails.
+   */
+  public async removeEmail(email: string, listId: string = DEFAULT_LIST_ID): Promise<boolean> {
+    email = this.resolveEmail(email, listId);
+    const list = this.lists.get(listId);
+    if (!this.initialized || !list || !(await this.hasEmail(email, listId))) {
+      return false;
+    }
+
+    list.emails.delete(email);
+    await this.removePersistedEmail(email, listId);
+    this.emit('onEmailRemoved', email);
+    return true;
+  }
+
+  /**
+   * Unsubscribes an email from the list named in the token of an unsubscribe link.
+   * The entry stays on the waitlist but is skipped by every send path.
+   * @param {string} token - The signed unsubscribe token.
+   * @returns {Promise<boolean>} - True if the email is unsubscribed, false if the token is invalid or the email is unknown.
+   */
+  public async unsubscribe(token: string): Promise<boolean> {
+    if (!this.unsubscribeOptions) {
+      this.handleError('unsubscribe', 'Unsubscribe links are not enabled', new Error('Unsubscribe disabled'));
+      return false;
+    }
+
+    const verification = verifyToken(token, this.unsubscribeOptions.secret, 'unsubscribe', this.clock());
+    if (!verification) {
+      this.handleError('unsubscribe', 'Invalid unsubscribe token', new Error('Invalid token'));
+      return false;
+    }
+
+    const { email, listId = DEFAULT_LIST_ID } = verification.payload;
+    try {
+      const record = await this.store.findOne(email, listId);
+      if (!record) {
+        this.handleError('unsubscribe', 'Email not in waitlist', new Error('Email not found'));
+        return false;
+      }
+      if (!record.unsubscribedAt) {
+        await this.store.update(email, { unsubscribedAt: this.clock() }, listId);
+        this.emit('onUnsubscribed', email);
+      }
+      return true;
+    } catch (error) {
+      this.handleError('unsubscribe', 'Failed to unsubscribe', error);
+      return false;
+    }
+  }
+
+  /**
+   * Adds an address to the global suppression list. Suppressed addresses receive no mail,
+   * whether or not they are on the waitlist.
+   * @param {string} email - The address to suppress.
+   * @param {SuppressionReason} [reason='manual'] - Why the address is suppressed.
+   * @param {{ expiresAt?: Date | null; note?: string }} [options={}] - Optional expiry and note.
+   * @returns {Promise<boolean>} - True if the address was suppressed, false if the input is invalid.
+   */
+  public async addSuppression(
+    email: string,
+    reason: SuppressionReason = 'manual',
+    options: { expiresAt?: Date | null; note?: string } = {}
+  ): Promise<boolean> {
+    const entry = this.toSuppressionEntry({ email, reason, ...options });
+    if (!entry) {
+      this.emit('onValidationError', { isValid: false, message: 'Invalid suppression email or reason' });
+      return false;
+    }
+
+    try {
+      await this.store.saveSuppressions([entry]);
+      this.emit('onSuppressionAdded', entry);
+      return true;
+    } catch (error) {
+      this.handleError('addSuppression', 'Failed to add suppression', error);
+      return false;
+    }
+  }
+
+  /**
+   * Removes an address from the suppression list.
+   * @param {string} email - The suppressed address.
+   * @returns {Promise<boolean>} - True if an entry was removed.
+   */
+  public async removeSuppression(email: string): Promise<boolean> {
+    const key = this.suppressionKey(email);
+    try {
+      const removed = await this.store.removeSuppression(key);
+      if (removed) this.emit('onSuppressionRemoved', key);
+      return removed;
+    } catch (error) {
+      this.handleError('removeSuppression', 'Failed to remove suppression', error);
+      return false;
+    }
+  }
+
+  /**
+   * Lists suppression entries, newest first.
+   * @param {{ includeExpired?: boolean }} [options={}] - Whether to include lapsed entries.
+   * @returns {Promise<SuppressionEntry[]>}
+   */
+  public async listSuppressions(options: { includeExpired?: boolean } = {}): Promise<SuppressionEntry[]> {
+    try {
+      const now = this.clock();
+      const entries = await this.store.listSuppressions();
+      return options.includeExpired ? entries : entries.filter(entry => !entry.expiresAt || entry.expiresAt > now);
+    } catch (error) {
+      this.handleError('listSuppressions', 'Failed to list suppressions', error);
+      return [];
+    }
+  }
+
+  /**
+   * Imports suppression entries in bulk, e.g. from a provider's bounce export.
+   * @param {SuppressionInput[]} inputs - The entries to import.
+   * @param {number} [batchSize=500] - How many entries are saved per store call.
+   * @returns {Promise<SuppressionImportReport>} - The number of imported entries and the rejected emails.
+   */
+  public async importSuppressions(inputs: SuppressionInput[], batchSize: number = 500): Promise<SuppressionImportReport> {
+    const report: SuppressionImportReport = { imported: 0, invalid: [] };
+    const entries: SuppressionEntry[] = [];
+
+    inputs.forEach(input => {
+      const entry = this.toSuppressionEntry(input);
+      if (entry) entries.push(entry);
+      else report.invalid.push(input.email);
+    });
+
+    try {
+      for (let i = 0; i < entries.length; i += batchSize) {
+        const batch = entries.slice(i, i + batchSize);
+        await this.store.saveSuppressions(batch);
+        report.imported += batch.length;
+      }
+    } catch (error) {
+      this.handleError('importSuppressions', 'Failed to import suppressions', error);
+    }
+
+    this.emit('onSuppressionsImported', report);
+    return report;
+  }
+
+  /**
+   * Gets an email's current position in the queue.
+   * @param {string} email - The email to look up.
+   * @param {string} [listId='default'] - The list to look in.
+   * @returns {Promise<number | null>} - The 1-based position, or null if the email is not on the waitlist.
+   */
+  public async getPosition(email: string, listId: string = DEFAULT_LIST_ID): Promise<number | null> {
+    email = this.resolveEmail(email, listId);
+    try {
+      const index = (await this.computeRanking(listId)).findIndex(record => record.email === email);
+      return index === -1 ? null : index + 1;
+    } catch (error) {
+      this.handleError('getPosition', 'Failed to compute position', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the referral details of an email.
+   * @param {string} email - The email to look up.
+   * @param {string} [listId='default'] - The list to look in.
+   * @returns {Promise<ReferralStats | null>} - The referral details, or null if the email is not on the waitlist.
+   */
+  public async getReferralStats(email: string, listId: string = DEFAULT_LIST_ID): Promise<ReferralStats | null> {
+    email = this.resolveEmail(email, listId);
+    try {
+      const ranking = await this.computeRanking(listId);
+      const index = ranking.findIndex(record => record.email === email);
+      if (index === -1) return null;
+
+      const record = ranking[index];
+      const referralCode = record.referralCode ?? null;
+      return {
+        referralCode,
+        referralLink: referralCode ? this.buildReferralLink(referralCode) : undefined,
+        referralCount: record.referralCount ?? 0,
+        referredBy: record.referredBy ?? null,
+        position: index + 1,
+      };
+    } catch (error) {
+      this.handleError('getReferralStats', 'Failed to load referral stats', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gives a referral code to every entry of a list that has none, i.e. entries created before referral support.
+   * @param {string} [listId='default'] - The list to update.
+   * @returns {Promise<number>} - The number of entries that received a code.
+   */
+  public async assignReferralCodes(listId: string = DEFAULT_LIST_ID): Promise<number> {
+    let assigned = 0;
+    try {
+      for (const record of await this.store.findAll(listId)) {
+        if (record.referralCode) continue;
+        await this.store.update(record.email, { referralCode: await this.generateReferralCode() }, listId);
+        assigned++;
+      }
+    } catch (error) {
+      this.handleError('assignReferralCodes', 'Failed to assign referral codes', error);
+    }
+    return assigned;
+  }
+
+  /**
+   * Invites the next waiting subscribers in order of position, skipping those who may not receive mail.
+   * The template body may use the `[Invite Code]` and `[Invite URL]` placeholders; registry templates
+   * also receive `inviteCode` and `inviteLink`.
+   * @param {number} count - How many subscribers to invite.
+   * @param {CampaignTemplate | string} template - Subject and body generators, or the name of a registry template.
+   * @param {InviteBatchOptions} [options={}] - The list and batch id.
+   * @returns {Promise<InviteBatch | null>} - The batch, or null if it could not be started.
+   */
+  public async inviteNext(count: number, template: CampaignTemplate | string, options: InviteBatchOptions = {}): Promise<InviteBatch | null> {
+    const listId = options.listId ?? DEFAULT_LIST_ID;
+    if (!this.lists.has(listId)) {
+      this.handleError('inviteNext', 'Unknown list', new Error(`List ${listId} is not configured`));
+      return null;
+    }
+    if (!Number.isInteger(count) || count < 1) {
+      this.emit('onValidationError', { isValid: false, message: 'Invite count must be a positive integer' });
+      return null;
+    }
+
+    try {
+      const eligible = new Set(await this.getEligibleRecipients(undefined, listId));
+      const next = (await this.computeRanking(listId))
+        .filter(record => (record.inviteStatus ?? 'waiting') === 'waiting' && eligible.has(record.email))
+        .slice(0, count)
+        .map(record => record.email);
+      return await this.sendInvites(next, [], template, listId, options.batchId, 'inviteNext');
+    } catch (error) {
+      this.handleError('inviteNext', 'Failed to invite subscribers', error);
+      return null;
+    }
+  }
+
+  /**
+   * Invites specific subscribers, e.g. friends and family ahead of their position.
+   * Addresses that are not waiting on the list or may not receive mail are skipped.
+   * @param {string[]} emails - The subscribers to invite.
+   * @param {CampaignTemplate | string} template - Subject and body generators, or the name of a registry template.
+   * @param {InviteBatchOptions} [options={}] - The list and batch id.
+   * @returns {Promise<InviteBatch | null>} - The batch, or null if it could not be started.
+   */
+  public async inviteEmails(emails: string[], template: CampaignTemplate | string, options: InviteBatchOptions = {}): Promise<InviteBatch | null> {
+    const listId = options.listId ?? DEFAULT_LIST_ID;
+    if (!this.lists.has(listId)) {
+      this.handleError('inviteEmails', 'Unknown list', new Error(`List ${listId} is not configured`));
+      return null;
+    }
+
+    try {
+      const waiting: string[] = [];
+      const skipped: string[] = [];
+      for (const address of emails) {
+        const email = this.resolveEmail(address, listId);
+        const record = await this.store.findOne(email, listId);
+        const invitable = record && (record.inviteStatus ?? 'waiting') === 'waiting' && !waiting.includes(email);
+        if (invitable && (await this.canSendTo(email, 'inviteEmails', listId))) {
+          waiting.push(email);
+        } else {
+          skipped.push(address);
+        }
+      }
+      return await this.sendInvites(waiting, skipped, template, listId, options.batchId, 'inviteEmails');
+    } catch (error) {
+      this.handleError('inviteEmails', 'Failed to invite subscribers', error);
+      return null;
+    }
+  }
+
+  /**
+   * Redeems an invite code, marking its subscriber as joined. Each code can be redeemed once.
+   * @param {string} code - The invite code.
+   * @returns {Promise<boolean>} - True if the invite was redeemed.
+   */
+  public async redeemInvite(code: string): Promise<boolean> {
+    try {
+      const record = await this.store.redeemInviteCode(code, this.clock());
+      if (!record) {
+        this.handleError('redeemInvite', 'Invite code is invalid or already redeemed', new Error('Invalid invite code'));
+        return false;
+      }
+      this.emit('onInviteRedeemed', { email: record.email, listId: record.listId ?? DEFAULT_LIST_ID, batchId: record.inviteBatch ?? null });
+      return true;
+    } catch (error) {
+      this.handleError('redeemInvite', 'Failed to redeem invite', error);
+      return false;
+    }
+  }
+
+  /**
+   * Counts a list's subscribers by access state, for the whole list or a single invite batch.
+   * @param {string} [batchId] - Only count subscribers invited in this batch.
+   * @param {string} [listId='default'] - The list to count.
+   * @returns {Promise<InviteFunnel | null>}
+   */
+  public async getInviteFunnel(batchId?: string, listId: string = DEFAULT_LIST_ID): Promise<InviteFunnel | null> {
+    try {
+      const counts = await this.store.countInviteFunnel(listId, batchId);
+      const reached = counts.invited + counts.joined;
+      return { ...counts, conversionRate: reached === 0 ? 0 : counts.joined / reached };
+    } catch (error) {
+      this.handleError('getInviteFunnel', 'Failed to count the invite funnel', error);
+      return null;
+    }
+  }
+
+  /**
+   * Records an open from the token of a tracking pixel.
+   * @param {string} token - The signed open-tracking token.
+   * @returns {Promise<boolean>} - True if the open was recorded, false if the token is invalid or the message is unknown.
+   */
+  public async recordOpen(token: string): Promise<boolean> {
+    const payload = this.verifyTrackingToken('recordOpen', token, 'open');
+    if (!payload) return false;
+
+    try {
+      const entry = await this.store.recordMessageEvent(payload.messageId as string, 'open', this.clock());
+      if (!entry) {
+        this.handleError('recordOpen', 'Message not in log', new Error('Message not found'));
+        return false;
+      }
+      this.emit('onEmailOpened', { email: entry.email, messageId: entry.id, opens: entry.opens });
+      return true;
+    } catch (error) {
+      this.handleError('recordOpen', 'Failed to record open', error);
+      return false;
+    }
+  }
+
+  /**
+   * Records a click from the token of a tracked link. The link target is returned even if the click
+   * cannot be recorded, so subscribers are always redirected.
+   * @param {string} token - The signed click-tracking token.
+   * @returns {Promise<string | null>} - The link target, or null if the token is invalid.
+   */
+  public async recordClick(token: string): Promise<string | null> {
+    const payload = this.verifyTrackingToken('recordClick', token, 'click');
+    if (!payload?.url) return null;
+
+    try {
+      const entry = await this.store.recordMessageEvent(payload.messageId as string, 'click', this.clock());
+      if (entry) {
+        this.emit('onLinkClicked', { email: entry.email, messageId: entry.id, url: payload.url, clicks: entry.clicks });
+      } else {
+        this.handleError('recordClick', 'Message not in log', new Error('Message not found'));
+      }
+    } catch (error) {
+      this.handleError('recordClick', 'Failed to record click', error);
+    }
+    return payload.url;
+  }
+
+  /**
+   * Gets the logged messages sent to an address, newest first.
+   * @param {string} email - The recipient.
+   * @param {string} [listId] - Only return messages sent for this list.
+   * @returns {Promise<MessageLogEntry[]>}
+   */
+  public async getMessageLog(email: string, listId?: string): Promise<MessageLogEntry[]> {
+    try {
+      const messages = await this.store.findMessages(this.resolveEmail(email, listId ?? DEFAULT_LIST_ID));
+      return listId === undefined ? messages : messages.filter(message => (message.listId ?? DEFAULT_LIST_ID) === listId);
+    } catch (error) {
+      this.handleError('getMessageLog', 'Failed to read the message log', error);
+      return [];
+    }
+  }
+
+  /**
+   * Gets open and click rates of logged messages, for every message or a single campaign or template.
+   * @param {MessageFilter} [filter={}] - The campaign or template to count.
+   * @returns {Promise<MessageStats | null>}
+   */
+  public async getMessageStats(filter: MessageFilter = {}): Promise<MessageStats | null> {
+    try {
+      const counts = await this.store.countMessages(filter);
+      return {
+        ...counts,
+        openRate: counts.sent === 0 ? 0 : counts.opened / counts.sent,
+        clickRate: counts.sent === 0 ? 0 : counts.clicked / counts.sent,
+      };
+    } catch (error) {
+      this.handleError('getMessageStats', 'Failed to count messages', error);
+      return null;
+    }
+  }
+
+  /**
+   * Processes a bounce or complaint message received by mail: an RFC 3464 delivery status notification
+   * or an RFC 5965 abuse report. Hard bounces and complaints suppress the address.
+   * @param {string | Buffer} raw - The raw MIME message.
+   * @returns {Promise<BounceEvent[]>} - The processed reports; empty if the message reports no failure.
+   */
+  public async processDsn(raw: string | Buffer): Promise<BounceEvent[]> {
+    return this.processBounceReports('processDsn', parseDsn(raw));
+  }
+
+  /**
+   * Processes the JSON body of a provider's bounce or complaint webhook. Hard bounces and complaints suppress the address.
+   * @param {unknown} payload - The parsed body.
+   * @returns {Promise<BounceEvent[]>} - The processed reports; empty if the payload holds no bounce or complaint.
+   */
+  public async processBounceWebhook(payload: unknown): Promise<BounceEvent[]> {
+    return this.processBounceReports('processBounceWebhook', parseBounceWebhook(payload));
+  }
+
+  /**
+   * Gets the current waitlist from memory. Without `preload` it only holds the emails this process has seen;
+   * use `querySubscribers` to read the store.
+   * @param {string} [listId='default'] - The list to read.
+   * @returns {string[]} - An array of emails in the waitlist.
+   */
+  public getWaitlist(listId: string = DEFAULT_LIST_ID): string[] {
+    return Array.from(this.lists.get(listId)?.emails ?? []);
+  }
+
+  /**
+   * Gets the ids of the configured lists, starting with the default list.
+   * @returns {string[]}
+   */
+  public getLists(): string[] {
+    return Array.from(this.lists.keys());
+  }
+
+  /**
+   * Clears a waitlist. Other lists are left untouched.
+   * @param {string} [listId='default'] - The list to clear.
+   * @returns {Promise<void>}
+   */
+  public async clearWaitlist(listId: string = DEFAULT_LIST_ID): Promise<void> {
+    const list = this.lists.get(listId);
+    if (!list) {
+      this.handleError('clearWaitlist', 'Unknown list', new Error(`List ${listId} is not configured`));
+      return;
+    }
+
+    list.emails.clear();
+    await this.store.clear(listId);
+
+    this.emit('onWaitlistCleared');
+  }
+
+  /**
+   * Sends a confirmation email.
+   * @param {string} email - The email to send to.
+   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
+   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
+   * @param {string} [listId='default'] - The list the email is on.
+   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   */
+  public async sendConfirmation(
+    email: string,
+    subjectTemplate: (email: string) => string,
+    bodyTemplate: (email: string) => string,
+    listId: string = DEFAULT_LIST_ID
+  ): Promise<boolean> {
+    return this.sendMessage(email, subjectTemplate, bodyTemplate, listId);
+  }
+
+  /**
+   * Sends an email to a subscriber, recording what it was sent for in the message log.
+   * @private
+   * @param {string} email - The email to send to.
+   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
+   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
+   * @param {string} [listId='default'] - The list the email is on.
+   * @param {MessageContext} [context={}] - The template or campaign the email belongs to.
+   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   */
+  private async sendMessage(
+    email: string,
+    subjectTemplate: (email: string) => string,
+    bodyTemplate: (email: string) => string,
+    listId: string = DEFAULT_LIST_ID,
+    context: MessageContext = {}
+  ): Promise<boolean> {
+    email = this.resolveEmail(email, listId);
+    if (!(await this.hasEmail(email, listId))) {
+      this.handleError('sendConfirmation', 'Email not in waitlist', new Error('Email not found'));
+      return false;
+    }
+
+    try {
+      if (!(await this.canSendTo(email, 'sendConfirmation', listId))) {
+        return false;
+      }
+
+      await this.deliverMail(email, subjectTemplate(email), bodyTemplate(email), undefined, listId, context);
+      this.emit('onEmailSent', email);
+      return true;
+    } catch (error) {
+      this.handleError('sendConfirmation', 'Failed to send confirmation', error);
+      return false;
+    }
+  }
+
+  /**
+   * Sends a confirmation email using a template file. The file is read and compiled on first use and cached by path.
+   * The template receives `email`, `companyName`, `position`, `referralCode`, `referralLink` and `unsubscribeUrl`, plus any replacements.
+   * @param {string} email - The email to send to.
+   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
+   * @param {string} templatePath - The path to the template file.
+   * @param {Record<string, string>} [replacements={}] - Replacements for the template.
+   * @param {string} [listId='default'] - The list the email is on.
+   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   */
+  public async sendConfirmationFromFile(
+    email: string,
+    subjectTemplate: (email: string) => string,
+    templatePath: string,
+    replacements: Record<string, string> = {},
+    listId: string = DEFAULT_LIST_ID
+  ): Promise<boolean> {
+    email = this.resolveEmail(email, listId);
+    try {
+      let template = this.fileTemplates.get(templatePath);
+      if (!template) {
+        const templateContent = await readFile(templatePath, 'utf8');
+        if (!templateContent) {
+          throw new Error('Template file is empty');
+        }
+        template = Handlebars.compile(templateContent);
+        this.fileTemplates.set(templatePath, template);
+      }
+      const html = template(await this.buildTemplateContext(email, replacements, listId));
+
+      return this.sendMessage(email, subjectTemplate, () => html, listId, { template: templatePath });
+    } catch (error) {
+      this.handleError('sendConfirmationFromFile', 'Template processing failed', error);
+      return false;
+    }
+  }
+
+  /**
+   * Sends an email rendered from the list's template registry in the subscriber's locale.
+   * The template receives the same data as `sendConfirmationFromFile`, plus `locale`. The subject comes from
+   * `subjectTemplate` if given, otherwise from the template's front matter; the plain-text part comes from
+   * the sibling `.txt.hbs` template if there is one, otherwise it is generated from the HTML.
+   * @param {string} email - The email to send to.
+   * @param {string} templateName - The registered template name (e.g., `welcome`).
+   * @param {((email: string, locale: string) => string) | null} [subjectTemplate] - A function to generate the email subject.
+   * @param {Record<string, string>} [replacements={}] - Extra template data.
+   * @param {string} [listId='default'] - The list the email is on.
+   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   */
+  public async sendTemplate(
+    email: string,
+    templateName: string,
+    subjectTemplate?: ((email: string, locale: string) => string) | null,
+    replacements: Record<string, string> = {},
+    listId: string = DEFAULT_LIST_ID
+  ): Promise<boolean> {
+    email = this.resolveEmail(email, listId);
+    const list = this.lists.get(listId);
+    if (!list || !(await this.hasEmail(email, listId))) {
+      this.handleError('sendTemplate', 'Email not in waitlist', new Error('Email not found'));
+      return false;
+    }
+
+    const templates = list.templates;
+    if (!templates) {
+      this.handleError('sendTemplate', 'Templates are not configured', new Error('No template directory'));
+      return false;
+    }
+
+    try {
+      if (!(await this.canSendTo(email, 'sendTemplate', listId))) {
+        return false;
+      }
+
+      const { message, locale } = await this.renderRegistryTemplate(email, templateName, replacements, listId);
+      const subject = subjectTemplate ? subjectTemplate(email, locale) : message.subject;
+      if (!subject) {
+        throw new Error(`Template ${templateName} has no subject`);
+      }
+
+      await this.deliverMail(email, subject, message.html, message.text, listId, { template: templateName });
+      this.emit('onEmailSent', email);
+      return true;
+    } catch (error) {
+      this.handleError('sendTemplate', 'Template processing failed', error);
+      return false;
+    }
+  }
+
+  /**
+   * Gets a subscriber's custom fields.
+   * @param {string} email - The subscriber.
+   * @param {string} [listId='default'] - The list the subscriber is on.
+   * @returns {Promise<SubscriberFields | null>} - The fields, or null if the email is not on the waitlist.
+   */
+  public async getFields(email: string, listId: string = DEFAULT_LIST_ID): Promise<SubscriberFields | null> {
+    email = this.resolveEmail(email, listId);
+    try {
+      const record = await this.store.findOne(email, listId);
+      return record ? record.fields ?? {} : null;
+    } catch (error) {
+      this.handleError('getFields', 'Failed to load fields', error);
+      return null;
+    }
+  }
+
+  /**
+   * Merges new values into a subscriber's custom fields and validates the result against the schema.
+   * Set a field to undefined to remove it.
+   * @param {string} email - The subscriber.
+   * @param {SubscriberFields} fields - The values to merge.
+   * @param {string} [listId='default'] - The list the subscriber is on.
+   * @returns {Promise<boolean>} - True if the fields were valid and saved, false otherwise.
+   */
+  public async updateFields(email: string, fields: SubscriberFields, listId: string = DEFAULT_LIST_ID): Promise<boolean> {
+    email = this.resolveEmail(email, listId);
+    try {
+      const record = await this.store.findOne(email, listId);
+      if (!record) {
+        this.handleError('updateFields', 'Email not in waitlist', new Error('Email not found'));
+        return false;
+      }
+
+      const merged = Object.fromEntries(
+        Object.entries({ ...record.fields, ...fields }).filter(([, value]) => value !== undefined)
+      );
+      const validation = this.validateFields(merged);
+      if (!validation.isValid) {
+        this.emit('onValidationError', { isValid: false, message: validation.message });
+        return false;
+      }
+
+      await this.store.update(email, { fields: validation.value }, listId);
+      return true;
+    } catch (error) {
+      this.handleError('updateFields', 'Failed to update fields', error);
+      return false;
+    }
+  }
+
+  /**
+   * Sets a subscriber's preferred locale.
+   * @param {string} email - The subscriber.
+   * @param {string | null} locale - The locale (e.g., `es`), or null to use the default.
+   * @param {string} [listId='default'] - The list the subscriber is on.
+   * @returns {Promise<boolean>} - True if the subscriber exists and was updated, false otherwise.
+   */
+  public async setLocale(email: string, locale: string | null, listId: string = DEFAULT_LIST_ID): Promise<boolean> {
+    email = this.resolveEmail(email, listId);
+    try {
+      if (!(await this.store.findOne(email, listId))) {
+        this.handleError('setLocale', 'Email not in waitlist', new Error('Email not found'));
+        return false;
+      }
+      await this.store.update(email, { locale }, listId);
+      return true;
+    } catch (error) {
+      this.handleError('setLocale', 'Failed to update locale', error);
+      return false;
+    }
+  }
+
+  /**
+   * Gets a subscriber's tags.
+   * @param {string} email - The subscriber.
+   * @param {string} [listId='default'] - The list the subscriber is on.
+   * @returns {Promise<string[] | null>} - The tags, or null if the email is not on the waitlist.
+   */
+  public async getTags(email: string, listId: string = DEFAULT_LIST_ID): Promise<string[] | null> {
+    email = this.resolveEmail(email, listId);
+    try {
+      const record = await this.store.findOne(email, listId);
+      return record ? record.tags ?? [] : null;
+    } catch (error) {
+      this.handleError('getTags', 'Failed to load tags', error);
+      return null;
+    }
+  }
+
+  /**
+   * Adds tags to a subscriber. Tags the subscriber already has are ignored.
+   * @param {string} email - The subscriber.
+   * @param {string[]} tags - The tags to add; they may not contain commas.
+   * @param {string} [listId='default'] - The list the subscriber is on.
+   * @returns {Promise<boolean>} - True if the tags were valid and saved, false otherwise.
+   */
+  public async addTags(email: string, tags: string[], listId: string = DEFAULT_LIST_ID): Promise<boolean> {
+    email = this.resolveEmail(email, listId);
+    const validation = this.validateTags(tags);
+    if (!validation.isValid) {
+      this.emit('onValidationError', { isValid: false, message: validation.message });
+      return false;
+    }
+
+    try {
+      const record = await this.store.findOne(email, listId);
+      if (!record) {
+        this.handleError('addTags', 'Email not in waitlist', new Error('Email not found'));
+        return false;
+      }
+      const merged = Array.from(new Set([...(record.tags ?? []), ...(validation.value as string[])]));
+      await this.store.update(email, { tags: merged }, listId);
+      return true;
+    } catch (error) {
+      this.handleError('addTags', 'Failed to add tags', error);
+      return false;
+    }
+  }
+
+  /**
+   * Removes tags from a subscriber.
+   * @param {string} email - The subscriber.
+   * @param {string[]} tags - The tags to remove.
+   * @param {string} [listId='default'] - The list the subscriber is on.
+   * @returns {Promise<boolean>} - True if the subscriber exists and was updated, false otherwise.
+   */
+  public async removeTags(email: string, tags: string[], listId: string = DEFAULT_LIST_ID): Promise<boolean> {
+    email = this.resolveEmail(email, listId);
+    try {
+      const record = await this.store.findOne(email, listId);
+      if (!record) {
+        this.handleError('removeTags', 'Email not in waitlist', new Error('Email not found'));
+        return false;
+      }
+      await this.store.update(email, { tags: (record.tags ?? []).filter(tag => !tags.includes(tag)) }, listId);
+      return true;
+    } catch (error) {
+      this.handleError('removeTags', 'Failed to remove tags', error);
+      return false;
+    }
+  }
+
+  /**
+   * Extends or replaces the disposable domains rejected by signup protection (`protection.blockDisposable`).
+   * @param {string[]} domains - The domains, e.g. from a regularly updated community list.
+   * @param {boolean} [replace=false] - Whether the domains replace the current list instead of extending it.
+   * @returns {number} - The number of disposable domains now on the list.
+   */
+  public updateDisposableDomains(domains: string[], replace: boolean = false): number {
+    return this.signupGuard.updateDisposableDomains(domains, replace);
+  }
+
+  /**
+   * Gets the canonical form of an email under the configured `normalization` rules,
+   * i.e. the address the email is stored and reported under.
+   * @param {string} email - The email as entered.
+   * @returns {string}
+   */
+  public normalizeEmail(email: string): string {
+    return this.normalization === false ? email : normalizeEmail(email, this.normalization);
+  }
+
+  /**
+   * Sends a confirmation email with retry logic.
+   * @deprecated Retries wait in memory and are lost if the process stops; use `enqueueConfirmation`, whose jobs are
+   * persisted and retried with backoff by the queue worker.
+   * @param {string} email - The email to send to.
+   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
+   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
+   * @param {number} [maxRetries=3] - The maximum number of retry attempts.
+   * @param {number} [retryDelay=1000] - The delay between retries in milliseconds.
+   * @param {string} [listId='default'] - The list the email is on.
+   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   */
+  public async sendConfirmationWithRetry(
+    email: string,
+    subjectTemplate: (email: string) => string,
+    bodyTemplate: (email: string) => string,
+    maxRetries: number = 3,
+    retryDelay: number = 1000,
+    listId: string = DEFAULT_LIST_ID
+  ): Promise<boolean> {
+    return this.sendWithRetry(email, subjectTemplate, bodyTemplate, maxRetries, retryDelay, listId);
+  }
+
+  /**
+   * Sends an email with retry logic, recording what it was sent for in the message log.
+   * @private
+   * @param {string} email - The email to send to.
+   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
+   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
+   * @param {number} maxRetries - The maximum number of retry attempts.
+   * @param {number} retryDelay - The delay between retries in milliseconds.
+   * @param {string} [listId='default'] - The list the email is on.
+   * @param {MessageContext} [context={}] - The template or campaign the email belongs to.
+   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   */
+  private async sendWithRetry(
+    email: string,
+    subjectTemplate: (email: string) => string,
+    bodyTemplate: (email: string) => string,
+    maxRetries: number,
+    retryDelay: number,
+    listId: string = DEFAULT_LIST_ID,
+    context: MessageContext = {}
+  ): Promise<boolean> {
+    email = this.resolveEmail(email, listId);
+    if (!(await this.canSendTo(email, 'sendConfirmationWithRetry', listId))) {
+      return false;
+    }
+    return this.retrySend(email, subjectTemplate, bodyTemplate, maxRetries, retryDelay, listId, context);
+  }
+
+  /**
+   * Sends an email to an address already checked with `canSendTo`, retrying failed attempts after `retryDelay`.
+   * @private
+   * @param {string} email - The canonical email to send to.
+   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
+   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
+   * @param {number} maxRetries - The maximum number of retry attempts.
+   * @param {number} retryDelay - The delay between retries in milliseconds.
+   * @param {string} listId - The list the email is on.
+   * @param {MessageContext} context - The template or campaign the email belongs to.
+   * @returns {Promise<boolean>} - True if the email was sent successfully, false otherwise.
+   */
+  private async retrySend(
+    email: string,
+    subjectTemplate: (email: string) => string,
+    bodyTemplate: (email: string) => string,
+    maxRetries: number,
+    retryDelay: number,
+    listId: string,
+    context: MessageContext
+  ): Promise<boolean> {
+    for (let attempt = 0; attempt <= maxRetries && !this.closing; attempt++) {
+      try {
+        const result = await this.sendMessage(email, subjectTemplate, bodyTemplate, listId, context);
+        if (result) return true;
+
+        if (attempt < maxRetries && !this.closing) {
+          await new Promise(resolve => setTimeout(resolve, retryDelay));
+          this.metrics?.increment(METRICS.retries, { source: 'direct' });
+          this.emit('onEmailRetry', email, attempt + 1);
+        }
+      } catch (error) {
+        this.handleError('sendConfirmationWithRetry', `Attempt ${attempt + 1} failed`, error);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Sends confirmation emails to all emails in a waitlist, or to `options.segment` (only confirmed ones when double opt-in is enabled).
+   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
+   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
+   * @param {number} [maxRetries=3] - The maximum number of retry attempts per email.
+   * @param {number} [retryDelay=1000] - The delay between retries in milliseconds.
+   * @param {BulkSendOptions} [options={}] - The list, segment and concurrency of the run.
+   * @returns {Promise<number>} - The number of successfully sent emails.
+   */
+  public async sendBulkConfirmation(
+    subjectTemplate: (email: string) => string,
+    bodyTemplate: (email: string) => string,
+    maxRetries: number = 3,
+    retryDelay: number = 1000,
+    options: BulkSendOptions = {}
+  ): Promise<number> {
+    const listId = options.listId ?? DEFAULT_LIST_ID;
+    if (!this.lists.has(listId)) {
+      this.handleError('sendBulkConfirmation', 'Unknown list', new Error(`List ${listId} is not configured`));
+      return 0;
+    }
+
+    let emails: string[];
+    try {
+      emails = await this.getEligibleRecipients(options.segment, listId);
+    } catch (error) {
+      this.handleError('sendBulkConfirmation', 'Failed to load recipients', error);
+      return 0;
+    }
+    const startedAt = Date.now();
+    let successCount = 0;
+    let failedCount = 0;
+
+    const reportProgress = () => {
+      const done = successCount + failedCount;
+      const remaining = emails.length - done;
+      const progress: BulkProgress = {
+        total: emails.length,
+        sent: successCount,
+        failed: failedCount,
+        remaining,
+        etaMs: done > 0 ? Math.round(((Date.now() - startedAt) / done) * remaining) : null,
+      };
+      this.emit('onBulkProgress', progress);
+    };
+
+    await this.runConcurrently(emails, options.concurrency ?? 1, async email => {
+      if (this.closing) return false;
+      const success = await this.sendWithRetry(
+        email,
+        subjectTemplate,
+        bodyTemplate,
+        maxRetries,
+        retryDelay,
+        listId
+      );
+      if (!success && this.closing) return false;
+      if (success) successCount++;
+      else failedCount++;
+      reportProgress();
+      return true;
+    });
+
+    this.emit('onBulkConfirmationComplete', { successCount, total: emails.length });
+    return successCount;
+  }
+
+  /**
+   * Starts (or restarts) a named campaign. Every eligible recipient gets a delivery row;
+   * recipients already marked delivered are skipped, so rerunning a crashed campaign never mails anyone twice.
+   * @param {string} id - The campaign name.
+   * @param {CampaignTemplate} template - The subject and body generators.
+   * @param {CampaignOptions} [options={}] - Retry and concurrency settings.
+   * @returns {Promise<CampaignStatus | null>} - The campaign status once the run stops, or null on failure.
+   */
+  public async startCampaign(id: string, template: CampaignTemplate, options: CampaignOptions = {}): Promise<CampaignStatus | null> {
+    try {
+      const campaign = await this.store.findCampaign(id);
+      if (campaign?.status === 'cancelled') {
+        this.handleError('startCampaign', 'Campaign was cancelled', new Error(`Campaign ${id} is cancelled`));
+        return this.getCampaignStatus(id);
+      }
+      if (this.campaignStates.get(id) === 'running') {
+        this.handleError('startCampaign', 'Campaign is already running', new Error(`Campaign ${id} is running`));
+        return this.getCampaignStatus(id);
+      }
+
+      const recipients = await this.getEligibleRecipients(options.segment, options.listId);
+      await this.store.saveCampaign({ id, status: 'running' });
+      await this.store.addCampaignRecipients(id, recipients);
+      this.campaignTemplates.set(id, { template, options });
+      this.campaignStates.set(id, 'running');
+      this.emit('onCampaignStarted', id);
+
+      return await this.runCampaign(id);
+    } catch (error) {
+      this.handleError('startCampaign', 'Campaign failed', error);
+      return null;
+    }
+  }
+
+  /**
+   * Pauses a running campaign. In-flight sends finish; no new recipients are started.
+   * @param {string} id - The campaign id.
+   * @returns {Promise<boolean>} - True if the campaign was paused.
+   */
+  public async pauseCampaign(id: string): Promise<boolean> {
+    try {
+      const paused = await this.transitionCampaign(id, 'paused', ['running']);
+      if (paused) this.emit('onCampaignPaused', id);
+      return paused;
+    } catch (error) {
+      this.handleError('pauseCampaign', 'Failed to pause campaign', error);
+      return false;
+    }
+  }
+
+  /**
+   * Resumes a paused campaign.
+   * @param {string} id - The campaign id.
+   * @param {CampaignTemplate} [template] - The templates; required when resuming in a different process than the one that started it.
+   * @param {CampaignOptions} [options] - Retry and concurrency settings; defaults to those of the original run.
+   * @returns {Promise<CampaignStatus | null>} - The campaign status once the run stops, or null on failure.
+   */
+  public async resumeCampaign(id: string, template?: CampaignTemplate, options?: CampaignOptions): Promise<CampaignStatus | null> {
+    try {
+      const previous = this.campaignTemplates.get(id);
+      const resolvedTemplate = template ?? previous?.template;
+      if (!resolvedTemplate) {
+        this.handleError('resumeCampaign', 'Campaign template is required', new Error(`No template known for campaign ${id}`));
+        return null;
+      }
+      if (!(await this.transitionCampaign(id, 'running', ['paused']))) {
+        return this.getCampaignStatus(id);
+      }
+
+      this.campaignTemplates.set(id, { template: resolvedTemplate, options: options ?? previous?.options ?? {} });
+      this.emit('onCampaignResumed', id);
+      return await this.runCampaign(id);
+    } catch (error) {
+      this.handleError('resumeCampaign', 'Campaign failed', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancels a campaign. Undelivered recipients stay pending and the campaign cannot be restarted.
+   * @param {string} id - The campaign id.
+   * @returns {Promise<boolean>} - True if the campaign was cancelled.
+   */
+  public async cancelCampaign(id: string): Promise<boolean> {
+    try {
+      const cancelled = await this.transitionCampaign(id, 'cancelled', ['running', 'paused']);
+      if (cancelled) this.emit('onCampaignCancelled', id);
+      return cancelled;
+    } catch (error) {
+      this.handleError('cancelCampaign', 'Failed to cancel campaign', error);
+      return false;
+    }
+  }
+
+  /**
+   * Gets a campaign's state and delivery counts.
+   * @param {string} id - The campaign id.
+   * @returns {Promise<CampaignStatus | null>} - The status, or null if the campaign does not exist.
+   */
+  public async getCampaignStatus(id: string): Promise<CampaignStatus | null> {
+    try {
+      const campaign = await this.store.findCampaign(id);
+      if (!campaign) return null;
+
+      const counts = await this.store.countCampaignDeliveries(id);
+      return {
+        id,
+        status: campaign.status,
+        counts,
+        total: counts.pending + counts.sending + counts.delivered + counts.failed + counts.skipped,
+      };
+    } catch (error) {
+      this.handleError('getCampaignStatus', 'Failed to load campaign status', error);
+      return null;
+    }
+  }
+
+  /**
+   * Finds emails in a waitlist that match a pattern.
+   * @param {string} pattern - The pattern to search for.
+   * @param {string} [listId='default'] - The list to search.
+   * @returns {Promise<string[]>} - An array of matching emails.
+   */
+  public async findEmailsByPattern(pattern: string, listId: string = DEFAULT_LIST_ID): Promise<string[]> {
+    try {
+      return await this.store.findByPattern(pattern, listId);
+    } catch (error) {
+      this.handleError('findEmailsByPattern', 'Search failed', error);
+      return [];
+    }
+  }
+
+  /**
+   * Queries the waitlist with a segment filter, sorting and pagination. Every list is searched unless the filter names one.
+   * @param {SegmentQuery} [query={}] - The filter, sort order and page.
+   * @returns {Promise<SegmentPage>} - The matching entries and the size of the whole segment.
+   * @example
+   * await mailer.querySubscribers({
+   *   filter: { email: { domain: 'acme.com' }, fields: { seats: { gte: 10 } }, tags: { any: ['beta'] } },
+   *   sort: { field: 'referralCount', direction: 'desc' },
+   *   limit: 50,
+   * });
+   */
+  public async querySubscribers(query: SegmentQuery = {}): Promise<SegmentPage> {
+    try {
+      return await this.store.findSegment(query);
+    } catch (error) {
+      this.handleError('querySubscribers', 'Query failed', error);
+      return { items: [], total: 0 };
+    }
+  }
+
+  /**
+   * Counts the entries of a segment.
+   * @param {SegmentFilter} [filter={}] - The segment.
+   * @returns {Promise<number>} - The number of matching entries.
+   */
+  public async countSubscribers(filter: SegmentFilter = {}): Promise<number> {
+    try {
+      return (await this.store.findSegment({ filter, limit: 0 })).total;
+    } catch (error) {
+      this.handleError('countSubscribers', 'Count failed', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Counts the number of emails in a waitlist within a date range.
+   * @param {Date} [start] - The start date of the range.
+   * @param {Date} [end] - The end date of the range.
+   * @param {string} [listId='default'] - The list to count.
+   * @returns {Promise<number>} - The count of emails.
+   */
+  public async countWaitlistByDate(start?: Date, end?: Date, listId: string = DEFAULT_LIST_ID): Promise<number> {
+    try {
+      return await this.store.countByDate(start, end, listId);
+    } catch (error) {
+      this.handleError('countWaitlistByDate', 'Count failed', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Saves an in-memory waitlist to the store. Needs `preload`, since without it the in-memory list is partial
+   * and saving it would drop every entry this process has not seen.
+   * @param {string} [listId='default'] - The list to save.
+   * @returns {Promise<boolean>} - True if the waitlist was saved successfully, false otherwise.
+   */
+  public async saveWaitlist(listId: string = DEFAULT_LIST_ID): Promise<boolean> {
+    if (!this.preload) {
+      this.handleError('saveWaitlist', 'Save failed', new Error('Saving a waitlist requires preload'));
+      return false;
+    }
+    try {
+      const emails = Array.from(this.getList(listId).emails);
+      await this.store.replaceAll(emails, listId);
+      this.emit('onWaitlistSaved', emails);
+      return true;
     } catch (error) {
       this.handleError('saveWaitlist', 'Save failed', error);
       return false;
     }
-  }  
+  }
+
+  /**
+   * Streams a waitlist to CSV or NDJSON, reading the store a page at a time and respecting backpressure.
+   * Each entry has its email, `createdAt`, status and custom fields; CSV has one column per field declared in the fields schema.
+   * The stream is ended once every entry is written.
+   * @param {TransferFormat} format - `csv` or `ndjson`.
+   * @param {Writable} stream - The destination, e.g. a file or HTTP response.
+   * @param {ExportOptions} [options={}] - The list to export and the page size.
+   * @returns {Promise<number | null>} - The number of exported entries, or null if the export failed.
+   */
+  public async exportWaitlist(format: TransferFormat, stream: Writable, options: ExportOptions = {}): Promise<number | null> {
+    const listId = options.listId ?? DEFAULT_LIST_ID;
+    const batchSize = options.batchSize ?? 500;
+
+    if (!TRANSFER_FORMATS.includes(format)) {
+      this.handleError('exportWaitlist', 'Unsupported format', new Error(`Unknown format: ${format}`));
+      return null;
+    }
+    if (!this.lists.has(listId)) {
+      this.handleError('exportWaitlist', 'Unknown list', new Error(`List ${listId} is not configured`));
+      return null;
+    }
+
+    try {
+      const fieldNames = this.getFieldNames();
+      if (format === 'csv') {
+        await writeChunk(stream, toCsvLine([...TRANSFER_COLUMNS, ...fieldNames]));
+      }
+
+      let count = 0;
+      for (let offset = 0; ; offset += batchSize) {
+        const { items } = await this.store.findSegment({ filter: { listId }, limit: batchSize, offset });
+        for (const record of items) {
+          const fields = record.fields ?? {};
+          const status = record.status ?? 'confirmed';
+          await writeChunk(stream, format === 'csv'
+            ? toCsvLine([record.email, record.createdAt, status, ...fieldNames.map(name => fields[name])])
+            : `${JSON.stringify({ email: record.email, createdAt: record.createdAt, status, fields })}\n`);
+        }
+        count += items.length;
+        if (items.length < batchSize) break;
+      }
+
+      stream.end();
+      this.emit('onWaitlistExported', { format, listId, count });
+      return count;
+    } catch (error) {
+      this.handleError('exportWaitlist', 'Export failed', error);
+      return null;
+    }
+  }
+
+  /**
+   * Imports a CSV or NDJSON stream (as written by `exportWaitlist`) into a waitlist, one row at a time.
+   * Rows are validated like signups and new entries are saved in batches. Imported entries get no emails;
+   * rows without a status are confirmed and rows without `createdAt` are dated now.
+   * @param {Readable} stream - The source, e.g. a file or HTTP request.
+   * @param {ImportOptions} [options={}] - The format, duplicate handling, target list and batch size.
+   * @returns {Promise<WaitlistImportReport>} - The imported and updated counts and the skipped and rejected rows with their line numbers.
+   */
+  public async importWaitlist(stream: Readable, options: ImportOptions = {}): Promise<WaitlistImportReport> {
+    const report: WaitlistImportReport = { imported: 0, updated: 0, duplicates: [], invalid: [] };
+    const format = options.format ?? 'csv';
+    const listId = options.listId ?? DEFAULT_LIST_ID;
+    const batchSize = options.batchSize ?? 500;
+    const list = this.lists.get(listId);
+
+    if (!TRANSFER_FORMATS.includes(format)) {
+      this.handleError('importWaitlist', 'Unsupported format', new Error(`Unknown format: ${format}`));
+      return report;
+    }
+    if (!list) {
+      this.handleError('importWaitlist', 'Unknown list', new Error(`List ${listId} is not configured`));
+      return report;
+    }
+
+    // New entries are claimed as pending signups right away so concurrent signups see them as duplicates
+    const pending = new Map<string, { line: number; record: WaitlistAttributes }>();
+    const flush = async () => {
+      if (pending.size === 0) return;
+      const batch = Array.from(pending.values());
+      pending.clear();
+      try {
+        await this.store.insertMany(batch.map(entry => entry.record));
+        report.imported += batch.length;
+        batch.forEach(({ record }) => list.emails.add(record.email));
+      } catch {
+        // Part of the batch may have been saved before the failure, so each row is retried on its own;
+        // a row that is already there was saved by the batch
+        for (const { line, record } of batch) {
+          try {
+            await this.store.insert(record);
+          } catch (error) {
+            if (!(error instanceof DuplicateEmailError)) {
+              this.handleError('importWaitlist', 'Failed to save imported entry', error);
+              report.invalid.push({ line, email: record.email, message: 'Failed to save' });
+              continue;
+            }
+          }
+          report.imported++;
+          list.emails.add(record.email);
+        }
+      } finally {
+        batch.forEach(({ record }) => list.pending.delete(record.email));
+      }
+    };
+
+    try {
+      for await (const row of readRows(stream, format)) {
+        if (!row.record) {
+          report.invalid.push({ line: row.line, email: '', message: row.error ?? 'Unreadable row' });
+          continue;
+        }
+
+        const { email, originalEmail, message, changes = {} } = this.parseImportRow(row.record, format);
+        if (message) {
+          report.invalid.push({ line: row.line, email, message });
+          continue;
+        }
+
+        if (!list.pending.has(email) && !(await this.hasEmail(email, listId))) {
+          list.pending.add(email);
+          const referralCode = await this.generateReferralCode();
+          const record = { ...changes, email, originalEmail, listId, status: changes.status ?? 'confirmed', referralCode, referralCount: 0 };
+          pending.set(email, { line: row.line, record });
+          if (pending.size >= batchSize) await flush();
+          continue;
+        }
+
+        // Updates never move an entry in the queue, so the signup date is kept
+        const updates = { ...changes };
+        delete updates.createdAt;
+        const queued = pending.get(email);
+        if (options.onDuplicate !== 'update' || Object.keys(updates).length === 0) {
+          report.duplicates.push({ line: row.line, email, message: 'Duplicate email' });
+        } else if (queued) {
+          Object.assign(queued.record, updates);
+          report.updated++;
+        } else {
+          try {
+            await this.store.update(email, updates, listId);
+            report.updated++;
+          } catch (error) {
+            this.handleError('importWaitlist', 'Failed to update imported entry', error);
+            report.invalid.push({ line: row.line, email, message: 'Failed to save' });
+          }
+        }
+      }
+      await flush();
+    } catch (error) {
+      this.handleError('importWaitlist', 'Import failed', error);
+      await flush();
+    }
+
+    this.emit('onWaitlistImported', report);
+    return report;
+  }
+
+  /**
+   * Renames stored entries to their canonical address, e.g. after upgrading or changing the `normalization` rules.
+   * Entries of a list that share a canonical address are left untouched and reported as collisions;
+   * merge or remove all but one of them, then migrate again.
+   * @param {EmailMigrationOptions} [options={}] - The list to migrate and whether to only report.
+   * @returns {Promise<EmailMigrationReport | null>} - The renamed count and the collisions, or null if the migration failed.
+   */
+  public async migrateEmailNormalization(options: EmailMigrationOptions = {}): Promise<EmailMigrationReport | null> {
+    if (options.listId !== undefined && !this.lists.has(options.listId)) {
+      this.handleError('migrateEmailNormalization', 'Unknown list', new Error(`List ${options.listId} is not configured`));
+      return null;
+    }
+
+    const report: EmailMigrationReport = { migrated: 0, collisions: [] };
+    try {
+      for (const listId of options.listId === undefined ? this.getLists() : [options.listId]) {
+        const list = this.getList(listId);
+        const groups = new Map<string, WaitlistAttributes[]>();
+        for (const record of await this.store.findAll(listId)) {
+          const canonicalEmail = this.normalizeEmail(record.email);
+          groups.set(canonicalEmail, [...(groups.get(canonicalEmail) ?? []), record]);
+        }
+
+        for (const [canonicalEmail, records] of groups) {
+          if (records.length > 1) {
+            report.collisions.push({ listId, canonicalEmail, emails: records.map(record => record.email) });
+            continue;
+          }
+          const [record] = records;
+          if (record.email === canonicalEmail) continue;
+
+          report.migrated++;
+          if (options.dryRun) continue;
+          await this.store.update(record.email, { email: canonicalEmail, originalEmail: record.originalEmail ?? record.email }, listId);
+          list.emails.delete(record.email);
+          list.emails.add(canonicalEmail);
+        }
+      }
+    } catch (error) {
+      this.handleError('migrateEmailNormalization', 'Failed to migrate emails', error);
+      return null;
+    }
+
+    this.emit('onEmailsMigrated', report);
+    return report;
+  }
+
+  /**
+   * Renders a confirmation email and adds it to the persisted send queue.
+   * @param {string} email - The email to send to.
+   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
+   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
+   * @param {string} [listId='default'] - The list the email is on.
+   * @returns {Promise<string | null>} - The job id, or null if the email cannot be queued.
+   */
+  public async enqueueConfirmation(
+    email: string,
+    subjectTemplate: (email: string) => string,
+    bodyTemplate: (email: string) => string,
+    listId: string = DEFAULT_LIST_ID
+  ): Promise<string | null> {
+    email = this.resolveEmail(email, listId);
+    if (!(await this.hasEmail(email, listId))) {
+      this.handleError('enqueueConfirmation', 'Email not in waitlist', new Error('Email not found'));
+      return null;
+    }
+
+    try {
+      if (!(await this.canSendTo(email, 'enqueueConfirmation', listId))) {
+        return null;
+      }
+
+      const now = this.clock();
+      const job: SendJob = {
+        id: randomBytes(12).toString('hex'),
+        email,
+        listId,
+        subject: subjectTemplate(email),
+        html: bodyTemplate(email),
+        status: 'queued',
+        attempts: 0,
+        nextAttemptAt: now,
+        lastError: null,
+        createdAt: now,
+      };
+      await this.store.enqueueJob(job);
+      this.emit('onJobQueued', job.id, email);
+      return job.id;
+    } catch (error) {
+      this.handleError('enqueueConfirmation', 'Failed to queue confirmation', error);
+      return null;
+    }
+  }
+
+  /**
+   * Queues confirmation emails for every eligible email in a waitlist, or in a segment of it.
+   * @param {(email: string) => string} subjectTemplate - A function to generate the email subject.
+   * @param {(email: string) => string} bodyTemplate - A function to generate the email body.
+   * @param {SegmentFilter} [segment] - Limits the queued emails to a segment.
+   * @param {string} [listId='default'] - The list to queue emails for.
+   * @returns {Promise<number>} - The number of queued emails.
+   */
+  public async enqueueBulkConfirmation(
+    subjectTemplate: (email: string) => string,
+    bodyTemplate: (email: string) => string,
+    segment?: SegmentFilter,
+    listId: string = DEFAULT_LIST_ID
+  ): Promise<number> {
+    if (!this.lists.has(listId)) {
+      this.handleError('enqueueBulkConfirmation', 'Unknown list', new Error(`List ${listId} is not configured`));
+      return 0;
+    }
+
+    try {
+      const emails = await this.getEligibleRecipients(segment, listId);
+      let queuedCount = 0;
+
+      for (const email of emails) {
+        if (await this.enqueueConfirmation(email, subjectTemplate, bodyTemplate, listId)) queuedCount++;
+      }
+      return queuedCount;
+    } catch (error) {
+      this.handleError('enqueueBulkConfirmation', 'Failed to queue confirmations', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Processes one batch of due jobs from the send queue.
+   * The worker calls this on every poll; it can also be called directly.
+   * @returns {Promise<number>} - The number of jobs processed.
+   */
+  public async processQueue(): Promise<number> {
+    if (this.queueProcessing || this.closing) return 0;
+    this.queueProcessing = true;
+    const done = this.beginWork();
+
+    try {
+      const { batchSize = 10, leaseTimeout = 60 * 1000 } = this.queueOptions ?? {};
+      const now = this.clock();
+      const jobs = await this.store.claimDueJobs(now, batchSize, new Date(now.getTime() + leaseTimeout));
+      for (const job of jobs) {
+        // Jobs not started before close() are handed back untouched, so a shutdown never counts as an attempt
+        if (this.closing) await this.store.updateJob(job.id, { status: 'queued', nextAttemptAt: now });
+        else await this.runJob(job);
+      }
+      return jobs.length;
+    } catch (error) {
+      this.handleError('processQueue', 'Queue processing failed', error);
+      return 0;
+    } finally {
+      this.queueProcessing = false;
+      done();
+    }
+  }
+
+  /**
+   * Starts polling the send queue. Jobs left over from a previous run are picked up automatically.
+   */
+  public startQueueWorker(): void {
+    if (this.queueTimer) return;
+    const pollInterval = this.queueOptions?.pollInterval ?? 5000;
+    this.queueTimer = setInterval(() => this.processQueue(), pollInterval);
+    this.queueTimer.unref();
+    this.emit('onQueueWorkerStarted');
+  }
+
+  /**
+   * Stops polling the send queue.
+   */
+  public stopQueueWorker(): void {
+    if (!this.queueTimer) return;
+    clearInterval(this.queueTimer);
+    this.queueTimer = undefined;
+    this.emit('onQueueWorkerStopped');
+  }
+
+  /**
+   * Lists send jobs, e.g. the dead-letter queue with `getQueueJobs('dead')`.
+   * @param {SendJobStatus} [status] - Only list jobs in this state.
+   * @returns {Promise<SendJob[]>}
+   */
+  public async getQueueJobs(status?: SendJobStatus): Promise<SendJob[]> {
+    try {
+      return await this.store.findJobs(status);
+    } catch (error) {
+      this.handleError('getQueueJobs', 'Failed to list jobs', error);
+      return [];
+    }
+  }
+
+  /**
+   * Moves dead-lettered jobs back into the queue with a fresh attempt count.
+   * @param {string[]} [ids] - The jobs to replay; defaults to every dead job.
+   * @returns {Promise<number>} - The number of replayed jobs.
+   */
+  public async replayDeadLetters(ids?: string[]): Promise<number> {
+    try {
+      const dead = await this.store.findJobs('dead');
+      const targets = ids ? dead.filter(job => ids.includes(job.id)) : dead;
+      for (const job of targets) {
+        await this.store.updateJob(job.id, { status: 'queued', attempts: 0, nextAttemptAt: this.clock() });
+      }
+      return targets.length;
+    } catch (error) {
+      this.handleError('replayDeadLetters', 'Failed to replay jobs', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Enrolls a subscriber in a drip sequence, starting from its first step. A completed or cancelled enrollment starts over.
+   * @param {string} email - The subscriber, on the sequence's list.
+   * @param {string} sequenceId - The sequence id.
+   * @returns {Promise<boolean>} - True if the subscriber was enrolled, false if the sequence or subscriber is unknown or already enrolled.
+   */
+  public async enrollInSequence(email: string, sequenceId: string): Promise<boolean> {
+    const sequence = this.sequences.get(sequenceId);
+    if (!sequence) {
+      this.handleError('enrollInSequence', 'Unknown sequence', new Error(`Sequence ${sequenceId} is not configured`));
+      return false;
+    }
+
+    const listId = sequence.listId ?? DEFAULT_LIST_ID;
+    email = this.resolveEmail(email, listId);
+    try {
+      const record = await this.store.findOne(email, listId);
+      if (!record) {
+        this.handleError('enrollInSequence', 'Email not in waitlist', new Error('Email not found'));
+        return false;
+      }
+      const existing = (await this.store.findEnrollments(email)).find(enrollment => enrollment.sequenceId === sequenceId);
+      if (existing?.status === 'active') {
+        return false;
+      }
+
+      const now = this.clock();
+      await this.store.saveEnrollment({
+        sequenceId,
+        email,
+        listId,
+        step: 0,
+        status: 'active',
+        nextRunAt: WaitlistMailer.stepDueAt(sequence.steps[0], record.createdAt ?? now, now),
+        attempts: 0,
+        lastError: null,
+        lastSentAt: null,
+        createdAt: now,
+      });
+      this.emit('onSequenceEnrolled', { sequenceId, email, listId });
+      return true;
+    } catch (error) {
+      this.handleError('enrollInSequence', 'Failed to enroll in sequence', error);
+      return false;
+    }
+  }
+
+  /**
+   * Stops a subscriber's drip sequence; no further steps are sent.
+   * @param {string} email - The subscriber.
+   * @param {string} sequenceId - The sequence id.
+   * @returns {Promise<boolean>} - True if an active enrollment was cancelled.
+   */
+  public async unenrollFromSequence(email: string, sequenceId: string): Promise<boolean> {
+    const listId = this.sequences.get(sequenceId)?.listId ?? DEFAULT_LIST_ID;
+    email = this.resolveEmail(email, listId);
+    try {
+      const enrollment = (await this.store.findEnrollments(email)).find(entry => entry.sequenceId === sequenceId);
+      if (enrollment?.status !== 'active') {
+        return false;
+      }
+      await this.store.saveEnrollment({ ...enrollment, status: 'cancelled', nextRunAt: null });
+      this.emit('onSequenceCancelled', { sequenceId, email, listId: enrollment.listId });
+      return true;
+    } catch (error) {
+      this.handleError('unenrollFromSequence', 'Failed to unenroll from sequence', error);
+      return false;
+    }
+  }
+
+  /**
+   * Lists a subscriber's progress through the drip sequences of a list.
+   * @param {string} email - The subscriber.
+   * @param {string} [listId='default'] - The list the subscriber is on.
+   * @returns {Promise<SequenceEnrollment[]>}
+   */
+  public async getSequenceProgress(email: string, listId: string = DEFAULT_LIST_ID): Promise<SequenceEnrollment[]> {
+    email = this.resolveEmail(email, listId);
+    try {
+      return (await this.store.findEnrollments(email)).filter(enrollment => enrollment.listId === listId);
+    } catch (error) {
+      this.handleError('getSequenceProgress', 'Failed to load sequence progress', error);
+      return [];
+    }
+  }
+
+  /**
+   * Sends one batch of due sequence steps. Called by the scheduler; can also be called directly.
+   * @returns {Promise<number>} - The number of enrollments processed.
+   */
+  public async processSequences(): Promise<number> {
+    if (this.schedulerProcessing || this.closing) return 0;
+    this.schedulerProcessing = true;
+    const done = this.beginWork();
+
+    try {
+      const { batchSize = 50, leaseTimeout = 60 * 1000 } = this.schedulerOptions;
+      const now = this.clock();
+      const enrollments = await this.store.claimDueEnrollments(now, batchSize, new Date(now.getTime() + leaseTimeout));
+      // Queue positions are ranked once per list for the whole batch
+      const rankings = new Map<string, Map<string, number>>();
+      for (const enrollment of enrollments) {
+        if (this.closing) await this.store.saveEnrollment({ ...enrollment, nextRunAt: now });
+        else await this.runSequenceStep(enrollment, now, rankings);
+      }
+      return enrollments.length;
+    } catch (error) {
+      this.handleError('processSequences', 'Sequence processing failed', error);
+      return 0;
+    } finally {
+      this.schedulerProcessing = false;
+      done();
+    }
+  }
+
+  /**
+   * Starts polling for due sequence steps. Progress is persisted, so steps that fell due while the process was down are sent.
+   */
+  public startSequenceScheduler(): void {
+    if (this.schedulerTimer) return;
+    this.schedulerTimer = setInterval(() => this.processSequences(), this.schedulerOptions.pollInterval ?? 60 * 1000);
+    this.schedulerTimer.unref();
+    this.emit('onSequenceSchedulerStarted');
+  }
+
+  /**
+   * Stops polling for due sequence steps.
+   */
+  public stopSequenceScheduler(): void {
+    if (!this.schedulerTimer) return;
+    clearInterval(this.schedulerTimer);
+    this.schedulerTimer = undefined;
+    this.emit('onSequenceSchedulerStopped');
+  }
 
   /**
-   * Closes all database connections.
+   * Stops the queue worker and the sequence scheduler, waits for sends in progress and closes the transports and the store.
+   * Sends started after this call are refused; queue jobs, campaign deliveries and sequence steps that had not started are
+   * left for the next run without counting an attempt.
    * @returns {Promise<void>}
    */
   public async close(): Promise<void> {
+    this.closing = true;
+    await this.initialization.catch(() => undefined);
+    this.stopQueueWorker();
+    this.stopSequenceScheduler();
+    // Work can start more work (a queue batch sends mail), so wait until nothing is left
+    while (this.inFlight.size > 0) {
+      await Promise.all(Array.from(this.inFlight));
+    }
     try {
-      if (this.storage === StorageType.Db) {
-        await mongoose.disconnect();
-      } else if (this.storage === StorageType.Sql && this.sqlConnection) {
-        await this.sqlConnection.close();
-      }
+      this.transports.forEach(transport => transport.close?.());
+      await this.store.close();
       this.emit('onClose');
+      this.logger.info('WaitlistMailer closed');
     } catch (error) {
       this.handleError('close', 'Failed to close connections', error);
     }
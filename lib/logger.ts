@@ -0,0 +1,89 @@
+/**
+ * Structured data attached to a log entry, e.g. `{ context: 'addEmail', error: 'Connection refused' }`.
+ * @typedef {Record<string, unknown>} LogFields
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Log levels, from the most to the least verbose.
+ * @typedef {'debug' | 'info' | 'warn' | 'error'} LogLevel
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Receives the mailer's log entries. Adapters for pino, winston and the like only need to forward the calls.
+ * @interface Logger
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Log levels in order of severity.
+ * @constant {LogLevel[]} LOG_LEVELS
+ */
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * A logger that drops every entry. The mailer uses it unless a logger is configured.
+ * @constant {Logger} noopLogger
+ */
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Writes log entries to the console, one JSON object per line, so they mix with other structured logs.
+ * @class ConsoleLogger
+ * @implements {Logger}
+ */
+export class ConsoleLogger implements Logger {
+  private minLevel: number;
+
+  /**
+   * Creates an instance of ConsoleLogger.
+   * @param {LogLevel} [level='info'] - The least severe level that is written.
+   */
+  constructor(level: LogLevel = 'info') {
+    this.minLevel = LOG_LEVELS.indexOf(level);
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * Writes an entry if its level is enabled. Warnings and errors go to stderr.
+   * @private
+   * @param {LogLevel} level - The entry's level.
+   * @param {string} message - The message.
+   * @param {LogFields} [fields] - Structured data; it cannot override the time, level or message.
+   */
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LOG_LEVELS.indexOf(level) < this.minLevel) return;
+    const line = JSON.stringify({ ...fields, time: new Date().toISOString(), level, message });
+    if (level === 'warn' || level === 'error') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
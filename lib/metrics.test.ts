@@ -0,0 +1,34 @@
+import { METRICS, PrometheusExporter } from './metrics';
+
+describe('PrometheusExporter', () => {
+  test('Renders counters and histograms in the text format', () => {
+    const exporter = new PrometheusExporter({ buckets: [1, 0.1] });
+    exporter.increment(METRICS.signups, { list: 'default' });
+    exporter.increment(METRICS.signups, { list: 'default' });
+    exporter.increment(METRICS.signups, { list: 'beta "two"' });
+    exporter.increment('custom_total');
+    exporter.observe(METRICS.sendDuration, 0.05, { provider: 'smtp' });
+    exporter.observe(METRICS.sendDuration, 0.5, { provider: 'smtp' });
+    exporter.observe(METRICS.sendDuration, 3, { provider: 'smtp' });
+
+    expect(exporter.metrics()).toBe([
+      '# HELP waitlist_signups_total Emails added to a waitlist.',
+      '# TYPE waitlist_signups_total counter',
+      'waitlist_signups_total{list="default"} 2',
+      'waitlist_signups_total{list="beta \\"two\\""} 1',
+      '# TYPE custom_total counter',
+      'custom_total 1',
+      '# HELP waitlist_send_duration_seconds Duration of delivery attempts in seconds.',
+      '# TYPE waitlist_send_duration_seconds histogram',
+      'waitlist_send_duration_seconds_bucket{le="0.1",provider="smtp"} 1',
+      'waitlist_send_duration_seconds_bucket{le="1",provider="smtp"} 2',
+      'waitlist_send_duration_seconds_bucket{le="+Inf",provider="smtp"} 3',
+      'waitlist_send_duration_seconds_sum{provider="smtp"} 3.55',
+      'waitlist_send_duration_seconds_count{provider="smtp"} 3',
+      '',
+    ].join('\n'));
+
+    exporter.reset();
+    expect(exporter.metrics()).toBe('');
+  });
+});
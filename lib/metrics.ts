@@ -0,0 +1,229 @@
+/**
+ * Labels of a metric series, e.g. `{ provider: 'smtp', status: 'sent' }`.
+ * @typedef {Record<string, string>} MetricLabels
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Receives the mailer's metrics. Adapters for StatsD, OpenTelemetry and the like only need to forward the calls;
+ * `PrometheusExporter` keeps them in memory for scraping.
+ * @interface MetricsHooks
+ */
+export interface MetricsHooks {
+  /**
+   * Counts an event.
+   * @param {string} name - The counter, one of `METRICS`.
+   * @param {MetricLabels} [labels] - The series labels.
+   */
+  increment(name: string, labels?: MetricLabels): void;
+
+  /**
+   * Records a measurement, e.g. a duration in seconds.
+   * @param {string} name - The histogram, one of `METRICS`.
+   * @param {number} value - The measurement.
+   * @param {MetricLabels} [labels] - The series labels.
+   */
+  observe(name: string, value: number, labels?: MetricLabels): void;
+}
+
+/**
+ * The metrics the mailer reports.
+ * - `signups`: emails added to a list, labelled by `list`.
+ * - `duplicates`: signups rejected because the email is already on the list, labelled by `list`.
+ * - `validationFailures`: signups rejected by email, field or tag validation.
+ * - `sends`: delivery attempts, labelled by `provider` and `status` (`sent` or `failed`).
+ * - `retries`: sends retried after a failure, labelled by `source` (`direct` or `queue`).
+ * - `sendDuration`: how long each delivery attempt took, in seconds, labelled by `provider`.
+ * @constant {Object} METRICS
+ */
+export const METRICS = {
+  signups: 'waitlist_signups_total',
+  duplicates: 'waitlist_duplicate_signups_total',
+  validationFailures: 'waitlist_validation_failures_total',
+  sends: 'waitlist_sends_total',
+  retries: 'waitlist_send_retries_total',
+  sendDuration: 'waitlist_send_duration_seconds',
+} as const;
+
+/**
+ * Help texts of the built-in metrics, written as `# HELP` lines.
+ * @constant {Record<string, string>} METRIC_HELP
+ */
+const METRIC_HELP: Record<string, string> = {
+  [METRICS.signups]: 'Emails added to a waitlist.',
+  [METRICS.duplicates]: 'Signups rejected because the email is already on the list.',
+  [METRICS.validationFailures]: 'Signups rejected by validation.',
+  [METRICS.sends]: 'Delivery attempts by provider and outcome.',
+  [METRICS.retries]: 'Sends retried after a failure.',
+  [METRICS.sendDuration]: 'Duration of delivery attempts in seconds.',
+};
+
+/**
+ * The content type of the Prometheus text exposition format, for the `Content-Type` header of a metrics endpoint.
+ * @constant {string} PROMETHEUS_CONTENT_TYPE
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Default histogram buckets, in seconds.
+ * @constant {number[]} DEFAULT_BUCKETS
+ */
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Options for the Prometheus exporter.
+ * @typedef {Object} PrometheusExporterOptions
+ * @property {number[]} [buckets] - Upper bounds of the histogram buckets, in seconds.
+ */
+export interface PrometheusExporterOptions {
+  buckets?: number[];
+}
+
+/**
+ * A counter series.
+ * @private
+ */
+interface CounterSeries {
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * A histogram series; `buckets` holds cumulative counts, one per bucket bound.
+ * @private
+ */
+interface HistogramSeries {
+  labels: MetricLabels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Escapes a label value for the text format.
+ * @param {string} value - The label value.
+ * @returns {string}
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats labels as `{a="1",b="2"}`, sorted by name; empty labels format as an empty string.
+ * @param {MetricLabels} labels - The labels.
+ * @returns {string}
+ */
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.keys(labels).sort().map(name => `${name}="${escapeLabel(labels[name])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Writes the `# HELP` and `# TYPE` lines of a metric.
+ * @param {string} name - The metric name.
+ * @param {string} type - `counter` or `histogram`.
+ * @returns {string[]}
+ */
+function metricHeader(name: string, type: string): string[] {
+  const help = METRIC_HELP[name];
+  return help ? [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`] : [`# TYPE ${name} ${type}`];
+}
+
+/**
+ * Keeps counters and histograms in memory and renders them in the Prometheus text format.
+ * Pass it as the `metrics` option and serve `metrics()` from your own endpoint.
+ * @class PrometheusExporter
+ * @implements {MetricsHooks}
+ * @example
+ * const exporter = new PrometheusExporter();
+ * const mailer = await WaitlistMailer.create(StorageType.Local, mailConfig, { metrics: exporter });
+ * app.get('/metrics', (req, res) => res.type(PROMETHEUS_CONTENT_TYPE).send(exporter.metrics()));
+ */
+export class PrometheusExporter implements MetricsHooks {
+  private buckets: number[];
+  private counters: Map<string, Map<string, CounterSeries>> = new Map();
+  private histograms: Map<string, Map<string, HistogramSeries>> = new Map();
+
+  /**
+   * Creates an instance of PrometheusExporter.
+   * @param {PrometheusExporterOptions} [options={}] - The histogram buckets.
+   */
+  constructor(options: PrometheusExporterOptions = {}) {
+    this.buckets = (options.buckets ?? DEFAULT_BUCKETS).slice().sort((a, b) => a - b);
+  }
+
+  public increment(name: string, labels: MetricLabels = {}): void {
+    const series = this.seriesOf(this.counters, name, labels, () => ({ labels: { ...labels }, value: 0 }));
+    series.value++;
+  }
+
+  public observe(name: string, value: number, labels: MetricLabels = {}): void {
+    const series = this.seriesOf(this.histograms, name, labels, () => ({
+      labels: { ...labels },
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format.
+   * @returns {string}
+   */
+  public metrics(): string {
+    const lines: string[] = [];
+    this.counters.forEach((series, name) => {
+      lines.push(...metricHeader(name, 'counter'));
+      series.forEach(({ labels, value }) => lines.push(`${name}${formatLabels(labels)} ${value}`));
+    });
+    this.histograms.forEach((series, name) => {
+      lines.push(...metricHeader(name, 'histogram'));
+      series.forEach(({ labels, buckets, sum, count }) => {
+        buckets.forEach((bucketCount, index) => {
+          lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(this.buckets[index]) })} ${bucketCount}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      });
+    });
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Drops every recorded value.
+   */
+  public reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  /**
+   * Gets the series of a metric with the given labels, creating it on first use.
+   * @private
+   * @param {Map<string, Map<string, T>>} metrics - The counters or the histograms.
+   * @param {string} name - The metric name.
+   * @param {MetricLabels} labels - The series labels.
+   * @param {() => T} create - Creates an empty series.
+   * @returns {T}
+   */
+  private seriesOf<T>(metrics: Map<string, Map<string, T>>, name: string, labels: MetricLabels, create: () => T): T {
+    let series = metrics.get(name);
+    if (!series) {
+      series = new Map();
+      metrics.set(name, series);
+    }
+    const key = formatLabels(labels);
+    let entry = series.get(key);
+    if (!entry) {
+      entry = create();
+      series.set(key, entry);
+    }
+    return entry;
+  }
+}
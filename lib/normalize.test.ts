@@ -0,0 +1,33 @@
+import { normalizeEmail } from './normalize';
+
+describe('normalizeEmail', () => {
+  test('Trims, lower-cases and converts internationalized domains by default', () => {
+    expect(normalizeEmail('  John.Doe+News@Example.COM ')).toBe('john.doe+news@example.com');
+    expect(normalizeEmail('ana@Bücher.de')).toBe('ana@xn--bcher-kva.de');
+    expect(normalizeEmail('ana@xn--bcher-kva.de')).toBe('ana@xn--bcher-kva.de');
+    expect(normalizeEmail('Ana@Example.com', { lowercase: false, trim: false })).toBe('Ana@example.com');
+    expect(normalizeEmail('ana@bücher.de', { punycode: false })).toBe('ana@bücher.de');
+    expect(normalizeEmail('Not An Email')).toBe('not an email');
+  });
+
+  test('Applies the Gmail rules without configuration', () => {
+    expect(normalizeEmail('j.ohn+beta@gmail.com')).toBe('john@gmail.com');
+    expect(normalizeEmail('J.Ohn@GoogleMail.com')).toBe('john@gmail.com');
+    expect(normalizeEmail('j.ohn+beta@outlook.com')).toBe('j.ohn+beta@outlook.com');
+    expect(normalizeEmail('j.ohn+beta@gmail.com', { stripDots: false, stripPlusTags: false, aliasDomains: false })).toBe('j.ohn+beta@gmail.com');
+  });
+
+  test('Strips dots and plus tags only at the configured providers', () => {
+    const providers = { stripDots: true, stripPlusTags: true, aliasDomains: true };
+    expect(normalizeEmail('J.Ohn+beta@gmail.com', providers)).toBe('john@gmail.com');
+    expect(normalizeEmail('j.ohn+beta@googlemail.com', providers)).toBe('john@gmail.com');
+    expect(normalizeEmail('j.ohn+beta@outlook.com', providers)).toBe('j.ohn@outlook.com');
+    expect(normalizeEmail('j.ohn+beta@example.com', providers)).toBe('j.ohn+beta@example.com');
+    expect(normalizeEmail('+beta@gmail.com', providers)).toBe('+beta@gmail.com');
+
+    const custom = { stripDots: ['@corp.io'], stripPlusTags: ['corp.io'], aliasDomains: { 'corp.dev': 'corp.io' } };
+    expect(normalizeEmail('j.ohn+x@corp.dev', custom)).toBe('john@corp.io');
+    expect(normalizeEmail('j.ohn+x@gmail.com', custom)).toBe('j.ohn+x@gmail.com');
+    expect(normalizeEmail(normalizeEmail('J.Ohn+beta@gmail.com', providers), providers)).toBe('john@gmail.com');
+  });
+});
@@ -0,0 +1,114 @@
+import { domainToASCII } from 'url';
+
+/**
+ * Rules for deriving the canonical form of an email address, used to detect duplicates.
+ * Provider rules match the exact domain, after punycode conversion and aliases. By default they only cover Gmail,
+ * whose dot, plus-tag and googlemail.com rules are universal; pass `false` to turn a rule off.
+ * @typedef {Object} EmailNormalizationOptions
+ * @property {boolean} [trim=true] - Removes surrounding whitespace.
+ * @property {boolean} [lowercase=true] - Lower-cases the local part; the domain is always lower-cased.
+ * @property {boolean} [punycode=true] - Converts internationalized domains to their ASCII (punycode) form.
+ * @property {boolean | string[]} [stripDots=true] - Removes dots from the local part at these domains; `true` uses `DOT_INSENSITIVE_DOMAINS`.
+ * @property {boolean | string[]} [stripPlusTags=GMAIL_DOMAINS] - Removes `+tag` suffixes at these domains; `true` uses `PLUS_TAG_DOMAINS`.
+ * @property {boolean | Record<string, string>} [aliasDomains=true] - Replaces domains that are aliases of another; `true` uses `DOMAIN_ALIASES`.
+ */
+export interface EmailNormalizationOptions {
+  trim?: boolean;
+  lowercase?: boolean;
+  punycode?: boolean;
+  stripDots?: boolean | string[];
+  stripPlusTags?: boolean | string[];
+  aliasDomains?: boolean | Record<string, string>;
+}
+
+/**
+ * Gmail's domains, whose provider rules apply unless configured otherwise.
+ * @constant {string[]} GMAIL_DOMAINS
+ */
+export const GMAIL_DOMAINS: string[] = ['gmail.com', 'googlemail.com'];
+
+/**
+ * Providers that ignore dots in the local part (`j.ohn@gmail.com` reaches `john@gmail.com`).
+ * @constant {string[]} DOT_INSENSITIVE_DOMAINS
+ */
+export const DOT_INSENSITIVE_DOMAINS: string[] = ['gmail.com', 'googlemail.com'];
+
+/**
+ * Providers that deliver `name+tag@domain` to `name@domain`.
+ * @constant {string[]} PLUS_TAG_DOMAINS
+ */
+export const PLUS_TAG_DOMAINS: string[] = [
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'mac.com',
+  'fastmail.com',
+  'fastmail.fm',
+  'protonmail.com',
+  'protonmail.ch',
+  'proton.me',
+  'pm.me',
+  'yandex.com',
+  'yandex.ru',
+  'zoho.com',
+];
+
+/**
+ * Domains that share their mailboxes with another domain.
+ * @constant {Record<string, string>} DOMAIN_ALIASES
+ */
+export const DOMAIN_ALIASES: Record<string, string> = {
+  'googlemail.com': 'gmail.com',
+};
+
+/**
+ * Checks whether a provider rule applies to a domain.
+ * @param {boolean | string[] | undefined} rule - The rule from the options.
+ * @param {string[]} defaults - The domains used when the rule is `true`.
+ * @param {string} domain - The lower-cased ASCII domain.
+ * @returns {boolean}
+ */
+function appliesTo(rule: boolean | string[] | undefined, defaults: string[], domain: string): boolean {
+  if (!rule) return false;
+  return (rule === true ? defaults : rule).some(entry => entry.trim().toLowerCase().replace(/^@/, '') === domain);
+}
+
+/**
+ * Derives the canonical form of an email address. Addresses with the same canonical form reach the same mailbox,
+ * so only one of them may be on a list. Canonical forms are stable: normalizing one again returns it unchanged.
+ * @param {string} email - The address as entered.
+ * @param {EmailNormalizationOptions} [options={}] - The rules to apply.
+ * @returns {string}
+ */
+export function normalizeEmail(email: string, options: EmailNormalizationOptions = {}): string {
+  const { trim = true, lowercase = true, punycode = true, stripDots = true, stripPlusTags = GMAIL_DOMAINS, aliasDomains = true } = options;
+  const address = trim ? email.trim() : email;
+  const at = address.lastIndexOf('@');
+  if (at === -1) return lowercase ? address.toLowerCase() : address;
+
+  let local = address.slice(0, at);
+  let domain = address.slice(at + 1).toLowerCase();
+  if (punycode) {
+    // domainToASCII returns an empty string for domains it cannot convert, which are left for validation to reject
+    domain = domainToASCII(domain) || domain;
+  }
+  if (aliasDomains) {
+    const aliases = aliasDomains === true ? DOMAIN_ALIASES : aliasDomains;
+    domain = aliases[domain] ?? domain;
+  }
+
+  if (lowercase) local = local.toLowerCase();
+  if (appliesTo(stripPlusTags, PLUS_TAG_DOMAINS, domain)) {
+    const plus = local.indexOf('+');
+    if (plus > 0) local = local.slice(0, plus);
+  }
+  if (appliesTo(stripDots, DOT_INSENSITIVE_DOMAINS, domain)) {
+    local = local.replace(/\./g, '') || local;
+  }
+  return `${local}@${domain}`;
+}
@@ -0,0 +1,179 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import Joi from 'joi';
+import { WaitlistMailer, StorageType, MailTransport, createHttpHandler } from './index';
+
+jest.spyOn(console, 'error').mockImplementation(() => {});
+
+interface Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+describe('createHttpHandler', () => {
+  let mailer: WaitlistMailer;
+  let server: http.Server;
+  let transport: MailTransport & { send: jest.Mock };
+
+  const request = (method: string, path: string, body?: string, headers: Record<string, string> = {}): Promise<Response> =>
+    new Promise((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      const req = http.request({ port, method, path, headers }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => (data += chunk));
+        res.on('end', () => {
+          const json = (res.headers['content-type'] ?? '').startsWith('application/json');
+          resolve({ status: res.statusCode!, headers: res.headers, body: json ? JSON.parse(data) : data });
+        });
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  const postJson = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    request('POST', path, JSON.stringify(body), { 'Content-Type': 'application/json', ...headers });
+  const admin = { Authorization: 'Bearer admin-secret' };
+  const linkFromLastMail = () => transport.send.mock.calls[transport.send.mock.calls.length - 1][0].html.match(/href="([^"]+)"/)[1];
+
+  beforeEach(async () => {
+    transport = {
+      name: 'memory',
+      verify: jest.fn().mockResolvedValue(undefined),
+      send: jest.fn().mockResolvedValue({ messageId: 'memory-id' }),
+    };
+    mailer = new WaitlistMailer(StorageType.Local, { from: 'noreply@test.com', transports: [transport] }, {
+      companyName: 'TestCo',
+      doubleOptIn: { secret: 'confirm-secret', confirmUrl: 'https://example.com/waitlist/confirm' },
+      unsubscribe: { secret: 'unsubscribe-secret', unsubscribeUrl: 'https://example.com/waitlist/unsubscribe' },
+      fields: { username: Joi.string() },
+      lists: { beta: {} },
+      queue: { autoStart: false },
+      protection: { ipRateLimit: { max: 2, windowMs: 60000 } },
+    });
+    await mailer.waitForInitialization();
+    server = http.createServer(createHttpHandler(mailer, {
+      adminToken: 'admin-secret',
+      basePath: '/waitlist',
+      honeypotField: 'website',
+      trustProxy: true,
+    }));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await mailer.close();
+  });
+
+  test('Subscribes, confirms and unsubscribes through the public routes', async () => {
+    const created = await postJson('/waitlist/subscribe', { email: 'ana@test.com', fields: { username: 'Ana' } });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ email: 'ana@test.com', position: 1, referralCode: expect.any(String) });
+
+    const confirmLink = new URL(linkFromLastMail());
+    expect((await request('GET', `${confirmLink.pathname}${confirmLink.search}`)).body).toEqual({ confirmed: true });
+    expect((await request('GET', `${confirmLink.pathname}/${confirmLink.searchParams.get('token')}`)).status).toBe(400);
+
+    const form = await request('POST', '/waitlist/subscribe', 'email=bob%40test.com&username=Bob&listId=beta', {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    });
+    expect(form.status).toBe(201);
+    expect(await mailer.getFields('bob@test.com', 'beta')).toEqual({ username: 'Bob' });
+    expect((await request('GET', '/waitlist/position/bob%40test.com?listId=beta')).body).toEqual({ email: 'bob@test.com', position: 1 });
+    expect((await request('GET', '/waitlist/position/nobody%40test.com')).status).toBe(404);
+
+    await mailer.sendConfirmation('ana@test.com', () => 'News', () => '<p>News</p>');
+    const unsubscribeUrl = new URL(transport.send.mock.calls[transport.send.mock.calls.length - 1][0].headers['List-Unsubscribe'].match(/<(https[^>]+)>/)[1]);
+    const unsubscribed = await request('POST', `${unsubscribeUrl.pathname}${unsubscribeUrl.search}`, 'List-Unsubscribe=One-Click', {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    });
+    expect(unsubscribed.body).toEqual({ unsubscribed: true });
+  });
+
+  test('Maps rejected signups to JSON errors', async () => {
+    await postJson('/waitlist/subscribe', { email: 'ana@test.com' });
+
+    expect(await postJson('/waitlist/subscribe', { email: 'not-an-email' })).toMatchObject({ status: 400, body: { error: 'Invalid email format' } });
+    expect(await postJson('/waitlist/subscribe', { email: 'ana@test.com' })).toMatchObject({
+      status: 409,
+      body: { error: 'Email is already on the waitlist' },
+    });
+    expect((await postJson('/waitlist/subscribe', { email: ' ANA@Test.com' })).status).toBe(409);
+    expect((await postJson('/waitlist/subscribe', { email: 'cy@test.com', fields: { age: 3 } })).body).toEqual({
+      error: expect.stringContaining('"age" is not allowed'),
+    });
+    expect((await postJson('/waitlist/subscribe', { email: 'cy@test.com', listId: 'missing' })).status).toBe(404);
+    expect(await request('POST', '/waitlist/subscribe', '{', { 'Content-Type': 'application/json' })).toMatchObject({
+      status: 400,
+      body: { error: 'Invalid JSON body' },
+    });
+    expect(await postJson('/waitlist/subscribe', { email: 'bot@test.com', website: 'spam' })).toMatchObject({
+      status: 400,
+      body: { error: 'Signup rejected', reason: 'honeypot' },
+    });
+    const proxied = { 'X-Forwarded-For': '203.0.113.7, 10.0.0.1' };
+    expect((await postJson('/waitlist/subscribe', { email: 'dee@test.com' }, proxied)).status).toBe(201);
+    expect((await postJson('/waitlist/subscribe', { email: 'eve@test.com' }, proxied)).status).toBe(201);
+    expect(await postJson('/waitlist/subscribe', { email: 'fay@test.com' }, proxied)).toMatchObject({
+      status: 429,
+      body: { error: 'Too many signups, please try again later', reason: 'ip_rate_limited' },
+    });
+    expect((await request('GET', '/waitlist/subscribe')).headers.allow).toBe('POST');
+    expect((await request('GET', '/other')).status).toBe(404);
+    expect(mailer.listenerCount('onValidationError')).toBe(0);
+  });
+
+  test('Protects the admin routes with the bearer token', async () => {
+    await postJson('/waitlist/subscribe', { email: 'ana@test.com', fields: { username: 'Ana, A.' } });
+    await mailer.confirmEmail(new URL(linkFromLastMail()).searchParams.get('token')!);
+    await postJson('/waitlist/subscribe', { email: 'bob@other.io' });
+
+    expect((await request('GET', '/waitlist/admin/count')).status).toBe(401);
+    expect((await request('GET', '/waitlist/admin/count', undefined, { Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await request('GET', '/waitlist/admin/count?domain=test.com', undefined, admin)).body).toEqual({ count: 1 });
+
+    const page = await request('GET', '/waitlist/admin/subscribers?sort=email&direction=desc&limit=1', undefined, admin);
+    expect(page.body).toMatchObject({ total: 2, items: [{ email: 'bob@other.io' }] });
+
+    const csv = await request('GET', '/waitlist/admin/export?format=csv', undefined, admin);
+    expect(csv.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(csv.body).toMatch(/^email,createdAt,status,username\r\nana@test\.com,.+,confirmed,"Ana, A\."\r\n/);
+
+    const queued = await postJson('/waitlist/admin/send', { subject: 'Hi', html: '<p>Hi</p>', segment: { createdAt: { from: '2020-01-01' } } }, admin);
+    expect(queued).toMatchObject({ status: 202, body: { queued: 1 } });
+    expect((await mailer.getQueueJobs('queued')).map(job => job.email)).toEqual(['ana@test.com']);
+    expect((await postJson('/waitlist/admin/send', { subject: 'Hi' }, admin)).status).toBe(400);
+
+    server.close();
+    server = http.createServer(createHttpHandler(mailer));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    expect((await request('GET', '/admin/count', undefined, admin)).status).toBe(404);
+  });
+
+  test('Serves the tracking pixel and redirects tracked links', async () => {
+    await new Promise(resolve => server.close(resolve));
+    await mailer.close();
+    mailer = new WaitlistMailer(StorageType.Local, { from: 'noreply@test.com', transports: [transport] }, {
+      tracking: { secret: 'tracking-secret', baseUrl: 'https://example.com/waitlist/track' },
+    });
+    await mailer.waitForInitialization();
+    server = http.createServer(createHttpHandler(mailer, { basePath: '/waitlist' }));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+
+    await mailer.addEmail('ana@test.com');
+    await mailer.sendConfirmation('ana@test.com', () => 'News', () => '<a href="https://example.com/news">News</a>');
+    const html = transport.send.mock.calls[transport.send.mock.calls.length - 1][0].html;
+    const click = new URL(html.match(/<a href="([^"]+)"/)[1]);
+    const open = new URL(html.match(/<img src="([^"]+)"/)[1]);
+
+    const pixel = await request('GET', `${open.pathname}${open.search}`);
+    expect(pixel).toMatchObject({ status: 200, headers: { 'content-type': 'image/gif', 'cache-control': expect.stringContaining('no-store') } });
+    expect((await request('GET', '/waitlist/track/open?token=forged')).status).toBe(200);
+
+    const redirect = await request('GET', `${click.pathname}${click.search}`);
+    expect(redirect).toMatchObject({ status: 302, headers: { location: 'https://example.com/news' } });
+    expect((await request('GET', '/waitlist/track/click?token=forged')).status).toBe(400);
+    expect(await mailer.getMessageStats()).toMatchObject({ sent: 1, opened: 1, clicked: 1 });
+  });
+});
@@ -0,0 +1,578 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { MailerErrorEvent, ValidationResult, WaitlistMailer } from './index';
+import type { SegmentFilter, SegmentQuery, SegmentSortField, SubscriberStatus } from './stores/WaitlistStore';
+import type { TransferFormat } from './transfer';
+import type { SignupRejection, SignupRejectionReason } from './SignupGuard';
+
+/**
+ * Options for the embeddable HTTP API.
+ * @typedef {Object} HttpApiOptions
+ * @property {string} [adminToken] - The bearer token required by the `/admin` routes; they answer 404 when it is not set.
+ * @property {string} [basePath=''] - A prefix for every route (e.g., `/waitlist`).
+ * @property {number} [maxBodySize=102400] - The largest accepted request body in bytes; larger bodies get a 413.
+ * @property {string} [allowOrigin] - The `Access-Control-Allow-Origin` value, for signup forms served from another origin.
+ * @property {string} [honeypotField] - A hidden signup form field that only bots fill in; it is passed to `addEmail` as `honeypot`.
+ * @property {boolean} [trustProxy=false] - Reads the client IP from `X-Forwarded-For`, for servers behind a reverse proxy.
+ */
+export interface HttpApiOptions {
+  adminToken?: string;
+  basePath?: string;
+  maxBodySize?: number;
+  allowOrigin?: string;
+  honeypotField?: string;
+  trustProxy?: boolean;
+}
+
+/**
+ * A request handler for `http.createServer` or as Express/Connect middleware.
+ * With a `next` callback, requests outside the API are passed on instead of answered with a 404.
+ * @typedef {Function} HttpHandler
+ */
+export type HttpHandler = (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void) => Promise<void>;
+
+/**
+ * An error answered with its status code and a JSON `{ error }` body.
+ * @private
+ */
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly reason?: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * The request being handled.
+ * @private
+ */
+interface RouteContext {
+  mailer: WaitlistMailer;
+  options: HttpApiOptions;
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: string[];
+  query: URLSearchParams;
+  body: () => Promise<Record<string, unknown>>;
+}
+
+/**
+ * A JSON response.
+ * @private
+ */
+interface Reply {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * A route of the API. Handlers that stream their own response return nothing.
+ * @private
+ */
+interface Route {
+  methods: string[];
+  path: RegExp;
+  admin?: boolean;
+  handle: (context: RouteContext) => Promise<Reply | void>;
+}
+
+/**
+ * Signup keys that are not custom fields in form-encoded bodies.
+ * @constant {string[]} SIGNUP_KEYS
+ */
+const SIGNUP_KEYS = ['email', 'referredBy', 'locale', 'listId'];
+
+/**
+ * Signup rejection reasons answered with 429 Too Many Requests.
+ * @constant {SignupRejectionReason[]} RATE_LIMIT_REASONS
+ */
+const RATE_LIMIT_REASONS: SignupRejectionReason[] = ['ip_rate_limited', 'domain_rate_limited'];
+
+/**
+ * A transparent 1x1 GIF, served by the open-tracking route.
+ * @constant {Buffer} TRACKING_PIXEL
+ */
+const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * Default page size of `GET /admin/subscribers`.
+ * @constant {number} DEFAULT_PAGE_SIZE
+ */
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Writes a JSON response.
+ * @param {ServerResponse} res - The response.
+ * @param {number} status - The status code.
+ * @param {unknown} body - The body to serialize.
+ * @param {Record<string, string>} [headers={}] - Extra headers.
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    ...headers,
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload).toString(),
+  });
+  res.end(payload);
+}
+
+/**
+ * Reads and parses a JSON or form-encoded request body. Other content types yield an empty object.
+ * @param {IncomingMessage} req - The request.
+ * @param {number} maxBodySize - The largest accepted body in bytes.
+ * @returns {Promise<Record<string, unknown>>}
+ * @throws {HttpError} If the body is too large or not valid JSON.
+ */
+async function readBody(req: IncomingMessage, maxBodySize: number): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBodySize) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  const type = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  if (!text) return {};
+  if (type === 'application/x-www-form-urlencoded') {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  if (type !== 'application/json') return {};
+
+  try {
+    const body = JSON.parse(text);
+    if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('Not an object');
+    }
+    return body;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+/**
+ * Checks the bearer token of an admin request in constant time.
+ * @param {IncomingMessage} req - The request.
+ * @param {string} token - The configured admin token.
+ * @returns {boolean}
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+/**
+ * Reads the client IP address of a request.
+ * @param {IncomingMessage} req - The request.
+ * @param {boolean} [trustProxy=false] - Whether the first `X-Forwarded-For` address is the client.
+ * @returns {string | undefined}
+ */
+function clientIp(req: IncomingMessage, trustProxy: boolean = false): string | undefined {
+  const forwarded = req.headers['x-forwarded-for'];
+  const header = Array.isArray(forwarded) ? forwarded[0] : forwarded;
+  if (trustProxy && header) return header.split(',')[0].trim();
+  return req.socket.remoteAddress;
+}
+
+/**
+ * Listeners for the events a mailer emits when it turns down a call, keyed by event name.
+ * @private
+ */
+interface RejectionListeners {
+  onValidationError: (result: ValidationResult) => void;
+  onConfirmationExpired: (email: string) => void;
+  onError: (event: MailerErrorEvent) => void;
+}
+
+/**
+ * Calls a mailer method and turns the rejection events it emits into an HTTP error.
+ * The mailer runs its validation checks before its first `await`, so listening only during the
+ * synchronous part of the call never picks up events of concurrent requests. The store lookup and signup protection
+ * run after that, so `onDuplicateEmail` and `onSignupRejected` are matched by email for the whole call instead.
+ * @param {WaitlistMailer} mailer - The mailer.
+ * @param {() => Promise<T>} call - The call to make.
+ * @param {string} [email] - The canonical email of a signup, to match `onDuplicateEmail` and `onSignupRejected` events.
+ * @returns {Promise<{ result: T, rejection: HttpError | null }>}
+ */
+async function callMailer<T>(
+  mailer: WaitlistMailer,
+  call: () => Promise<T>,
+  email?: string
+): Promise<{ result: T; rejection: HttpError | null }> {
+  let rejection: HttpError | null = null;
+  const reject = (error: HttpError) => {
+    if (!rejection) rejection = error;
+  };
+  const listeners: RejectionListeners = {
+    onValidationError: ({ message }) => reject(new HttpError(400, message ?? 'Invalid request')),
+    onConfirmationExpired: () => reject(new HttpError(410, 'Confirmation link expired')),
+    onError: ({ message }) => reject(new HttpError(message === 'Unknown list' ? 404 : 400, message)),
+  };
+  const events = Object.keys(listeners) as Array<keyof RejectionListeners>;
+
+  const onDuplicateEmail = (duplicate: string) => {
+    if (duplicate === email) reject(new HttpError(409, 'Email is already on the waitlist'));
+  };
+  const onSignupRejected = (event: SignupRejection & { email: string }) => {
+    if (event.email !== email) return;
+    reject(new HttpError(RATE_LIMIT_REASONS.includes(event.reason) ? 429 : 400, event.message, event.reason));
+  };
+
+  events.forEach(event => mailer.on(event, listeners[event]));
+  if (email !== undefined) {
+    mailer.on('onDuplicateEmail', onDuplicateEmail);
+    mailer.on('onSignupRejected', onSignupRejected);
+  }
+  try {
+    let pending: Promise<T>;
+    try {
+      pending = call();
+    } finally {
+      events.forEach(event => mailer.removeListener(event, listeners[event]));
+    }
+    return { result: await pending, rejection };
+  } finally {
+    mailer.removeListener('onDuplicateEmail', onDuplicateEmail);
+    mailer.removeListener('onSignupRejected', onSignupRejected);
+  }
+}
+
+/**
+ * Decodes a path parameter.
+ * @param {string} value - The encoded parameter.
+ * @returns {string}
+ * @throws {HttpError} If the parameter is not valid percent-encoding.
+ */
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, 'Invalid path');
+  }
+}
+
+/**
+ * Reads a link token from the path, or from the `token` query parameter used by the links the mailer sends.
+ * @param {string[]} params - The path parameters.
+ * @param {URLSearchParams} query - The query string.
+ * @returns {string}
+ * @throws {HttpError} If there is no token.
+ */
+function readToken(params: string[], query: URLSearchParams): string {
+  const token = params[0] || query.get('token');
+  if (!token) throw new HttpError(400, 'Token is required');
+  return token;
+}
+
+/**
+ * Reads a segment filter from the query string of the admin routes.
+ * Supports `listId`, `status`, `domain`, `contains`, `tag` (repeatable, any of) and `unsubscribed`.
+ * @param {URLSearchParams} query - The query string.
+ * @returns {SegmentFilter}
+ * @throws {HttpError} If a value is invalid.
+ */
+function readFilter(query: URLSearchParams): SegmentFilter {
+  const filter: SegmentFilter = {};
+  const status = query.get('status');
+  if (status) {
+    if (status !== 'pending' && status !== 'confirmed') throw new HttpError(400, 'Invalid status');
+    filter.status = status as SubscriberStatus;
+  }
+  if (query.get('listId')) filter.listId = query.get('listId')!;
+  if (query.get('domain')) filter.email = { domain: query.get('domain')! };
+  if (query.get('contains')) filter.email = { ...filter.email, contains: query.get('contains')! };
+  if (query.getAll('tag').length > 0) filter.tags = { any: query.getAll('tag') };
+
+  const unsubscribed = query.get('unsubscribed');
+  if (unsubscribed) {
+    if (unsubscribed !== 'true' && unsubscribed !== 'false') throw new HttpError(400, 'Invalid unsubscribed flag');
+    filter.unsubscribed = unsubscribed === 'true';
+  }
+  return filter;
+}
+
+/**
+ * Reads a non-negative integer from the query string.
+ * @param {URLSearchParams} query - The query string.
+ * @param {string} name - The parameter.
+ * @param {number} fallback - The value when the parameter is missing.
+ * @returns {number}
+ * @throws {HttpError} If the value is not a non-negative integer.
+ */
+function readCount(query: URLSearchParams, name: string, fallback: number): number {
+  const value = query.get(name);
+  if (value === null || value === '') return fallback;
+  if (!/^\d+$/.test(value)) throw new HttpError(400, `Invalid ${name}`);
+  return Number(value);
+}
+
+/**
+ * Converts the `segment` of a bulk send body, whose dates arrive as strings.
+ * @param {unknown} segment - The segment from the body.
+ * @returns {SegmentFilter | undefined}
+ * @throws {HttpError} If the segment is not an object or has invalid dates.
+ */
+function readSegment(segment: unknown): SegmentFilter | undefined {
+  if (segment === undefined || segment === null) return undefined;
+  if (typeof segment !== 'object' || Array.isArray(segment)) throw new HttpError(400, 'Invalid segment');
+
+  const filter = { ...segment } as SegmentFilter & { createdAt?: { from?: unknown; to?: unknown } };
+  if (filter.createdAt) {
+    const toDate = (value: unknown) => {
+      if (value === undefined) return undefined;
+      const date = new Date(value as string);
+      if (Number.isNaN(date.getTime())) throw new HttpError(400, 'Invalid segment date');
+      return date;
+    };
+    filter.createdAt = { from: toDate(filter.createdAt.from), to: toDate(filter.createdAt.to) };
+  }
+  return filter;
+}
+
+/**
+ * The routes of the API, relative to the base path.
+ * @constant {Route[]} ROUTES
+ */
+const ROUTES: Route[] = [
+  {
+    methods: ['POST'],
+    path: /^\/subscribe$/,
+    handle: async ({ mailer, options: apiOptions, req, body }) => {
+      const { email, referredBy, locale, listId, fields, ...rest } = await body();
+      if (typeof email !== 'string') throw new HttpError(400, 'Email is required');
+      if (fields !== undefined && (fields === null || typeof fields !== 'object' || Array.isArray(fields))) {
+        throw new HttpError(400, 'Invalid fields');
+      }
+      // Form posts carry custom fields as top-level keys
+      const customFields = (fields as Record<string, unknown>) ?? Object.fromEntries(
+        Object.entries(rest).filter(([key]) => !SIGNUP_KEYS.includes(key) && key !== apiOptions.honeypotField)
+      );
+      const options = {
+        referredBy: typeof referredBy === 'string' && referredBy ? referredBy : undefined,
+        locale: typeof locale === 'string' && locale ? locale : undefined,
+        listId: typeof listId === 'string' && listId ? listId : undefined,
+        ip: clientIp(req, apiOptions.trustProxy),
+        honeypot: apiOptions.honeypotField ? rest[apiOptions.honeypotField] : undefined,
+      };
+
+      // The mailer reports signups under their canonical address
+      const canonical = mailer.normalizeEmail(email);
+      const { result, rejection } = await callMailer(mailer, () => mailer.addEmail(email, customFields, options), canonical);
+      if (!result) throw rejection ?? new HttpError(500, 'Signup failed');
+      const stats = await mailer.getReferralStats(canonical, options.listId);
+      return { status: 201, body: { email: canonical, ...stats } };
+    },
+  },
+  {
+    methods: ['GET'],
+    path: /^\/confirm(?:\/([^/]+))?$/,
+    handle: async ({ mailer, params, query }) => {
+      const token = readToken(params, query);
+      const { result, rejection } = await callMailer(mailer, () => mailer.confirmEmail(token));
+      if (!result) throw rejection ?? new HttpError(400, 'Confirmation link is invalid or was already used');
+      return { status: 200, body: { confirmed: true } };
+    },
+  },
+  {
+    // POST serves one-click unsubscribes from mail clients (RFC 8058)
+    methods: ['GET', 'POST'],
+    path: /^\/unsubscribe(?:\/([^/]+))?$/,
+    handle: async ({ mailer, params, query }) => {
+      const token = readToken(params, query);
+      const { result, rejection } = await callMailer(mailer, () => mailer.unsubscribe(token));
+      if (!result) throw rejection ?? new HttpError(400, 'Unsubscribe link is invalid');
+      return { status: 200, body: { unsubscribed: true } };
+    },
+  },
+  {
+    // The pixel is served even for invalid tokens, so mail clients never show a broken image
+    methods: ['GET'],
+    path: /^\/track\/open(?:\/([^/]+))?$/,
+    handle: async ({ mailer, params, query, res }) => {
+      const token = params[0] || query.get('token');
+      if (token) await mailer.recordOpen(token);
+      res.writeHead(200, {
+        'Content-Type': 'image/gif',
+        'Content-Length': TRACKING_PIXEL.length,
+        'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+      });
+      res.end(TRACKING_PIXEL);
+    },
+  },
+  {
+    methods: ['GET'],
+    path: /^\/track\/click(?:\/([^/]+))?$/,
+    handle: async ({ mailer, params, query, res }) => {
+      const target = await mailer.recordClick(readToken(params, query));
+      if (!target) throw new HttpError(400, 'Tracking link is invalid');
+      res.writeHead(302, { Location: target, 'Cache-Control': 'no-store' });
+      res.end();
+    },
+  },
+  {
+    methods: ['GET'],
+    path: /^\/position\/([^/]+)$/,
+    handle: async ({ mailer, params, query }) => {
+      const position = await mailer.getPosition(params[0], query.get('listId') || undefined);
+      if (position === null) throw new HttpError(404, 'Email is not on the waitlist');
+      return { status: 200, body: { email: params[0], position } };
+    },
+  },
+  {
+    methods: ['GET'],
+    path: /^\/admin\/subscribers$/,
+    admin: true,
+    handle: async ({ mailer, query }) => {
+      const sortField = query.get('sort') ?? 'createdAt';
+      if (!['createdAt', 'email', 'referralCount'].includes(sortField)) throw new HttpError(400, 'Invalid sort');
+      const request: SegmentQuery = {
+        filter: readFilter(query),
+        sort: { field: sortField as SegmentSortField, direction: query.get('direction') === 'desc' ? 'desc' : 'asc' },
+        limit: readCount(query, 'limit', DEFAULT_PAGE_SIZE),
+        offset: readCount(query, 'offset', 0),
+      };
+      return { status: 200, body: await mailer.querySubscribers(request) };
+    },
+  },
+  {
+    methods: ['GET'],
+    path: /^\/admin\/count$/,
+    admin: true,
+    handle: async ({ mailer, query }) => ({ status: 200, body: { count: await mailer.countSubscribers(readFilter(query)) } }),
+  },
+  {
+    methods: ['GET'],
+    path: /^\/admin\/export$/,
+    admin: true,
+    handle: async ({ mailer, query, res }) => {
+      const format = (query.get('format') ?? 'csv') as TransferFormat;
+      if (format !== 'csv' && format !== 'ndjson') throw new HttpError(400, 'Invalid format');
+      const listId = query.get('listId') || undefined;
+      if (listId && !mailer.getLists().includes(listId)) throw new HttpError(404, 'Unknown list');
+
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="waitlist.${format === 'csv' ? 'csv' : 'ndjson'}"`);
+      if ((await mailer.exportWaitlist(format, res, { listId })) === null) {
+        if (res.headersSent) {
+          res.destroy();
+          return;
+        }
+        res.removeHeader('Content-Disposition');
+        throw new HttpError(500, 'Export failed');
+      }
+    },
+  },
+  {
+    methods: ['POST'],
+    path: /^\/admin\/send$/,
+    admin: true,
+    handle: async ({ mailer, body }) => {
+      const { subject, html, listId, segment } = await body();
+      if (typeof subject !== 'string' || !subject || typeof html !== 'string' || !html) {
+        throw new HttpError(400, 'Subject and html are required');
+      }
+      if (listId !== undefined && typeof listId !== 'string') throw new HttpError(400, 'Invalid listId');
+
+      const { result, rejection } = await callMailer(mailer, () =>
+        mailer.enqueueBulkConfirmation(() => subject, () => html, readSegment(segment), listId));
+      if (rejection) throw rejection;
+      return { status: 202, body: { queued: result } };
+    },
+  },
+];
+
+/**
+ * Creates an HTTP handler exposing the waitlist, built on Node's `http` module.
+ *
+ * Public routes: `POST /subscribe`, `GET /confirm/:token`, `GET|POST /unsubscribe/:token`, `GET /position/:email`,
+ * and `GET /track/open/:token` and `GET /track/click/:token`, which serve the tracking pixel and link redirects.
+ * The link routes also accept `?token=`, so `confirmUrl`, `unsubscribeUrl` and the tracking `baseUrl` (`<basePath>/track`)
+ * can point straight at them.
+ * Admin routes (bearer token): `GET /admin/subscribers`, `GET /admin/count`, `GET /admin/export` and `POST /admin/send`,
+ * which queues the send on the persisted send queue. Errors are JSON `{ error }` bodies: validation errors are 400,
+ * duplicate signups 409, unknown lists 404 and signups rejected by rate limits 429.
+ * @param {WaitlistMailer} mailer - The mailer to expose.
+ * @param {HttpApiOptions} [options={}] - Authentication, base path and limits.
+ * @returns {HttpHandler}
+ * @example
+ * http.createServer(createHttpHandler(mailer, { adminToken: process.env.ADMIN_TOKEN })).listen(3000);
+ */
+export function createHttpHandler(mailer: WaitlistMailer, options: HttpApiOptions = {}): HttpHandler {
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+  const maxBodySize = options.maxBodySize ?? 100 * 1024;
+  const corsHeaders: Record<string, string> = options.allowOrigin
+    ? { 'Access-Control-Allow-Origin': options.allowOrigin, Vary: 'Origin' }
+    : {};
+
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const inBase = url.pathname === basePath || url.pathname.startsWith(`${basePath}/`);
+    const path = inBase ? url.pathname.slice(basePath.length) || '/' : null;
+    const matches = path === null ? [] : ROUTES
+      .map(route => ({ route, match: route.path.exec(path) }))
+      .filter(({ route, match }) => match && (!route.admin || options.adminToken));
+
+    if (matches.length === 0) {
+      if (next) next();
+      else sendJson(res, 404, { error: 'Not found' }, corsHeaders);
+      return;
+    }
+
+    Object.entries(corsHeaders).forEach(([name, value]) => res.setHeader(name, value));
+    const allowed = Array.from(new Set(matches.reduce<string[]>((methods, { route }) => methods.concat(route.methods), [])));
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        Allow: allowed.join(', '),
+        'Access-Control-Allow-Methods': allowed.join(', '),
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      });
+      res.end();
+      return;
+    }
+
+    const selected = matches.find(({ route }) => route.methods.includes(req.method ?? 'GET'));
+    try {
+      if (!selected) {
+        res.setHeader('Allow', allowed.join(', '));
+        throw new HttpError(405, 'Method not allowed');
+      }
+      if (selected.route.admin && !isAuthorized(req, options.adminToken!)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        throw new HttpError(401, 'Unauthorized');
+      }
+      if (!mailer.isInitialized()) {
+        throw new HttpError(503, 'Waitlist is not ready');
+      }
+
+      const reply = await selected.route.handle({
+        mailer,
+        options,
+        req,
+        res,
+        params: selected.match!.slice(1).map(value => (value === undefined ? '' : decodeParam(value))),
+        query: url.searchParams,
+        body: () => readBody(req, maxBodySize),
+      });
+      if (reply) sendJson(res, reply.status, reply.body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, error.reason ? { error: error.message, reason: error.reason } : { error: error.message });
+        return;
+      }
+      mailer.emit('onError', {
+        context: 'http',
+        message: 'Request failed',
+        error: error instanceof Error ? error.message : String(error),
+        code: 'UNKNOWN',
+      });
+      if (res.headersSent) res.destroy();
+      else sendJson(res, 500, { error: 'Internal server error' });
+    }
+  };
+}
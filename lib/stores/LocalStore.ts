@@ -0,0 +1,378 @@
+import {
+  Campaign,
+  CampaignDelivery,
+  DEFAULT_LIST_ID,
+  DuplicateEmailError,
+  DeliveryStatus,
+  InviteStatus,
+  MessageCounts,
+  MessageFeedback,
+  MessageFilter,
+  MessageLogEntry,
+  SegmentPage,
+  SegmentQuery,
+  SendJob,
+  SendJobStatus,
+  SequenceEnrollment,
+  SubscriberStatus,
+  SuppressionEntry,
+  TrackingEvent,
+  WaitlistAttributes,
+  WaitlistStore,
+} from './WaitlistStore';
+import { compareForSort, matchesSegment } from './segment';
+
+/**
+ * In-memory storage adapter. Data lives only as long as the process.
+ * @class LocalStore
+ * @implements {WaitlistStore}
+ */
+export class LocalStore implements WaitlistStore {
+  private lists: Map<string, Map<string, WaitlistAttributes>> = new Map();
+  private jobs: Map<string, SendJob> = new Map();
+  private campaigns: Map<string, Campaign> = new Map();
+  private deliveries: Map<string, Map<string, CampaignDelivery>> = new Map();
+  private suppressions: Map<string, SuppressionEntry> = new Map();
+  private enrollments: Map<string, Map<string, SequenceEnrollment>> = new Map();
+  private messages: Map<string, MessageLogEntry> = new Map();
+  private counters: Map<string, { count: number; expiresAt: Date }> = new Map();
+
+  public async connect(): Promise<void> {}
+
+  public async ping(): Promise<void> {}
+
+  public async loadEmails(status?: SubscriberStatus, listId: string = DEFAULT_LIST_ID): Promise<string[]> {
+    return Array.from(this.records(listId).values())
+      .filter(record => !status || record.status === status)
+      .map(record => record.email);
+  }
+
+  public async findOne(email: string, listId: string = DEFAULT_LIST_ID): Promise<WaitlistAttributes | null> {
+    const record = this.records(listId).get(email);
+    return record ? { ...record } : null;
+  }
+
+  public async findAll(listId: string = DEFAULT_LIST_ID): Promise<WaitlistAttributes[]> {
+    return Array.from(this.records(listId).values())
+      .map(record => ({ ...record }))
+      .sort((a, b) => (a.createdAt as Date).getTime() - (b.createdAt as Date).getTime());
+  }
+
+  public async findByReferralCode(code: string): Promise<WaitlistAttributes | null> {
+    for (const records of this.lists.values()) {
+      for (const record of records.values()) {
+        if (record.referralCode === code) return { ...record };
+      }
+    }
+    return null;
+  }
+
+  public async incrementReferralCount(email: string, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    const record = this.records(listId).get(email);
+    if (record) {
+      record.referralCount = (record.referralCount ?? 0) + 1;
+    }
+  }
+
+  public async insert(record: WaitlistAttributes): Promise<void> {
+    const listId = record.listId ?? DEFAULT_LIST_ID;
+    if (this.records(listId).has(record.email)) throw new DuplicateEmailError(record.email, listId);
+    this.records(listId).set(record.email, {
+      ...record,
+      listId,
+      createdAt: record.createdAt ?? new Date(),
+      status: record.status ?? 'confirmed',
+      referralCount: record.referralCount ?? 0,
+    });
+  }
+
+  public async insertMany(records: WaitlistAttributes[]): Promise<void> {
+    for (const record of records) {
+      await this.insert(record);
+    }
+  }
+
+  public async update(email: string, changes: Partial<WaitlistAttributes>, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    const records = this.records(listId);
+    const record = records.get(email);
+    if (record) {
+      const updated = { ...record, ...changes, email: changes.email ?? email, listId };
+      records.delete(email);
+      records.set(updated.email, updated);
+    }
+  }
+
+  public async remove(email: string, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    this.records(listId).delete(email);
+  }
+
+  public async clear(listId: string = DEFAULT_LIST_ID): Promise<void> {
+    this.lists.delete(listId);
+  }
+
+  public async findByPattern(pattern: string, listId: string = DEFAULT_LIST_ID): Promise<string[]> {
+    return Array.from(this.records(listId).keys()).filter(email =>
+      email.toLowerCase().includes(pattern.toLowerCase())
+    );
+  }
+
+  public async countByDate(start?: Date, end?: Date, listId: string = DEFAULT_LIST_ID): Promise<number> {
+    let count = 0;
+    this.records(listId).forEach(record => {
+      const createdAt = record.createdAt as Date;
+      if (start && createdAt < start) return;
+      if (end && createdAt > end) return;
+      count++;
+    });
+    return count;
+  }
+
+  public async replaceAll(emails: string[], listId: string = DEFAULT_LIST_ID): Promise<void> {
+    const previous = this.records(listId);
+    const records = new Map<string, WaitlistAttributes>();
+    emails.forEach(email => {
+      records.set(email, previous.get(email) ?? { email, listId, createdAt: new Date(), status: 'confirmed', referralCount: 0 });
+    });
+    this.lists.set(listId, records);
+  }
+
+  public async findSegment(query: SegmentQuery): Promise<SegmentPage> {
+    const matching: WaitlistAttributes[] = [];
+    this.lists.forEach(records => records.forEach(record => {
+      if (!query.filter || matchesSegment(record, query.filter)) matching.push(record);
+    }));
+    matching.sort(compareForSort(query.sort));
+
+    const offset = query.offset ?? 0;
+    const page = query.limit === undefined ? matching.slice(offset) : matching.slice(offset, offset + query.limit);
+    return { items: page.map(record => ({ ...record })), total: matching.length };
+  }
+
+  public async redeemInviteCode(code: string, joinedAt: Date): Promise<WaitlistAttributes | null> {
+    for (const records of this.lists.values()) {
+      for (const record of records.values()) {
+        if (record.inviteCode === code && record.inviteStatus === 'invited') {
+          Object.assign(record, { inviteStatus: 'joined', joinedAt });
+          return { ...record };
+        }
+      }
+    }
+    return null;
+  }
+
+  public async countInviteFunnel(listId: string = DEFAULT_LIST_ID, batchId?: string): Promise<Record<InviteStatus, number>> {
+    const counts: Record<InviteStatus, number> = { waiting: 0, invited: 0, joined: 0 };
+    this.records(listId).forEach(record => {
+      if (batchId === undefined || record.inviteBatch === batchId) counts[record.inviteStatus ?? 'waiting']++;
+    });
+    return counts;
+  }
+
+  public async enqueueJob(job: SendJob): Promise<void> {
+    this.jobs.set(job.id, { ...job, createdAt: job.createdAt ?? new Date() });
+  }
+
+  public async claimDueJobs(now: Date, limit: number, leaseUntil: Date): Promise<SendJob[]> {
+    const due = Array.from(this.jobs.values())
+      .filter(job => (job.status === 'queued' || job.status === 'sending') && job.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+
+    return due.map(job => {
+      job.status = 'sending';
+      job.nextAttemptAt = leaseUntil;
+      return { ...job };
+    });
+  }
+
+  public async updateJob(id: string, changes: Partial<SendJob>): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      this.jobs.set(id, { ...job, ...changes, id });
+    }
+  }
+
+  public async findJobs(status?: SendJobStatus): Promise<SendJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => !status || job.status === status)
+      .map(job => ({ ...job }));
+  }
+
+  public async saveCampaign(campaign: Campaign): Promise<void> {
+    const existing = this.campaigns.get(campaign.id);
+    this.campaigns.set(campaign.id, {
+      ...existing,
+      ...campaign,
+      createdAt: existing?.createdAt ?? campaign.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  public async findCampaign(id: string): Promise<Campaign | null> {
+    const campaign = this.campaigns.get(id);
+    return campaign ? { ...campaign } : null;
+  }
+
+  public async addCampaignRecipients(campaignId: string, emails: string[]): Promise<void> {
+    const rows = this.deliveries.get(campaignId) ?? new Map<string, CampaignDelivery>();
+    emails.forEach(email => {
+      if (!rows.has(email)) {
+        rows.set(email, { campaignId, email, status: 'pending', lastError: null, deliveredAt: null, leaseUntil: null });
+      }
+    });
+    this.deliveries.set(campaignId, rows);
+  }
+
+  public async findCampaignDeliveries(campaignId: string, statuses?: DeliveryStatus[]): Promise<CampaignDelivery[]> {
+    return Array.from(this.deliveries.get(campaignId)?.values() ?? [])
+      .filter(row => !statuses || statuses.includes(row.status))
+      .map(row => ({ ...row }));
+  }
+
+  public async updateCampaignDelivery(campaignId: string, email: string, changes: Partial<CampaignDelivery>): Promise<void> {
+    const row = this.deliveries.get(campaignId)?.get(email);
+    if (row) {
+      Object.assign(row, changes, { campaignId, email });
+    }
+  }
+
+  public async claimCampaignDelivery(campaignId: string, email: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const row = this.deliveries.get(campaignId)?.get(email);
+    const claimable = row && (row.status === 'pending' || row.status === 'failed' || (row.status === 'sending' && (row.leaseUntil ?? now) <= now));
+    if (!row || !claimable) return false;
+    Object.assign(row, { status: 'sending', leaseUntil });
+    return true;
+  }
+
+  public async countCampaignDeliveries(campaignId: string): Promise<Record<DeliveryStatus, number>> {
+    const counts: Record<DeliveryStatus, number> = { pending: 0, sending: 0, delivered: 0, failed: 0, skipped: 0 };
+    this.deliveries.get(campaignId)?.forEach(row => counts[row.status]++);
+    return counts;
+  }
+
+  public async saveSuppressions(entries: SuppressionEntry[]): Promise<void> {
+    entries.forEach(entry => this.suppressions.set(entry.email, { ...entry }));
+  }
+
+  public async removeSuppression(email: string): Promise<boolean> {
+    return this.suppressions.delete(email);
+  }
+
+  public async findSuppression(email: string): Promise<SuppressionEntry | null> {
+    const entry = this.suppressions.get(email);
+    return entry ? { ...entry } : null;
+  }
+
+  public async listSuppressions(): Promise<SuppressionEntry[]> {
+    return Array.from(this.suppressions.values())
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  public async saveEnrollment(enrollment: SequenceEnrollment): Promise<void> {
+    let enrollments = this.enrollments.get(enrollment.sequenceId);
+    if (!enrollments) {
+      enrollments = new Map();
+      this.enrollments.set(enrollment.sequenceId, enrollments);
+    }
+    enrollments.set(enrollment.email, { ...enrollment });
+  }
+
+  public async findEnrollments(email: string): Promise<SequenceEnrollment[]> {
+    const found: SequenceEnrollment[] = [];
+    this.enrollments.forEach(enrollments => {
+      const enrollment = enrollments.get(email);
+      if (enrollment) found.push({ ...enrollment });
+    });
+    return found;
+  }
+
+  public async claimDueEnrollments(now: Date, limit: number, leaseUntil: Date): Promise<SequenceEnrollment[]> {
+    const due: SequenceEnrollment[] = [];
+    this.enrollments.forEach(enrollments => {
+      enrollments.forEach(enrollment => {
+        if (enrollment.status === 'active' && enrollment.nextRunAt && enrollment.nextRunAt <= now) due.push(enrollment);
+      });
+    });
+
+    return due
+      .sort((a, b) => (a.nextRunAt as Date).getTime() - (b.nextRunAt as Date).getTime())
+      .slice(0, limit)
+      .map(enrollment => {
+        enrollment.nextRunAt = leaseUntil;
+        return { ...enrollment };
+      });
+  }
+
+  public async logMessage(entry: MessageLogEntry): Promise<void> {
+    this.messages.set(entry.id, { ...entry });
+  }
+
+  public async recordMessageEvent(id: string, event: TrackingEvent, at: Date): Promise<MessageLogEntry | null> {
+    const entry = this.messages.get(id);
+    if (!entry) return null;
+    if (event === 'open') {
+      entry.opens++;
+      entry.openedAt = entry.openedAt ?? at;
+    } else {
+      entry.clicks++;
+      entry.clickedAt = entry.clickedAt ?? at;
+    }
+    return { ...entry };
+  }
+
+  public async findMessages(email: string): Promise<MessageLogEntry[]> {
+    return Array.from(this.messages.values())
+      .filter(entry => entry.email === email)
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime());
+  }
+
+  public async countMessages(filter: MessageFilter): Promise<MessageCounts> {
+    const counts: MessageCounts = { sent: 0, opened: 0, clicked: 0 };
+    this.messages.forEach(entry => {
+      if (filter.campaignId !== undefined && entry.campaignId !== filter.campaignId) return;
+      if (filter.template !== undefined && entry.template !== filter.template) return;
+      counts.sent++;
+      if (entry.opens > 0) counts.opened++;
+      if (entry.clicks > 0) counts.clicked++;
+    });
+    return counts;
+  }
+
+  public async recordMessageFeedback(messageId: string, feedback: MessageFeedback): Promise<MessageLogEntry | null> {
+    const entry = this.messages.get(messageId)
+      ?? Array.from(this.messages.values()).find(message => message.providerMessageId === messageId);
+    if (!entry) return null;
+    Object.assign(entry, feedback);
+    return { ...entry };
+  }
+
+  public async incrementCounter(key: string, expiresAt: Date, now: Date): Promise<number> {
+    this.counters.forEach((counter, name) => {
+      if (counter.expiresAt <= now) this.counters.delete(name);
+    });
+
+    const counter = this.counters.get(key) ?? { count: 0, expiresAt };
+    counter.count++;
+    this.counters.set(key, counter);
+    return counter.count;
+  }
+
+  public async close(): Promise<void> {}
+
+  /**
+   * Gets the entries of a list, keyed by email.
+   * @private
+   * @param {string} listId - The list.
+   * @returns {Map<string, WaitlistAttributes>}
+   */
+  private records(listId: string): Map<string, WaitlistAttributes> {
+    let records = this.lists.get(listId);
+    if (!records) {
+      records = new Map();
+      this.lists.set(listId, records);
+    }
+    return records;
+  }
+}
@@ -0,0 +1,665 @@
+import mongoose, { Schema, Model, Document, FilterQuery, PipelineStage, SortOrder } from 'mongoose';
+import {
+  Campaign,
+  CampaignDelivery,
+  DEFAULT_LIST_ID,
+  DuplicateEmailError,
+  DeliveryStatus,
+  InviteStatus,
+  MessageCounts,
+  MessageFeedback,
+  MessageFilter,
+  MessageLogEntry,
+  SegmentFilter,
+  SegmentPage,
+  SegmentQuery,
+  SendJob,
+  SendJobStatus,
+  SequenceEnrollment,
+  SubscriberStatus,
+  SuppressionEntry,
+  TrackingEvent,
+  WaitlistAttributes,
+  WaitlistStore,
+} from './WaitlistStore';
+import { assertFieldName, escapeRegExp, normalizeCondition, toList } from './segment';
+
+/**
+ * Mongoose schema for the Waitlist collection.
+ * @constant {Schema} WaitlistSchema
+ */
+const WaitlistSchema = new Schema<Document & WaitlistAttributes>({
+  email: { type: String, required: true, index: true },
+  originalEmail: { type: String, default: null },
+  listId: { type: String, default: DEFAULT_LIST_ID },
+  createdAt: { type: Date, default: Date.now },
+  status: { type: String, enum: ['pending', 'confirmed'], default: 'confirmed', index: true },
+  confirmationToken: { type: String, default: null },
+  confirmedAt: { type: Date, default: null },
+  referralCode: { type: String, unique: true, sparse: true },
+  referredBy: { type: String, default: null },
+  referralCount: { type: Number, default: 0 },
+  unsubscribedAt: { type: Date, default: null },
+  locale: { type: String, default: null },
+  fields: { type: Schema.Types.Mixed, default: null },
+  tags: { type: [String], default: [], index: true },
+  inviteStatus: { type: String, enum: ['waiting', 'invited', 'joined'], default: 'waiting' },
+  inviteCode: { type: String, default: null },
+  inviteBatch: { type: String, default: null, index: true },
+  invitedAt: { type: Date, default: null },
+  joinedAt: { type: Date, default: null },
+});
+WaitlistSchema.index({ listId: 1, email: 1 }, { unique: true });
+// Entries that were never invited, or whose invite was withdrawn, hold a null code
+WaitlistSchema.index({ inviteCode: 1 }, { unique: true, partialFilterExpression: { inviteCode: { $type: 'string' } } });
+
+/**
+ * Matches the entries of one or more lists. Documents stored before lists existed have no `listId`
+ * and belong to the default list.
+ * @param {string | string[]} listId - The list(s).
+ * @returns {FilterQuery<WaitlistAttributes>}
+ */
+function inList(listId: string | string[]): FilterQuery<WaitlistAttributes> {
+  const listIds = toList(listId);
+  return { listId: { $in: listIds.includes(DEFAULT_LIST_ID) ? [...listIds, null] : listIds } };
+}
+
+/**
+ * Builds a status condition. Entries stored before double opt-in existed have no status and count as confirmed.
+ * @param {SubscriberStatus[]} statuses - The accepted statuses.
+ * @returns {FilterQuery<WaitlistAttributes>}
+ */
+function hasStatus(statuses: SubscriberStatus[]): FilterQuery<WaitlistAttributes> {
+  return { status: { $in: statuses.includes('confirmed') ? [...statuses, null] : statuses } };
+}
+
+/**
+ * Translates a segment into a Mongo query with the semantics of `matchesSegment`.
+ * @param {SegmentFilter} filter - The segment.
+ * @returns {FilterQuery<WaitlistAttributes>}
+ */
+function toMongoQuery(filter: SegmentFilter): FilterQuery<WaitlistAttributes> {
+  const conditions: FilterQuery<WaitlistAttributes>[] = [];
+
+  if (filter.listId !== undefined) conditions.push(inList(filter.listId));
+
+  const domains = toList(filter.email?.domain);
+  if (domains.length > 0) {
+    conditions.push({ email: { $regex: new RegExp(`@(?:${domains.map(escapeRegExp).join('|')})$`, 'i') } });
+  }
+  if (filter.email?.contains) {
+    conditions.push({ email: { $regex: new RegExp(escapeRegExp(filter.email.contains), 'i') } });
+  }
+
+  if (filter.createdAt?.from) conditions.push({ createdAt: { $gte: filter.createdAt.from } });
+  if (filter.createdAt?.to) conditions.push({ createdAt: { $lte: filter.createdAt.to } });
+
+  const statuses = toList(filter.status);
+  if (statuses.length > 0) conditions.push(hasStatus(statuses));
+  if (filter.unsubscribed !== undefined) {
+    conditions.push({ unsubscribedAt: filter.unsubscribed ? { $ne: null } : null });
+  }
+
+  // Entries stored before referrals existed have no count and count as 0
+  const { min, max } = filter.referralCount ?? {};
+  if (min !== undefined || max !== undefined) {
+    const range = { ...(min !== undefined ? { $gte: min } : {}), ...(max !== undefined ? { $lte: max } : {}) };
+    const includesZero = (min === undefined || min <= 0) && (max === undefined || max >= 0);
+    conditions.push(includesZero ? { $or: [{ referralCount: range }, { referralCount: null }] } : { referralCount: range });
+  }
+
+  if (filter.tags?.all) conditions.push({ tags: { $all: filter.tags.all } });
+  if (filter.tags?.any) conditions.push({ tags: { $in: filter.tags.any } });
+  if (filter.tags?.none) conditions.push({ tags: { $nin: filter.tags.none } });
+
+  for (const [name, condition] of Object.entries(filter.fields ?? {})) {
+    assertFieldName(name);
+    const path = `fields.${name}`;
+    const { eq, ne, in: within, gt, gte, lt, lte, exists } = normalizeCondition(condition);
+    if (eq !== undefined) conditions.push({ [path]: eq });
+    if (ne !== undefined) conditions.push({ [path]: { $ne: ne } });
+    if (within !== undefined) conditions.push({ [path]: { $in: within } });
+    if (gt !== undefined) conditions.push({ [path]: { $gt: gt } });
+    if (gte !== undefined) conditions.push({ [path]: { $gte: gte } });
+    if (lt !== undefined) conditions.push({ [path]: { $lt: lt } });
+    if (lte !== undefined) conditions.push({ [path]: { $lte: lte } });
+    if (exists !== undefined) conditions.push({ [path]: exists ? { $ne: null } : null });
+  }
+
+  return conditions.length > 0 ? { $and: conditions } : {};
+}
+
+/**
+ * Mongoose model for the Waitlist collection.
+ * @constant {Model<Document & WaitlistAttributes>} WaitlistModel
+ */
+const WaitlistModel: Model<Document & WaitlistAttributes> = mongoose.model<Document & WaitlistAttributes>('Waitlist', WaitlistSchema);
+
+/**
+ * Mongoose schema for the SendJob collection.
+ * The `id` virtual is disabled so the job id can be stored as a regular field.
+ * @constant {Schema} SendJobSchema
+ */
+const SendJobSchema = new Schema<SendJob>({
+  id: { type: String, required: true, unique: true },
+  email: { type: String, required: true, index: true },
+  subject: { type: String, required: true },
+  html: { type: String, required: true },
+  status: { type: String, enum: ['queued', 'sending', 'sent', 'dead'], default: 'queued' },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, required: true },
+  lastError: { type: String, default: null },
+  provider: { type: String, default: null },
+  listId: { type: String, default: null },
+  createdAt: { type: Date, default: Date.now },
+}, { id: false });
+SendJobSchema.index({ status: 1, nextAttemptAt: 1 });
+
+/**
+ * Mongoose model for the SendJob collection.
+ * @constant {Model<SendJob>} SendJobModel
+ */
+const SendJobModel: Model<SendJob> = mongoose.model<SendJob>('SendJob', SendJobSchema);
+
+/**
+ * Mongoose schema for the Campaign collection.
+ * @constant {Schema} CampaignSchema
+ */
+const CampaignSchema = new Schema<Campaign>({
+  id: { type: String, required: true, unique: true },
+  status: { type: String, enum: ['running', 'paused', 'cancelled', 'completed'], required: true },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+}, { id: false });
+
+/**
+ * Mongoose model for the Campaign collection.
+ * @constant {Model<Campaign>} CampaignModel
+ */
+const CampaignModel: Model<Campaign> = mongoose.model<Campaign>('Campaign', CampaignSchema);
+
+/**
+ * Mongoose schema for the CampaignDelivery collection.
+ * @constant {Schema} CampaignDeliverySchema
+ */
+const CampaignDeliverySchema = new Schema<CampaignDelivery>({
+  campaignId: { type: String, required: true },
+  email: { type: String, required: true },
+  status: { type: String, enum: ['pending', 'sending', 'delivered', 'failed', 'skipped'], default: 'pending' },
+  lastError: { type: String, default: null },
+  deliveredAt: { type: Date, default: null },
+  leaseUntil: { type: Date, default: null },
+});
+CampaignDeliverySchema.index({ campaignId: 1, email: 1 }, { unique: true });
+CampaignDeliverySchema.index({ campaignId: 1, status: 1 });
+
+/**
+ * Mongoose model for the CampaignDelivery collection.
+ * @constant {Model<CampaignDelivery>} CampaignDeliveryModel
+ */
+const CampaignDeliveryModel: Model<CampaignDelivery> = mongoose.model<CampaignDelivery>('CampaignDelivery', CampaignDeliverySchema);
+
+/**
+ * Mongoose schema for the Suppression collection.
+ * @constant {Schema} SuppressionSchema
+ */
+const SuppressionSchema = new Schema<SuppressionEntry>({
+  email: { type: String, required: true, unique: true },
+  reason: { type: String, enum: ['bounce', 'complaint', 'unsubscribe', 'manual'], required: true },
+  createdAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, default: null },
+  note: { type: String, default: null },
+});
+
+/**
+ * Mongoose model for the Suppression collection.
+ * @constant {Model<SuppressionEntry>} SuppressionModel
+ */
+const SuppressionModel: Model<SuppressionEntry> = mongoose.model<SuppressionEntry>('Suppression', SuppressionSchema);
+
+/**
+ * Mongoose schema for the SequenceEnrollment collection.
+ * @constant {Schema} SequenceEnrollmentSchema
+ */
+const SequenceEnrollmentSchema = new Schema<SequenceEnrollment>({
+  sequenceId: { type: String, required: true },
+  email: { type: String, required: true, index: true },
+  listId: { type: String, default: DEFAULT_LIST_ID },
+  step: { type: Number, default: 0 },
+  status: { type: String, enum: ['active', 'completed', 'cancelled'], default: 'active' },
+  nextRunAt: { type: Date, default: null },
+  attempts: { type: Number, default: 0 },
+  lastError: { type: String, default: null },
+  lastSentAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now },
+});
+SequenceEnrollmentSchema.index({ sequenceId: 1, email: 1 }, { unique: true });
+SequenceEnrollmentSchema.index({ status: 1, nextRunAt: 1 });
+
+/**
+ * Mongoose model for the SequenceEnrollment collection.
+ * @constant {Model<SequenceEnrollment>} SequenceEnrollmentModel
+ */
+const SequenceEnrollmentModel: Model<SequenceEnrollment> = mongoose.model<SequenceEnrollment>(
+  'SequenceEnrollment',
+  SequenceEnrollmentSchema
+);
+
+/**
+ * Mongoose schema for the MessageLog collection.
+ * The `id` virtual is disabled so the message id can be stored as a regular field.
+ * @constant {Schema} MessageLogSchema
+ */
+const MessageLogSchema = new Schema<MessageLogEntry>({
+  id: { type: String, required: true, unique: true },
+  email: { type: String, required: true, index: true },
+  listId: { type: String, default: null },
+  subject: { type: String, required: true },
+  template: { type: String, default: null, index: true },
+  campaignId: { type: String, default: null, index: true },
+  provider: { type: String, required: true },
+  providerMessageId: { type: String, default: null, index: true },
+  response: { type: String, default: null },
+  sentAt: { type: Date, required: true },
+  opens: { type: Number, default: 0 },
+  clicks: { type: Number, default: 0 },
+  openedAt: { type: Date, default: null },
+  clickedAt: { type: Date, default: null },
+  bounce: { type: String, enum: ['hard', 'soft', null], default: null },
+  bouncedAt: { type: Date, default: null },
+  complainedAt: { type: Date, default: null },
+}, { id: false });
+
+/**
+ * Mongoose model for the MessageLog collection.
+ * @constant {Model<MessageLogEntry>} MessageLogModel
+ */
+const MessageLogModel: Model<MessageLogEntry> = mongoose.model<MessageLogEntry>('MessageLog', MessageLogSchema);
+
+/**
+ * A rate-limit counter document.
+ * @private
+ */
+interface Counter {
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+/**
+ * Mongoose schema for the Counter collection. Expired counters are removed when a counter is incremented, against the
+ * caller's time rather than a TTL index, so an injected clock decides what has expired.
+ * @constant {Schema} CounterSchema
+ */
+const CounterSchema = new Schema<Counter>({
+  key: { type: String, required: true, unique: true },
+  count: { type: Number, default: 0 },
+  expiresAt: { type: Date, required: true },
+});
+CounterSchema.index({ expiresAt: 1 });
+
+/**
+ * Mongoose model for the Counter collection.
+ * @constant {Model<Counter>} CounterModel
+ */
+const CounterModel: Model<Counter> = mongoose.model<Counter>('Counter', CounterSchema);
+
+/**
+ * MongoDB storage adapter backed by the `Waitlist` collection.
+ * @class MongoStore
+ * @implements {WaitlistStore}
+ */
+export class MongoStore implements WaitlistStore {
+  private mongoUri?: string;
+  private ownsConnection = false;
+
+  /**
+   * Creates an instance of MongoStore.
+   * @param {string} [mongoUri] - The MongoDB connection URI. When omitted, an existing mongoose connection is reused.
+   */
+  constructor(mongoUri?: string) {
+    this.mongoUri = mongoUri;
+  }
+
+  public async connect(): Promise<void> {
+    if (this.mongoUri) {
+      await mongoose.connect(this.mongoUri);
+      this.ownsConnection = true;
+    }
+  }
+
+  public async ping(): Promise<void> {
+    if (mongoose.connection.readyState !== mongoose.ConnectionStates.connected || !mongoose.connection.db) {
+      throw new Error('MongoDB is not connected');
+    }
+    await mongoose.connection.db.admin().ping();
+  }
+
+  public async loadEmails(status?: SubscriberStatus, listId: string = DEFAULT_LIST_ID): Promise<string[]> {
+    const docs = await WaitlistModel.find(status ? { ...inList(listId), ...hasStatus([status]) } : inList(listId));
+    return docs.map(doc => doc.email);
+  }
+
+  public async findOne(email: string, listId: string = DEFAULT_LIST_ID): Promise<WaitlistAttributes | null> {
+    return WaitlistModel.findOne({ ...inList(listId), email }, { _id: 0, __v: 0 }).lean<WaitlistAttributes>();
+  }
+
+  public async findAll(listId: string = DEFAULT_LIST_ID): Promise<WaitlistAttributes[]> {
+    return WaitlistModel.find(inList(listId), { _id: 0, __v: 0 }).sort({ createdAt: 1 }).lean<WaitlistAttributes[]>();
+  }
+
+  public async findByReferralCode(code: string): Promise<WaitlistAttributes | null> {
+    return WaitlistModel.findOne({ referralCode: code }, { _id: 0, __v: 0 }).lean<WaitlistAttributes>();
+  }
+
+  public async incrementReferralCount(email: string, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await WaitlistModel.updateOne({ ...inList(listId), email }, { $inc: { referralCount: 1 } });
+  }
+
+  public async insert(record: WaitlistAttributes): Promise<void> {
+    try {
+      await new WaitlistModel(record).save();
+    } catch (error) {
+      // Other unique indexes (referral and invite codes) fail with the same code, so the entry is looked up
+      const listId = record.listId ?? DEFAULT_LIST_ID;
+      if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000 && await WaitlistModel.exists({ ...inList(listId), email: record.email })) {
+        throw new DuplicateEmailError(record.email, listId);
+      }
+      throw error;
+    }
+  }
+
+  public async insertMany(records: WaitlistAttributes[]): Promise<void> {
+    if (records.length === 0) return;
+    await WaitlistModel.insertMany(records);
+  }
+
+  public async update(email: string, changes: Partial<WaitlistAttributes>, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await WaitlistModel.updateOne({ ...inList(listId), email }, { $set: changes });
+  }
+
+  public async remove(email: string, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await WaitlistModel.deleteOne({ ...inList(listId), email });
+  }
+
+  public async clear(listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await WaitlistModel.deleteMany(inList(listId));
+  }
+
+  public async findByPattern(pattern: string, listId: string = DEFAULT_LIST_ID): Promise<string[]> {
+    const regex = new RegExp(escapeRegExp(pattern), 'i');
+    const docs = await WaitlistModel.find({ ...inList(listId), email: { $regex: regex } });
+    return docs.map(doc => doc.email);
+  }
+
+  public async countByDate(start?: Date, end?: Date, listId: string = DEFAULT_LIST_ID): Promise<number> {
+    const query: FilterQuery<WaitlistAttributes> = inList(listId);
+    if (start || end) {
+      query.createdAt = { ...(start ? { $gte: start } : {}), ...(end ? { $lte: end } : {}) };
+    }
+    return WaitlistModel.countDocuments(query);
+  }
+
+  public async findSegment(query: SegmentQuery): Promise<SegmentPage> {
+    const filter = query.filter ? toMongoQuery(query.filter) : {};
+    if (query.limit === 0) {
+      // limit(0) means "no limit" in Mongo
+      return { items: [], total: await WaitlistModel.countDocuments(filter) };
+    }
+    const field = query.sort?.field ?? 'createdAt';
+    const direction: SortOrder = query.sort?.direction === 'desc' ? -1 : 1;
+    if (field === 'referralCount') {
+      // Entries without a count sort as 0, which a plain sort would place before every number
+      const pipeline: PipelineStage[] = [
+        { $match: filter },
+        { $addFields: { sortKey: { $ifNull: ['$referralCount', 0] } } },
+        { $sort: { sortKey: direction === -1 ? -1 : 1, email: 1 } },
+        { $skip: query.offset ?? 0 },
+        ...(query.limit !== undefined ? [{ $limit: query.limit }] : []),
+        { $project: { _id: 0, __v: 0, sortKey: 0 } },
+      ];
+      const [items, total] = await Promise.all([
+        WaitlistModel.aggregate<WaitlistAttributes>(pipeline),
+        WaitlistModel.countDocuments(filter),
+      ]);
+      return { items, total };
+    }
+    const sort: Record<string, SortOrder> = field === 'email' ? { email: direction } : { [field]: direction, email: 1 };
+
+    let cursor = WaitlistModel.find(filter, { _id: 0, __v: 0 }).sort(sort).skip(query.offset ?? 0);
+    if (query.limit !== undefined) {
+      cursor = cursor.limit(query.limit);
+    }
+    const [items, total] = await Promise.all([
+      cursor.lean<WaitlistAttributes[]>(),
+      WaitlistModel.countDocuments(filter),
+    ]);
+    return { items, total };
+  }
+
+  public async replaceAll(emails: string[], listId: string = DEFAULT_LIST_ID): Promise<void> {
+    // Each upsert is atomic and kept entries are never touched, so readers never see the list empty
+    if (emails.length > 0) {
+      await WaitlistModel.bulkWrite(emails.map(email => ({
+        updateOne: {
+          filter: { ...inList(listId), email },
+          update: { $setOnInsert: { email, listId } },
+          upsert: true,
+        },
+      })), { ordered: false });
+    }
+    await WaitlistModel.deleteMany({ ...inList(listId), email: { $nin: emails } });
+  }
+
+  public async redeemInviteCode(code: string, joinedAt: Date): Promise<WaitlistAttributes | null> {
+    return WaitlistModel.findOneAndUpdate(
+      { inviteCode: code, inviteStatus: 'invited' },
+      { $set: { inviteStatus: 'joined', joinedAt } },
+      { new: true, projection: { _id: 0, __v: 0 } }
+    ).lean<WaitlistAttributes>();
+  }
+
+  public async countInviteFunnel(listId: string = DEFAULT_LIST_ID, batchId?: string): Promise<Record<InviteStatus, number>> {
+    const counts: Record<InviteStatus, number> = { waiting: 0, invited: 0, joined: 0 };
+    const groups = await WaitlistModel.aggregate<{ _id: InviteStatus; count: number }>([
+      { $match: batchId === undefined ? inList(listId) : { ...inList(listId), inviteBatch: batchId } },
+      // Entries stored before invites existed have no inviteStatus and are still waiting
+      { $group: { _id: { $ifNull: ['$inviteStatus', 'waiting'] }, count: { $sum: 1 } } },
+    ]);
+    groups.forEach(group => { counts[group._id] = group.count; });
+    return counts;
+  }
+
+  public async enqueueJob(job: SendJob): Promise<void> {
+    await new SendJobModel(job).save();
+  }
+
+  public async claimDueJobs(now: Date, limit: number, leaseUntil: Date): Promise<SendJob[]> {
+    const claimed: SendJob[] = [];
+    // Claim one job at a time so concurrent workers never receive the same job
+    while (claimed.length < limit) {
+      const job = await SendJobModel.findOneAndUpdate(
+        { status: { $in: ['queued', 'sending'] }, nextAttemptAt: { $lte: now } },
+        { $set: { status: 'sending', nextAttemptAt: leaseUntil } },
+        { sort: { nextAttemptAt: 1 }, new: true, projection: { _id: 0, __v: 0 } }
+      ).lean<SendJob>();
+      if (!job) break;
+      claimed.push(job);
+    }
+    return claimed;
+  }
+
+  public async updateJob(id: string, changes: Partial<SendJob>): Promise<void> {
+    await SendJobModel.updateOne({ id }, { $set: changes });
+  }
+
+  public async findJobs(status?: SendJobStatus): Promise<SendJob[]> {
+    return SendJobModel.find(status ? { status } : {}, { _id: 0, __v: 0 })
+      .sort({ createdAt: 1 })
+      .lean<SendJob[]>();
+  }
+
+  public async saveCampaign(campaign: Campaign): Promise<void> {
+    await CampaignModel.updateOne(
+      { id: campaign.id },
+      { $set: { status: campaign.status, updatedAt: new Date() }, $setOnInsert: { createdAt: campaign.createdAt ?? new Date() } },
+      { upsert: true }
+    );
+  }
+
+  public async findCampaign(id: string): Promise<Campaign | null> {
+    return CampaignModel.findOne({ id }, { _id: 0, __v: 0 }).lean<Campaign>();
+  }
+
+  public async addCampaignRecipients(campaignId: string, emails: string[]): Promise<void> {
+    if (emails.length === 0) return;
+    await CampaignDeliveryModel.bulkWrite(emails.map(email => ({
+      updateOne: {
+        filter: { campaignId, email },
+        update: { $setOnInsert: { campaignId, email, status: 'pending', lastError: null, deliveredAt: null, leaseUntil: null } },
+        upsert: true,
+      },
+    })), { ordered: false });
+  }
+
+  public async findCampaignDeliveries(campaignId: string, statuses?: DeliveryStatus[]): Promise<CampaignDelivery[]> {
+    const query: FilterQuery<CampaignDelivery> = { campaignId };
+    if (statuses) query.status = { $in: statuses };
+    return CampaignDeliveryModel.find(query, { _id: 0, __v: 0 }).lean<CampaignDelivery[]>();
+  }
+
+  public async updateCampaignDelivery(campaignId: string, email: string, changes: Partial<CampaignDelivery>): Promise<void> {
+    await CampaignDeliveryModel.updateOne({ campaignId, email }, { $set: changes });
+  }
+
+  public async claimCampaignDelivery(campaignId: string, email: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const result = await CampaignDeliveryModel.updateOne(
+      {
+        campaignId,
+        email,
+        $or: [{ status: { $in: ['pending', 'failed'] } }, { status: 'sending', leaseUntil: { $lte: now } }],
+      },
+      { $set: { status: 'sending', leaseUntil } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  public async countCampaignDeliveries(campaignId: string): Promise<Record<DeliveryStatus, number>> {
+    const counts: Record<DeliveryStatus, number> = { pending: 0, sending: 0, delivered: 0, failed: 0, skipped: 0 };
+    const groups = await CampaignDeliveryModel.aggregate<{ _id: DeliveryStatus; count: number }>([
+      { $match: { campaignId } },
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+    groups.forEach(group => { counts[group._id] = group.count; });
+    return counts;
+  }
+
+  public async saveSuppressions(entries: SuppressionEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await SuppressionModel.bulkWrite(entries.map(entry => ({
+      replaceOne: { filter: { email: entry.email }, replacement: entry, upsert: true },
+    })), { ordered: false });
+  }
+
+  public async removeSuppression(email: string): Promise<boolean> {
+    const result = await SuppressionModel.deleteOne({ email });
+    return result.deletedCount > 0;
+  }
+
+  public async findSuppression(email: string): Promise<SuppressionEntry | null> {
+    return SuppressionModel.findOne({ email }, { _id: 0, __v: 0 }).lean<SuppressionEntry>();
+  }
+
+  public async listSuppressions(): Promise<SuppressionEntry[]> {
+    return SuppressionModel.find({}, { _id: 0, __v: 0 }).sort({ createdAt: -1 }).lean<SuppressionEntry[]>();
+  }
+
+  public async saveEnrollment(enrollment: SequenceEnrollment): Promise<void> {
+    await SequenceEnrollmentModel.replaceOne(
+      { sequenceId: enrollment.sequenceId, email: enrollment.email },
+      enrollment,
+      { upsert: true }
+    );
+  }
+
+  public async findEnrollments(email: string): Promise<SequenceEnrollment[]> {
+    return SequenceEnrollmentModel.find({ email }, { _id: 0, __v: 0 }).lean<SequenceEnrollment[]>();
+  }
+
+  public async claimDueEnrollments(now: Date, limit: number, leaseUntil: Date): Promise<SequenceEnrollment[]> {
+    const claimed: SequenceEnrollment[] = [];
+    // Claim one enrollment at a time so concurrent schedulers never send the same step
+    while (claimed.length < limit) {
+      const enrollment = await SequenceEnrollmentModel.findOneAndUpdate(
+        { status: 'active', nextRunAt: { $lte: now } },
+        { $set: { nextRunAt: leaseUntil } },
+        { sort: { nextRunAt: 1 }, new: true, projection: { _id: 0, __v: 0 } }
+      ).lean<SequenceEnrollment>();
+      if (!enrollment) break;
+      claimed.push(enrollment);
+    }
+    return claimed;
+  }
+
+  public async logMessage(entry: MessageLogEntry): Promise<void> {
+    await new MessageLogModel(entry).save();
+  }
+
+  public async recordMessageEvent(id: string, event: TrackingEvent, at: Date): Promise<MessageLogEntry | null> {
+    const [count, first] = event === 'open' ? ['opens', 'openedAt'] : ['clicks', 'clickedAt'];
+    await MessageLogModel.updateOne({ id, [first]: null }, { $set: { [first]: at } });
+    return MessageLogModel.findOneAndUpdate(
+      { id },
+      { $inc: { [count]: 1 } },
+      { new: true, projection: { _id: 0, __v: 0 } }
+    ).lean<MessageLogEntry>();
+  }
+
+  public async findMessages(email: string): Promise<MessageLogEntry[]> {
+    return MessageLogModel.find({ email }, { _id: 0, __v: 0 }).sort({ sentAt: -1 }).lean<MessageLogEntry[]>();
+  }
+
+  public async countMessages(filter: MessageFilter): Promise<MessageCounts> {
+    const match: FilterQuery<MessageLogEntry> = {};
+    if (filter.campaignId !== undefined) match.campaignId = filter.campaignId;
+    if (filter.template !== undefined) match.template = filter.template;
+    const [counts] = await MessageLogModel.aggregate<MessageCounts>([
+      { $match: match },
+      {
+        $group: {
+          _id: null,
+          sent: { $sum: 1 },
+          opened: { $sum: { $cond: [{ $gt: ['$opens', 0] }, 1, 0] } },
+          clicked: { $sum: { $cond: [{ $gt: ['$clicks', 0] }, 1, 0] } },
+        },
+      },
+      { $project: { _id: 0 } },
+    ]);
+    return counts ?? { sent: 0, opened: 0, clicked: 0 };
+  }
+
+  public async recordMessageFeedback(messageId: string, feedback: MessageFeedback): Promise<MessageLogEntry | null> {
+    return MessageLogModel.findOneAndUpdate(
+      { $or: [{ id: messageId }, { providerMessageId: messageId }] },
+      { $set: feedback },
+      { new: true, projection: { _id: 0, __v: 0 } }
+    ).lean<MessageLogEntry>();
+  }
+
+  public async incrementCounter(key: string, expiresAt: Date, now: Date): Promise<number> {
+    await CounterModel.deleteMany({ expiresAt: { $lte: now } });
+    const counter = await CounterModel.findOneAndUpdate(
+      { key },
+      { $inc: { count: 1 }, $setOnInsert: { expiresAt } },
+      { upsert: true, new: true }
+    ).lean<Counter>();
+    return counter!.count;
+  }
+
+  public async close(): Promise<void> {
+    // A connection reused from the application is left for the application to close
+    if (!this.ownsConnection) return;
+    await mongoose.disconnect();
+    this.ownsConnection = false;
+  }
+}
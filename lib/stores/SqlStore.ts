@@ -0,0 +1,1130 @@
+import {
+  Sequelize,
+  DataTypes,
+  Model as SequelizeModel,
+  Optional,
+  Op,
+  SyncOptions,
+  WhereOptions,
+  literal,
+  UniqueConstraintError,
+} from 'sequelize';
+import {
+  BounceSeverity,
+  Campaign,
+  CampaignDelivery,
+  CampaignState,
+  DEFAULT_LIST_ID,
+  DuplicateEmailError,
+  DeliveryStatus,
+  FieldValue,
+  InviteStatus,
+  MessageCounts,
+  MessageFeedback,
+  MessageFilter,
+  MessageLogEntry,
+  SegmentFilter,
+  SegmentPage,
+  SegmentQuery,
+  SendJob,
+  SendJobStatus,
+  SequenceEnrollment,
+  EnrollmentStatus,
+  SubscriberFields,
+  SubscriberStatus,
+  SuppressionEntry,
+  SuppressionReason,
+  TrackingEvent,
+  WaitlistAttributes,
+  WaitlistStore,
+} from './WaitlistStore';
+import { assertFieldName, normalizeCondition, toList } from './segment';
+
+/**
+ * Connection settings for SQL databases.
+ * @typedef {Object} SqlConfig
+ * @property {'postgres' | 'mysql' | 'sqlite'} dialect - The SQL dialect.
+ * @property {string} host - The SQL database host.
+ * @property {number} port - The SQL database port.
+ * @property {string} username - The SQL database username.
+ * @property {string} password - The SQL database password.
+ * @property {string} database - The SQL database name.
+ */
+export interface SqlConfig {
+  dialect: 'postgres' | 'mysql' | 'sqlite';
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  database: string;
+}
+
+/**
+ * Table sync settings: missing tables are created and columns added by later versions are added to existing tables.
+ * Columns are never dropped or changed, and every added column is nullable or has a default, so existing rows stay valid.
+ * Unique constraints on added columns are declared as named indexes rather than `unique` columns: sync creates missing
+ * indexes separately, while SQLite cannot add a column that is itself unique.
+ * @constant {SyncOptions} SYNC_OPTIONS
+ */
+const SYNC_OPTIONS: SyncOptions = { alter: { drop: false } };
+
+/**
+ * A Waitlist row. Tags are stored as a delimited string (`,vip,beta,`) so every dialect can find them as a substring.
+ * @typedef {Object} WaitlistRow
+ * @extends {Omit<WaitlistAttributes, 'tags'>}
+ */
+interface WaitlistRow extends Omit<WaitlistAttributes, 'tags'> {
+  tags?: string | null;
+}
+
+/**
+ * Creation attributes for the Waitlist model.
+ * @typedef {Object} WaitlistCreationAttributes
+ * @extends {Optional<WaitlistRow, 'email' | 'createdAt' | 'status' | 'referralCount'>}
+ */
+interface WaitlistCreationAttributes extends Optional<WaitlistRow, 'email' | 'createdAt' | 'status' | 'referralCount'> {}
+
+/**
+ * Sequelize model for the Waitlist table.
+ * @class WaitlistSequelize
+ * @extends {SequelizeModel<WaitlistRow, WaitlistCreationAttributes>}
+ * @implements {WaitlistRow}
+ */
+class WaitlistSequelize extends SequelizeModel<WaitlistRow, WaitlistCreationAttributes> implements WaitlistRow {
+  declare email: string;
+  declare originalEmail: string | null;
+  declare listId: string;
+  declare createdAt: Date;
+  declare status: SubscriberStatus;
+  declare confirmationToken: string | null;
+  declare confirmedAt: Date | null;
+  declare referralCode: string;
+  declare referredBy: string | null;
+  declare referralCount: number;
+  declare unsubscribedAt: Date | null;
+  declare locale: string | null;
+  declare fields: SubscriberFields | null;
+  declare tags: string | null;
+  declare inviteStatus: InviteStatus;
+  declare inviteCode: string | null;
+  declare inviteBatch: string | null;
+  declare invitedAt: Date | null;
+  declare joinedAt: Date | null;
+}
+
+/**
+ * Escapes LIKE wildcards using `!` as the escape character, which behaves the same in every dialect.
+ * @param {string} value - The raw string.
+ * @returns {string}
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[!%_]/g, '!$&');
+}
+
+/**
+ * JSON type names each dialect reports for null and for the JavaScript types a segment compares custom fields with.
+ * @constant {Record<string, Record<string, string[]>>} JSON_TYPES
+ */
+const JSON_TYPES: Record<string, Record<string, string[]>> = {
+  mysql: { number: ['INTEGER', 'UNSIGNED INTEGER', 'DOUBLE', 'DECIMAL'], string: ['STRING'], boolean: ['BOOLEAN'], null: ['NULL'] },
+  postgres: { number: ['number'], string: ['string'], boolean: ['boolean'], null: ['null'] },
+  sqlite: { number: ['integer', 'real'], string: ['text'], boolean: ['true', 'false'], null: ['null'] },
+};
+
+/**
+ * Encodes tags for the delimited `tags` column.
+ * @param {string[] | undefined} tags - The tags.
+ * @returns {string | null}
+ */
+function serializeTags(tags?: string[]): string | null {
+  return tags && tags.length > 0 ? `,${tags.join(',')},` : null;
+}
+
+/**
+ * Converts a Waitlist row into store attributes.
+ * @param {WaitlistSequelize} record - The row.
+ * @returns {WaitlistAttributes}
+ */
+function toAttributes(record: WaitlistSequelize): WaitlistAttributes {
+  const { tags, ...attributes } = record.get({ plain: true });
+  return { ...attributes, tags: tags ? tags.split(',').filter(Boolean) : [] };
+}
+
+/**
+ * Converts store attributes into Waitlist row values.
+ * @param {Partial<WaitlistAttributes>} attributes - The attributes.
+ * @returns {Partial<WaitlistRow>}
+ */
+function toRow(attributes: Partial<WaitlistAttributes>): Partial<WaitlistRow> {
+  const { tags, ...row } = attributes;
+  return tags === undefined ? row : { ...row, tags: serializeTags(tags) };
+}
+
+/**
+ * Sequelize model for the SendJobs table.
+ * @class SendJobSequelize
+ * @extends {SequelizeModel<SendJob, Optional<SendJob, 'createdAt'>>}
+ * @implements {SendJob}
+ */
+class SendJobSequelize extends SequelizeModel<SendJob, Optional<SendJob, 'createdAt'>> implements SendJob {
+  declare id: string;
+  declare email: string;
+  declare subject: string;
+  declare html: string;
+  declare status: SendJobStatus;
+  declare attempts: number;
+  declare nextAttemptAt: Date;
+  declare lastError: string | null;
+  declare provider: string | null;
+  declare listId: string | null;
+  declare createdAt: Date;
+}
+
+/**
+ * Sequelize model for the Campaigns table.
+ * @class CampaignSequelize
+ * @extends {SequelizeModel<Campaign, Optional<Campaign, 'createdAt' | 'updatedAt'>>}
+ * @implements {Campaign}
+ */
+class CampaignSequelize extends SequelizeModel<Campaign, Optional<Campaign, 'createdAt' | 'updatedAt'>> implements Campaign {
+  declare id: string;
+  declare status: CampaignState;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+/**
+ * Sequelize model for the CampaignDeliveries table.
+ * @class CampaignDeliverySequelize
+ * @extends {SequelizeModel<CampaignDelivery>}
+ * @implements {CampaignDelivery}
+ */
+class CampaignDeliverySequelize extends SequelizeModel<CampaignDelivery> implements CampaignDelivery {
+  declare campaignId: string;
+  declare email: string;
+  declare status: DeliveryStatus;
+  declare lastError: string | null;
+  declare deliveredAt: Date | null;
+  declare leaseUntil: Date | null;
+}
+
+/**
+ * Sequelize model for the Suppressions table.
+ * @class SuppressionSequelize
+ * @extends {SequelizeModel<SuppressionEntry>}
+ * @implements {SuppressionEntry}
+ */
+class SuppressionSequelize extends SequelizeModel<SuppressionEntry> implements SuppressionEntry {
+  declare email: string;
+  declare reason: SuppressionReason;
+  declare createdAt: Date;
+  declare expiresAt: Date | null;
+  declare note: string | null;
+}
+
+/**
+ * Sequelize model for the SequenceEnrollments table.
+ * @class SequenceEnrollmentSequelize
+ * @extends {SequelizeModel<SequenceEnrollment>}
+ * @implements {SequenceEnrollment}
+ */
+class SequenceEnrollmentSequelize extends SequelizeModel<SequenceEnrollment> implements SequenceEnrollment {
+  declare sequenceId: string;
+  declare email: string;
+  declare listId: string;
+  declare step: number;
+  declare status: EnrollmentStatus;
+  declare nextRunAt: Date | null;
+  declare attempts: number;
+  declare lastError: string | null;
+  declare lastSentAt: Date | null;
+  declare createdAt: Date;
+}
+
+/**
+ * Sequelize model for the MessageLog table.
+ * @class MessageLogSequelize
+ * @extends {SequelizeModel<MessageLogEntry>}
+ * @implements {MessageLogEntry}
+ */
+class MessageLogSequelize extends SequelizeModel<MessageLogEntry> implements MessageLogEntry {
+  declare id: string;
+  declare email: string;
+  declare listId: string | null;
+  declare subject: string;
+  declare template: string | null;
+  declare campaignId: string | null;
+  declare provider: string;
+  declare providerMessageId: string | null;
+  declare response: string | null;
+  declare sentAt: Date;
+  declare opens: number;
+  declare clicks: number;
+  declare openedAt: Date | null;
+  declare clickedAt: Date | null;
+  declare bounce: BounceSeverity | null;
+  declare bouncedAt: Date | null;
+  declare complainedAt: Date | null;
+}
+
+/**
+ * A rate-limit counter row.
+ * @private
+ */
+interface CounterRow {
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+/**
+ * Sequelize model for the Counters table.
+ * @class CounterSequelize
+ * @extends {SequelizeModel<CounterRow>}
+ * @implements {CounterRow}
+ */
+class CounterSequelize extends SequelizeModel<CounterRow> implements CounterRow {
+  declare key: string;
+  declare count: number;
+  declare expiresAt: Date;
+}
+
+/**
+ * SQL storage adapter backed by the `Waitlists` table (PostgreSQL, MySQL or SQLite).
+ * @class SqlStore
+ * @implements {WaitlistStore}
+ */
+export class SqlStore implements WaitlistStore {
+  private sqlConnection: Sequelize;
+
+  /**
+   * Creates an instance of SqlStore.
+   * @param {SqlConfig | Sequelize} config - The connection settings or an existing Sequelize instance.
+   */
+  constructor(config: SqlConfig | Sequelize) {
+    this.sqlConnection = config instanceof Sequelize
+      ? config
+      : new Sequelize({
+        dialect: config.dialect,
+        host: config.host,
+        port: config.port,
+        username: config.username,
+        password: config.password,
+        database: config.database,
+        logging: false,
+      });
+  }
+
+  public async connect(): Promise<void> {
+    WaitlistSequelize.init({
+      email: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      originalEmail: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      listId: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+        defaultValue: DEFAULT_LIST_ID,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+      },
+      status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'confirmed',
+      },
+      confirmationToken: {
+        type: DataTypes.STRING(512),
+        allowNull: true,
+      },
+      confirmedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      referralCode: {
+        type: DataTypes.STRING(32),
+        allowNull: true,
+      },
+      referredBy: {
+        type: DataTypes.STRING(32),
+        allowNull: true,
+      },
+      referralCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      unsubscribedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      locale: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      fields: {
+        type: DataTypes.JSON,
+        allowNull: true,
+      },
+      tags: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      inviteStatus: {
+        type: DataTypes.STRING(16),
+        allowNull: true,
+        defaultValue: 'waiting',
+      },
+      inviteCode: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+      },
+      inviteBatch: {
+        type: DataTypes.STRING(128),
+        allowNull: true,
+      },
+      invitedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      joinedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    }, {
+      sequelize: this.sqlConnection,
+      modelName: 'Waitlist',
+      indexes: [
+        { unique: true, fields: ['listId', 'email'] },
+        { fields: ['listId', 'inviteBatch'] },
+        { name: 'waitlists_referral_code', unique: true, fields: ['referralCode'] },
+        { name: 'waitlists_invite_code', unique: true, fields: ['inviteCode'] },
+      ],
+    });
+
+    SendJobSequelize.init({
+      id: {
+        type: DataTypes.STRING(32),
+        primaryKey: true,
+      },
+      email: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      subject: {
+        type: DataTypes.STRING(998),
+        allowNull: false,
+      },
+      html: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'queued',
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      nextAttemptAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      provider: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      listId: {
+        type: DataTypes.STRING(128),
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+      },
+    }, {
+      sequelize: this.sqlConnection,
+      modelName: 'SendJob',
+      indexes: [{ fields: ['status', 'nextAttemptAt'] }],
+    });
+
+    CampaignSequelize.init({
+      id: {
+        type: DataTypes.STRING(128),
+        primaryKey: true,
+      },
+      status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+      },
+    }, {
+      sequelize: this.sqlConnection,
+      modelName: 'Campaign',
+    });
+
+    CampaignDeliverySequelize.init({
+      campaignId: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+      },
+      email: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      deliveredAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      leaseUntil: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    }, {
+      sequelize: this.sqlConnection,
+      modelName: 'CampaignDelivery',
+      timestamps: false,
+      indexes: [
+        { unique: true, fields: ['campaignId', 'email'] },
+        { fields: ['campaignId', 'status'] },
+      ],
+    });
+
+    SuppressionSequelize.init({
+      email: {
+        type: DataTypes.STRING,
+        primaryKey: true,
+      },
+      reason: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      note: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+    }, {
+      sequelize: this.sqlConnection,
+      modelName: 'Suppression',
+      updatedAt: false,
+    });
+
+    SequenceEnrollmentSequelize.init({
+      sequenceId: {
+        type: DataTypes.STRING(128),
+        primaryKey: true,
+      },
+      email: {
+        type: DataTypes.STRING,
+        primaryKey: true,
+      },
+      listId: {
+        type: DataTypes.STRING(128),
+        allowNull: false,
+        defaultValue: DEFAULT_LIST_ID,
+      },
+      step: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      status: {
+        type: DataTypes.STRING(16),
+        allowNull: false,
+        defaultValue: 'active',
+      },
+      nextRunAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      lastSentAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+      },
+    }, {
+      sequelize: this.sqlConnection,
+      modelName: 'SequenceEnrollment',
+      updatedAt: false,
+      indexes: [{ fields: ['email'] }, { fields: ['status', 'nextRunAt'] }],
+    });
+
+    MessageLogSequelize.init({
+      id: {
+        type: DataTypes.STRING(32),
+        primaryKey: true,
+      },
+      email: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      listId: {
+        type: DataTypes.STRING(128),
+        allowNull: true,
+      },
+      subject: {
+        type: DataTypes.STRING(998),
+        allowNull: false,
+      },
+      template: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      campaignId: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      provider: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      providerMessageId: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      response: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      sentAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      opens: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      clicks: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      openedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      clickedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      bounce: {
+        type: DataTypes.ENUM('hard', 'soft'),
+        allowNull: true,
+      },
+      bouncedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      complainedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    }, {
+      sequelize: this.sqlConnection,
+      modelName: 'MessageLog',
+      timestamps: false,
+      indexes: [{ fields: ['email'] }, { fields: ['campaignId'] }, { fields: ['template'] }, { fields: ['providerMessageId'] }],
+    });
+
+    CounterSequelize.init({
+      key: {
+        type: DataTypes.STRING,
+        primaryKey: true,
+      },
+      count: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    }, {
+      sequelize: this.sqlConnection,
+      modelName: 'Counter',
+      timestamps: false,
+      indexes: [{ fields: ['expiresAt'] }],
+    });
+
+    await this.sqlConnection.authenticate();
+    await WaitlistSequelize.sync(SYNC_OPTIONS);
+    await SendJobSequelize.sync(SYNC_OPTIONS);
+    await CampaignSequelize.sync(SYNC_OPTIONS);
+    await CampaignDeliverySequelize.sync(SYNC_OPTIONS);
+    await SuppressionSequelize.sync(SYNC_OPTIONS);
+    await SequenceEnrollmentSequelize.sync(SYNC_OPTIONS);
+    await MessageLogSequelize.sync(SYNC_OPTIONS);
+    await CounterSequelize.sync(SYNC_OPTIONS);
+  }
+
+  public async ping(): Promise<void> {
+    await this.sqlConnection.authenticate();
+  }
+
+  public async loadEmails(status?: SubscriberStatus, listId: string = DEFAULT_LIST_ID): Promise<string[]> {
+    const records = await WaitlistSequelize.findAll({ where: status ? { listId, status } : { listId } });
+    return records.map(record => record.email);
+  }
+
+  public async findOne(email: string, listId: string = DEFAULT_LIST_ID): Promise<WaitlistAttributes | null> {
+    const record = await WaitlistSequelize.findOne({ where: { listId, email } });
+    return record ? toAttributes(record) : null;
+  }
+
+  public async findAll(listId: string = DEFAULT_LIST_ID): Promise<WaitlistAttributes[]> {
+    const records = await WaitlistSequelize.findAll({ where: { listId }, order: [['createdAt', 'ASC']] });
+    return records.map(toAttributes);
+  }
+
+  public async findByReferralCode(code: string): Promise<WaitlistAttributes | null> {
+    const record = await WaitlistSequelize.findOne({ where: { referralCode: code } });
+    return record ? toAttributes(record) : null;
+  }
+
+  public async incrementReferralCount(email: string, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await WaitlistSequelize.increment('referralCount', { where: { listId, email } });
+  }
+
+  public async insert(record: WaitlistAttributes): Promise<void> {
+    try {
+      await WaitlistSequelize.create(toRow(record) as WaitlistRow);
+    } catch (error) {
+      // Other unique indexes (referral and invite codes) fail with the same error, and how the violated
+      // index is reported differs between dialects, so the entry is looked up instead
+      const listId = record.listId ?? DEFAULT_LIST_ID;
+      if (error instanceof UniqueConstraintError && await WaitlistSequelize.count({ where: { listId, email: record.email } }) > 0) {
+        throw new DuplicateEmailError(record.email, listId);
+      }
+      throw error;
+    }
+  }
+
+  public async insertMany(records: WaitlistAttributes[]): Promise<void> {
+    if (records.length === 0) return;
+    await WaitlistSequelize.bulkCreate(records.map(record => toRow(record) as WaitlistRow));
+  }
+
+  public async update(email: string, changes: Partial<WaitlistAttributes>, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await WaitlistSequelize.update(toRow(changes), { where: { listId, email } });
+  }
+
+  public async remove(email: string, listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await WaitlistSequelize.destroy({ where: { listId, email } });
+  }
+
+  public async clear(listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await WaitlistSequelize.destroy({ where: { listId } });
+  }
+
+  public async findByPattern(pattern: string, listId: string = DEFAULT_LIST_ID): Promise<string[]> {
+    const records = await WaitlistSequelize.findAll({
+      where: { [Op.and]: [{ listId }, this.like(`%${escapeLike(pattern.toLowerCase())}%`)] },
+    });
+    return records.map(record => record.email);
+  }
+
+  public async countByDate(start?: Date, end?: Date, listId: string = DEFAULT_LIST_ID): Promise<number> {
+    const range = start && end
+      ? { [Op.between]: [start, end] }
+      : start ? { [Op.gte]: start } : end ? { [Op.lte]: end } : undefined;
+    const where: WhereOptions<WaitlistRow> = range ? { listId, createdAt: range } : { listId };
+    return WaitlistSequelize.count({ where });
+  }
+
+  public async findSegment(query: SegmentQuery): Promise<SegmentPage> {
+    const where = query.filter ? this.toWhere(query.filter) : {};
+    if (query.limit === 0) {
+      return { items: [], total: await WaitlistSequelize.count({ where }) };
+    }
+
+    const field = query.sort?.field ?? 'createdAt';
+    const direction = query.sort?.direction === 'desc' ? 'DESC' : 'ASC';
+    const { rows, count } = await WaitlistSequelize.findAndCountAll({
+      where,
+      order: field === 'email' ? [['email', direction]] : [[field, direction], ['email', 'ASC']],
+      offset: query.offset ?? 0,
+      limit: query.limit,
+    });
+    return { items: rows.map(toAttributes), total: count };
+  }
+
+  public async replaceAll(emails: string[], listId: string = DEFAULT_LIST_ID): Promise<void> {
+    await this.sqlConnection.transaction(async t => {
+      const stale = emails.length > 0 ? { listId, email: { [Op.notIn]: emails } } : { listId };
+      await WaitlistSequelize.destroy({ where: stale, transaction: t });
+      if (emails.length > 0) {
+        await WaitlistSequelize.bulkCreate(
+          emails.map(email => ({ email, listId })),
+          { transaction: t, ignoreDuplicates: true }
+        );
+      }
+    });
+  }
+
+  public async redeemInviteCode(code: string, joinedAt: Date): Promise<WaitlistAttributes | null> {
+    const [updated] = await WaitlistSequelize.update(
+      { inviteStatus: 'joined', joinedAt },
+      { where: { inviteCode: code, inviteStatus: 'invited' } }
+    );
+    if (updated === 0) return null;
+    const record = await WaitlistSequelize.findOne({ where: { inviteCode: code } });
+    return record ? toAttributes(record) : null;
+  }
+
+  public async countInviteFunnel(listId: string = DEFAULT_LIST_ID, batchId?: string): Promise<Record<InviteStatus, number>> {
+    const counts: Record<InviteStatus, number> = { waiting: 0, invited: 0, joined: 0 };
+    const groups = await WaitlistSequelize.count({
+      where: batchId === undefined ? { listId } : { listId, inviteBatch: batchId },
+      group: ['inviteStatus'],
+    });
+    // Rows stored before invites existed have no inviteStatus and are still waiting
+    groups.forEach(group => { counts[(group.inviteStatus as InviteStatus | null) ?? 'waiting'] += group.count; });
+    return counts;
+  }
+
+  public async enqueueJob(job: SendJob): Promise<void> {
+    await SendJobSequelize.create(job);
+  }
+
+  public async claimDueJobs(now: Date, limit: number, leaseUntil: Date): Promise<SendJob[]> {
+    return this.sqlConnection.transaction(async t => {
+      const jobs = await SendJobSequelize.findAll({
+        where: { status: { [Op.in]: ['queued', 'sending'] }, nextAttemptAt: { [Op.lte]: now } },
+        order: [['nextAttemptAt', 'ASC']],
+        limit,
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+        skipLocked: true,
+      });
+      if (jobs.length === 0) return [];
+
+      await SendJobSequelize.update(
+        { status: 'sending', nextAttemptAt: leaseUntil },
+        { where: { id: jobs.map(job => job.id) }, transaction: t }
+      );
+      return jobs.map(job => ({ ...job.get({ plain: true }), status: 'sending' as SendJobStatus, nextAttemptAt: leaseUntil }));
+    });
+  }
+
+  public async updateJob(id: string, changes: Partial<SendJob>): Promise<void> {
+    await SendJobSequelize.update(changes, { where: { id } });
+  }
+
+  public async findJobs(status?: SendJobStatus): Promise<SendJob[]> {
+    const jobs = await SendJobSequelize.findAll({
+      where: status ? { status } : {},
+      order: [['createdAt', 'ASC']],
+    });
+    return jobs.map(job => job.get({ plain: true }));
+  }
+
+  public async saveCampaign(campaign: Campaign): Promise<void> {
+    const existing = await CampaignSequelize.findByPk(campaign.id);
+    if (existing) {
+      await existing.update({ status: campaign.status });
+    } else {
+      await CampaignSequelize.create(campaign);
+    }
+  }
+
+  public async findCampaign(id: string): Promise<Campaign | null> {
+    const campaign = await CampaignSequelize.findByPk(id);
+    return campaign ? campaign.get({ plain: true }) : null;
+  }
+
+  public async addCampaignRecipients(campaignId: string, emails: string[]): Promise<void> {
+    if (emails.length === 0) return;
+    await CampaignDeliverySequelize.bulkCreate(
+      emails.map(email => ({ campaignId, email, status: 'pending' as DeliveryStatus })),
+      { ignoreDuplicates: true }
+    );
+  }
+
+  public async findCampaignDeliveries(campaignId: string, statuses?: DeliveryStatus[]): Promise<CampaignDelivery[]> {
+    const where: WhereOptions<CampaignDelivery> = statuses ? { campaignId, status: { [Op.in]: statuses } } : { campaignId };
+    const rows = await CampaignDeliverySequelize.findAll({ where });
+    return rows.map(row => row.get({ plain: true }));
+  }
+
+  public async updateCampaignDelivery(campaignId: string, email: string, changes: Partial<CampaignDelivery>): Promise<void> {
+    await CampaignDeliverySequelize.update(changes, { where: { campaignId, email } });
+  }
+
+  public async claimCampaignDelivery(campaignId: string, email: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const [claimed] = await CampaignDeliverySequelize.update({ status: 'sending', leaseUntil }, {
+      where: {
+        campaignId,
+        email,
+        [Op.or]: [{ status: { [Op.in]: ['pending', 'failed'] } }, { status: 'sending', leaseUntil: { [Op.lte]: now } }],
+      },
+    });
+    return claimed === 1;
+  }
+
+  public async countCampaignDeliveries(campaignId: string): Promise<Record<DeliveryStatus, number>> {
+    const counts: Record<DeliveryStatus, number> = { pending: 0, sending: 0, delivered: 0, failed: 0, skipped: 0 };
+    const groups = await CampaignDeliverySequelize.count({ where: { campaignId }, group: ['status'] });
+    groups.forEach(group => { counts[group.status as DeliveryStatus] = group.count; });
+    return counts;
+  }
+
+  public async saveSuppressions(entries: SuppressionEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await SuppressionSequelize.bulkCreate(entries, {
+      updateOnDuplicate: ['reason', 'createdAt', 'expiresAt', 'note'],
+    });
+  }
+
+  public async removeSuppression(email: string): Promise<boolean> {
+    return (await SuppressionSequelize.destroy({ where: { email } })) > 0;
+  }
+
+  public async findSuppression(email: string): Promise<SuppressionEntry | null> {
+    const entry = await SuppressionSequelize.findByPk(email);
+    return entry ? entry.get({ plain: true }) : null;
+  }
+
+  public async listSuppressions(): Promise<SuppressionEntry[]> {
+    const entries = await SuppressionSequelize.findAll({ order: [['createdAt', 'DESC']] });
+    return entries.map(entry => entry.get({ plain: true }));
+  }
+
+  public async saveEnrollment(enrollment: SequenceEnrollment): Promise<void> {
+    await SequenceEnrollmentSequelize.upsert(enrollment);
+  }
+
+  public async findEnrollments(email: string): Promise<SequenceEnrollment[]> {
+    const enrollments = await SequenceEnrollmentSequelize.findAll({ where: { email } });
+    return enrollments.map(enrollment => enrollment.get({ plain: true }));
+  }
+
+  public async claimDueEnrollments(now: Date, limit: number, leaseUntil: Date): Promise<SequenceEnrollment[]> {
+    return this.sqlConnection.transaction(async t => {
+      const enrollments = await SequenceEnrollmentSequelize.findAll({
+        where: { status: 'active', nextRunAt: { [Op.lte]: now } },
+        order: [['nextRunAt', 'ASC']],
+        limit,
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+        skipLocked: true,
+      });
+
+      for (const enrollment of enrollments) {
+        await enrollment.update({ nextRunAt: leaseUntil }, { transaction: t });
+      }
+      return enrollments.map(enrollment => enrollment.get({ plain: true }));
+    });
+  }
+
+  public async logMessage(entry: MessageLogEntry): Promise<void> {
+    await MessageLogSequelize.create(entry);
+  }
+
+  public async recordMessageEvent(id: string, event: TrackingEvent, at: Date): Promise<MessageLogEntry | null> {
+    const [count, first] = event === 'open' ? ['opens', 'openedAt'] as const : ['clicks', 'clickedAt'] as const;
+    await MessageLogSequelize.update({ [first]: at }, { where: { id, [first]: null } });
+    await MessageLogSequelize.increment(count, { where: { id } });
+    const entry = await MessageLogSequelize.findByPk(id);
+    return entry ? entry.get({ plain: true }) : null;
+  }
+
+  public async findMessages(email: string): Promise<MessageLogEntry[]> {
+    const entries = await MessageLogSequelize.findAll({ where: { email }, order: [['sentAt', 'DESC']] });
+    return entries.map(entry => entry.get({ plain: true }));
+  }
+
+  public async countMessages(filter: MessageFilter): Promise<MessageCounts> {
+    const where: WhereOptions<MessageLogEntry> = {};
+    if (filter.campaignId !== undefined) where.campaignId = filter.campaignId;
+    if (filter.template !== undefined) where.template = filter.template;
+    const [sent, opened, clicked] = await Promise.all([
+      MessageLogSequelize.count({ where }),
+      MessageLogSequelize.count({ where: { ...where, opens: { [Op.gt]: 0 } } }),
+      MessageLogSequelize.count({ where: { ...where, clicks: { [Op.gt]: 0 } } }),
+    ]);
+    return { sent, opened, clicked };
+  }
+
+  public async recordMessageFeedback(messageId: string, feedback: MessageFeedback): Promise<MessageLogEntry | null> {
+    const entry = await MessageLogSequelize.findOne({
+      where: { [Op.or]: [{ id: messageId }, { providerMessageId: messageId }] },
+    });
+    if (!entry) return null;
+    await entry.update(feedback);
+    return entry.get({ plain: true });
+  }
+
+  public async incrementCounter(key: string, expiresAt: Date, now: Date): Promise<number> {
+    await CounterSequelize.destroy({ where: { expiresAt: { [Op.lte]: now } } });
+    const [counter, created] = await CounterSequelize.findOrCreate({ where: { key }, defaults: { key, count: 1, expiresAt } });
+    if (created) return 1;
+
+    await counter.increment('count');
+    await counter.reload();
+    return counter.count;
+  }
+
+  public async close(): Promise<void> {
+    await this.sqlConnection.close();
+  }
+
+  /**
+   * Builds a LIKE condition on the email with `!` as the escape character. Emails are compared in lower case.
+   * @private
+   * @param {string} pattern - The escaped LIKE pattern.
+   * @returns {ReturnType<typeof literal>}
+   */
+  private like(pattern: string): ReturnType<typeof literal> {
+    return literal(`LOWER(email) LIKE ${this.sqlConnection.escape(pattern)} ESCAPE '!'`);
+  }
+
+  /**
+   * Builds a case-sensitive tag condition. LIKE ignores case in MySQL and SQLite, so the tag is located as a substring
+   * of the delimited column instead, compared byte by byte in MySQL.
+   * @private
+   * @param {string} tag - The tag.
+   * @param {boolean} [negate=false] - Whether to match rows without the tag.
+   * @returns {ReturnType<typeof literal>}
+   */
+  private hasTag(tag: string, negate: boolean = false): ReturnType<typeof literal> {
+    const needle = this.sqlConnection.escape(`,${tag},`);
+    const dialect = this.sqlConnection.getDialect();
+    const position = dialect === 'postgres' ? `strpos(tags, ${needle})`
+      : dialect === 'mysql' ? `INSTR(CAST(tags AS BINARY), ${needle})` : `instr(tags, ${needle})`;
+    return literal(`${position} ${negate ? '=' : '>'} 0`);
+  }
+
+  /**
+   * Builds a condition on the JSON type of a custom field, so that e.g. the number 10 never matches the string "10".
+   * Missing fields have no type and count as null.
+   * @private
+   * @param {string} name - The field name, already checked with `assertFieldName`.
+   * @param {FieldValue} value - The value whose type the field must have.
+   * @param {boolean} [negate=false] - Whether to match fields of any other type instead.
+   * @returns {ReturnType<typeof literal>}
+   */
+  private hasJsonType(name: string, value: FieldValue, negate: boolean = false): ReturnType<typeof literal> {
+    const dialect = this.sqlConnection.getDialect();
+    const type = dialect === 'postgres' ? `json_typeof(fields->'${name}')`
+      : dialect === 'mysql' ? `JSON_TYPE(JSON_EXTRACT(fields, '$.${name}'))` : `json_type(fields, '$.${name}')`;
+    const names = JSON_TYPES[dialect][value === null ? 'null' : typeof value].map(typeName => this.sqlConnection.escape(typeName)).join(', ');
+    if (value === null && !negate) return literal(`(${type} IS NULL OR ${type} IN (${names}))`);
+    return literal(`${type} ${negate ? 'NOT IN' : 'IN'} (${names})`);
+  }
+
+  /**
+   * Translates a segment into a Sequelize where clause with the semantics of `matchesSegment`.
+   * @private
+   * @param {SegmentFilter} filter - The segment.
+   * @returns {WhereOptions<WaitlistRow>}
+   */
+  private toWhere(filter: SegmentFilter): WhereOptions<WaitlistRow> {
+    const conditions: WhereOptions<WaitlistRow>[] = [];
+
+    if (filter.listId !== undefined) conditions.push({ listId: { [Op.in]: toList(filter.listId) } });
+
+    const domains = toList(filter.email?.domain);
+    if (domains.length > 0) {
+      conditions.push({ [Op.or]: domains.map(domain => this.like(`%@${escapeLike(domain.toLowerCase())}`)) });
+    }
+    if (filter.email?.contains) {
+      conditions.push(this.like(`%${escapeLike(filter.email.contains.toLowerCase())}%`));
+    }
+
+    if (filter.createdAt?.from) conditions.push({ createdAt: { [Op.gte]: filter.createdAt.from } });
+    if (filter.createdAt?.to) conditions.push({ createdAt: { [Op.lte]: filter.createdAt.to } });
+
+    const statuses = toList(filter.status);
+    if (statuses.length > 0) conditions.push({ status: { [Op.in]: statuses } });
+    if (filter.unsubscribed !== undefined) {
+      conditions.push({ unsubscribedAt: filter.unsubscribed ? { [Op.ne]: null } : null });
+    }
+
+    if (filter.referralCount?.min !== undefined) conditions.push({ referralCount: { [Op.gte]: filter.referralCount.min } });
+    if (filter.referralCount?.max !== undefined) conditions.push({ referralCount: { [Op.lte]: filter.referralCount.max } });
+
+    filter.tags?.all?.forEach(tag => conditions.push(this.hasTag(tag)));
+    if (filter.tags?.any) {
+      conditions.push({ [Op.or]: filter.tags.any.map(tag => this.hasTag(tag)) });
+    }
+    filter.tags?.none?.forEach(tag => conditions.push({ [Op.or]: [{ tags: null }, this.hasTag(tag, true)] }));
+
+    for (const [name, condition] of Object.entries(filter.fields ?? {})) {
+      assertFieldName(name);
+      const path = (value: unknown) => ({ fields: { [name]: value } });
+      // JSON values are compared as text or with casts, so each comparison also checks the stored type
+      const typed = (value: FieldValue, comparison: unknown): WhereOptions<WaitlistRow> =>
+        (value === null ? this.hasJsonType(name, null) : { [Op.and]: [this.hasJsonType(name, value), path(comparison)] });
+      const { eq, ne, in: within, gt, gte, lt, lte, exists } = normalizeCondition(condition);
+
+      if (eq !== undefined) conditions.push(typed(eq, eq));
+      // SQL comparisons never match NULL, while a missing field is "not equal" to any value
+      if (ne !== undefined) {
+        conditions.push(ne === null
+          ? this.hasJsonType(name, null, true)
+          : { [Op.or]: [path({ [Op.ne]: ne }), this.hasJsonType(name, null), this.hasJsonType(name, ne, true)] });
+      }
+      if (within !== undefined) {
+        conditions.push(within.length > 0 ? { [Op.or]: within.map(value => typed(value, value)) } : path({ [Op.in]: [] }));
+      }
+      if (gt !== undefined) conditions.push(typed(gt, { [Op.gt]: gt }));
+      if (gte !== undefined) conditions.push(typed(gte, { [Op.gte]: gte }));
+      if (lt !== undefined) conditions.push(typed(lt, { [Op.lt]: lt }));
+      if (lte !== undefined) conditions.push(typed(lte, { [Op.lte]: lte }));
+      if (exists !== undefined) conditions.push(this.hasJsonType(name, null, exists));
+    }
+
+    return conditions.length > 0 ? { [Op.and]: conditions } : {};
+  }
+}
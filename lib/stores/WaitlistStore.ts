@@ -0,0 +1,753 @@
+/**
+ * The list that entries belong to when no list is named.
+ * @constant {string} DEFAULT_LIST_ID
+ */
+export const DEFAULT_LIST_ID = 'default';
+
+/**
+ * Subscription state of a waitlist entry.
+ * `pending` entries signed up with double opt-in enabled and have not confirmed yet.
+ * @typedef {'pending' | 'confirmed'} SubscriberStatus
+ */
+export type SubscriberStatus = 'pending' | 'confirmed';
+
+/**
+ * Access state of a waitlist entry: still `waiting`, `invited` in a batch, or `joined` with a redeemed invite.
+ * @typedef {'waiting' | 'invited' | 'joined'} InviteStatus
+ */
+export type InviteStatus = 'waiting' | 'invited' | 'joined';
+
+/**
+ * Custom subscriber fields, validated against the schema declared in the mailer options.
+ * @typedef {Object<string, unknown>} SubscriberFields
+ */
+export type SubscriberFields = Record<string, unknown>;
+
+/**
+ * Attributes for a waitlist entry.
+ * @typedef {Object} WaitlistAttributes
+ * @property {string} email - The canonical email address, unique per list (see `normalizeEmail`).
+ * @property {string | null} [originalEmail] - The address as the subscriber entered it.
+ * @property {string} [listId='default'] - The named list the entry belongs to; an email can be on several lists.
+ * @property {Date} [createdAt] - The creation date of the record.
+ * @property {SubscriberStatus} [status] - The subscription state (defaults to 'confirmed').
+ * @property {string | null} [confirmationToken] - The outstanding double opt-in token, if any.
+ * @property {Date | null} [confirmedAt] - When the entry confirmed its subscription.
+ * @property {string} [referralCode] - The entry's own unique referral code.
+ * @property {string | null} [referredBy] - The referral code the entry signed up with.
+ * @property {number} [referralCount] - How many successful referrals the entry has made.
+ * @property {Date | null} [unsubscribedAt] - When the entry unsubscribed; unsubscribed entries stay on the list but receive no mail.
+ * @property {string | null} [locale] - The preferred locale for templated emails.
+ * @property {SubscriberFields | null} [fields] - Custom fields collected at signup (e.g., name, company, UTM parameters).
+ * @property {string[]} [tags] - Free-form labels used for segmentation.
+ * @property {InviteStatus} [inviteStatus] - The access state (defaults to 'waiting').
+ * @property {string | null} [inviteCode] - The single-use invite code, unique across lists.
+ * @property {string | null} [inviteBatch] - The invite batch the entry was invited in.
+ * @property {Date | null} [invitedAt] - When the entry was invited.
+ * @property {Date | null} [joinedAt] - When the entry redeemed its invite.
+ */
+export interface WaitlistAttributes {
+  email: string;
+  originalEmail?: string | null;
+  listId?: string;
+  createdAt?: Date;
+  status?: SubscriberStatus;
+  confirmationToken?: string | null;
+  confirmedAt?: Date | null;
+  referralCode?: string;
+  referredBy?: string | null;
+  referralCount?: number;
+  unsubscribedAt?: Date | null;
+  locale?: string | null;
+  fields?: SubscriberFields | null;
+  tags?: string[];
+  inviteStatus?: InviteStatus;
+  inviteCode?: string | null;
+  inviteBatch?: string | null;
+  invitedAt?: Date | null;
+  joinedAt?: Date | null;
+}
+
+/**
+ * A scalar custom field value that segments can compare against.
+ * @typedef {string | number | boolean | null} FieldValue
+ */
+export type FieldValue = string | number | boolean | null;
+
+/**
+ * A condition on a custom field. A bare value means equality; `null` matches missing fields.
+ * `exists: true` matches fields that are set to a non-null value.
+ * @typedef {FieldValue | Object} FieldCondition
+ */
+export type FieldCondition = FieldValue | {
+  eq?: FieldValue;
+  ne?: FieldValue;
+  in?: FieldValue[];
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+  exists?: boolean;
+};
+
+/**
+ * A segment of the waitlist. Every given criterion must match; ranges are inclusive.
+ * @typedef {Object} SegmentFilter
+ * @property {string | string[]} [listId] - The list(s) to search; every list when omitted.
+ * @property {Object} [email] - `domain` matches the exact domain (or any of several); `contains` is a case-insensitive substring.
+ * @property {Object} [createdAt] - Signup date range (`from`, `to`).
+ * @property {SubscriberStatus | SubscriberStatus[]} [status] - The subscription state(s).
+ * @property {boolean} [unsubscribed] - Whether the entry has unsubscribed.
+ * @property {Object} [referralCount] - Referral count range (`min`, `max`).
+ * @property {Object} [tags] - Tags the entry must have (`all`), at least one of (`any`) or none of (`none`).
+ * @property {Record<string, FieldCondition>} [fields] - Conditions on custom fields.
+ */
+export interface SegmentFilter {
+  listId?: string | string[];
+  email?: { domain?: string | string[]; contains?: string };
+  createdAt?: { from?: Date; to?: Date };
+  status?: SubscriberStatus | SubscriberStatus[];
+  unsubscribed?: boolean;
+  referralCount?: { min?: number; max?: number };
+  tags?: { all?: string[]; any?: string[]; none?: string[] };
+  fields?: Record<string, FieldCondition>;
+}
+
+/**
+ * Sortable waitlist attributes.
+ * @typedef {'createdAt' | 'email' | 'referralCount'} SegmentSortField
+ */
+export type SegmentSortField = 'createdAt' | 'email' | 'referralCount';
+
+/**
+ * A paginated, sorted segment query. Ties are broken by email so pages are stable.
+ * @typedef {Object} SegmentQuery
+ * @property {SegmentFilter} [filter] - The segment (everyone when omitted).
+ * @property {Object} [sort] - The sort field and direction (defaults to `createdAt` ascending).
+ * @property {number} [limit] - The page size (no limit when omitted).
+ * @property {number} [offset=0] - The number of entries to skip.
+ */
+export interface SegmentQuery {
+  filter?: SegmentFilter;
+  sort?: { field: SegmentSortField; direction?: 'asc' | 'desc' };
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A page of segment results.
+ * @typedef {Object} SegmentPage
+ * @property {WaitlistAttributes[]} items - The entries on this page.
+ * @property {number} total - The number of entries in the whole segment.
+ */
+export interface SegmentPage {
+  items: WaitlistAttributes[];
+  total: number;
+}
+
+/**
+ * State of an outbound send job.
+ * `sending` jobs are leased by a worker until their `nextAttemptAt`; `dead` jobs failed permanently.
+ * @typedef {'queued' | 'sending' | 'sent' | 'dead'} SendJobStatus
+ */
+export type SendJobStatus = 'queued' | 'sending' | 'sent' | 'dead';
+
+/**
+ * A persisted outbound email.
+ * @typedef {Object} SendJob
+ * @property {string} id - The unique job id.
+ * @property {string} email - The recipient.
+ * @property {string | null} [listId] - The list the recipient was queued from; its sender settings are used.
+ * @property {string} subject - The rendered subject line.
+ * @property {string} html - The rendered HTML body.
+ * @property {SendJobStatus} status - The job state.
+ * @property {number} attempts - How many delivery attempts have been made.
+ * @property {Date} nextAttemptAt - When the job is next due (or when a worker's lease expires).
+ * @property {string | null} [lastError] - The error of the last failed attempt.
+ * @property {string | null} [provider] - The transport that delivered the message.
+ * @property {Date} [createdAt] - When the job was enqueued.
+ */
+export interface SendJob {
+  id: string;
+  email: string;
+  listId?: string | null;
+  subject: string;
+  html: string;
+  status: SendJobStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string | null;
+  provider?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * State of a bulk campaign.
+ * @typedef {'running' | 'paused' | 'cancelled' | 'completed'} CampaignState
+ */
+export type CampaignState = 'running' | 'paused' | 'cancelled' | 'completed';
+
+/**
+ * A named, resumable bulk campaign.
+ * @typedef {Object} Campaign
+ * @property {string} id - The campaign name chosen by the caller.
+ * @property {CampaignState} status - The campaign state.
+ * @property {Date} [createdAt] - When the campaign was first started.
+ * @property {Date} [updatedAt] - When the campaign state last changed.
+ */
+export interface Campaign {
+  id: string;
+  status: CampaignState;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Delivery state of a campaign recipient. `sending` rows are claimed by a running process; `skipped` rows belong to
+ * recipients who were suppressed or unsubscribed by the time their turn came and are never retried.
+ * @typedef {'pending' | 'sending' | 'delivered' | 'failed' | 'skipped'} DeliveryStatus
+ */
+export type DeliveryStatus = 'pending' | 'sending' | 'delivered' | 'failed' | 'skipped';
+
+/**
+ * A per-recipient campaign delivery row.
+ * @typedef {Object} CampaignDelivery
+ * @property {string} campaignId - The campaign id.
+ * @property {string} email - The recipient.
+ * @property {DeliveryStatus} status - The delivery state.
+ * @property {string | null} [lastError] - The error of the last failed attempt.
+ * @property {Date | null} [deliveredAt] - When the message was delivered.
+ * @property {Date | null} [leaseUntil] - When the claim of a `sending` row expires.
+ */
+export interface CampaignDelivery {
+  campaignId: string;
+  email: string;
+  status: DeliveryStatus;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+  leaseUntil?: Date | null;
+}
+
+/**
+ * Why an address is suppressed.
+ * @typedef {'bounce' | 'complaint' | 'unsubscribe' | 'manual'} SuppressionReason
+ */
+export type SuppressionReason = 'bounce' | 'complaint' | 'unsubscribe' | 'manual';
+
+/**
+ * An entry of the global suppression list.
+ * @typedef {Object} SuppressionEntry
+ * @property {string} email - The suppressed address (lower-cased).
+ * @property {SuppressionReason} reason - Why the address is suppressed.
+ * @property {Date} createdAt - When the address was suppressed.
+ * @property {Date | null} [expiresAt] - When the suppression lapses; null means never.
+ * @property {string | null} [note] - Free-form details, e.g. the bounce message.
+ */
+export interface SuppressionEntry {
+  email: string;
+  reason: SuppressionReason;
+  createdAt: Date;
+  expiresAt?: Date | null;
+  note?: string | null;
+}
+
+/**
+ * State of a subscriber's progress through a drip sequence.
+ * @typedef {'active' | 'completed' | 'cancelled'} EnrollmentStatus
+ */
+export type EnrollmentStatus = 'active' | 'completed' | 'cancelled';
+
+/**
+ * A subscriber's progress through a drip sequence.
+ * @typedef {Object} SequenceEnrollment
+ * @property {string} sequenceId - The sequence id.
+ * @property {string} email - The subscriber.
+ * @property {string} listId - The list the subscriber is on.
+ * @property {number} step - The index of the next step to send; equals the number of steps once completed.
+ * @property {EnrollmentStatus} status - The enrollment state.
+ * @property {Date | null} nextRunAt - When the next step is due (or when a scheduler's lease expires); null once finished.
+ * @property {number} attempts - Failed attempts at the current step.
+ * @property {string | null} [lastError] - The error of the last failed attempt.
+ * @property {Date | null} [lastSentAt] - When the previous step was sent.
+ * @property {Date} createdAt - When the subscriber was enrolled.
+ */
+export interface SequenceEnrollment {
+  sequenceId: string;
+  email: string;
+  listId: string;
+  step: number;
+  status: EnrollmentStatus;
+  nextRunAt: Date | null;
+  attempts: number;
+  lastError?: string | null;
+  lastSentAt?: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * A sent message, recorded in the message log.
+ * @typedef {Object} MessageLogEntry
+ * @property {string} id - The message id, carried by the tracking links of the message.
+ * @property {string} email - The recipient.
+ * @property {string | null} [listId] - The list the recipient is on.
+ * @property {string} subject - The subject line.
+ * @property {string | null} [template] - The registry template or template file the message was rendered from.
+ * @property {string | null} [campaignId] - The campaign the message was sent for.
+ * @property {string} provider - The transport that accepted the message.
+ * @property {string | null} [providerMessageId] - The provider's message id.
+ * @property {string | null} [response] - The provider's raw response.
+ * @property {Date} sentAt - When the message was accepted.
+ * @property {number} opens - How many times the open pixel was loaded.
+ * @property {number} clicks - How many tracked links were followed.
+ * @property {Date | null} [openedAt] - When the message was first opened.
+ * @property {Date | null} [clickedAt] - When a link was first followed.
+ * @property {BounceSeverity | null} [bounce] - Whether the message bounced, and how.
+ * @property {Date | null} [bouncedAt] - When the bounce was reported.
+ * @property {Date | null} [complainedAt] - When the recipient reported the message as spam.
+ */
+export interface MessageLogEntry {
+  id: string;
+  email: string;
+  listId?: string | null;
+  subject: string;
+  template?: string | null;
+  campaignId?: string | null;
+  provider: string;
+  providerMessageId?: string | null;
+  response?: string | null;
+  sentAt: Date;
+  opens: number;
+  clicks: number;
+  openedAt?: Date | null;
+  clickedAt?: Date | null;
+  bounce?: BounceSeverity | null;
+  bouncedAt?: Date | null;
+  complainedAt?: Date | null;
+}
+
+/**
+ * How a message bounced: hard bounces are permanent, soft bounces temporary.
+ * @typedef {'hard' | 'soft'} BounceSeverity
+ */
+export type BounceSeverity = 'hard' | 'soft';
+
+/**
+ * Bounce and complaint reports recorded on a logged message.
+ * @typedef {Object} MessageFeedback
+ * @property {BounceSeverity} [bounce] - How the message bounced.
+ * @property {Date} [bouncedAt] - When the bounce was reported.
+ * @property {Date} [complainedAt] - When the complaint was reported.
+ */
+export type MessageFeedback = Pick<MessageLogEntry, 'bounce' | 'bouncedAt' | 'complainedAt'>;
+
+/**
+ * A recipient interaction recorded by the tracking links.
+ * @typedef {'open' | 'click'} TrackingEvent
+ */
+export type TrackingEvent = 'open' | 'click';
+
+/**
+ * Selects logged messages for delivery statistics. Every given criterion must match.
+ * @typedef {Object} MessageFilter
+ * @property {string} [campaignId] - Messages sent for this campaign.
+ * @property {string} [template] - Messages rendered from this template.
+ */
+export interface MessageFilter {
+  campaignId?: string;
+  template?: string;
+}
+
+/**
+ * Message log counts.
+ * @typedef {Object} MessageCounts
+ * @property {number} sent - Logged messages.
+ * @property {number} opened - Messages opened at least once.
+ * @property {number} clicked - Messages with at least one followed link.
+ */
+export interface MessageCounts {
+  sent: number;
+  opened: number;
+  clicked: number;
+}
+
+/**
+ * Error raised by `insert` when the list already has the email. Stores raise it from their unique
+ * index, so it is reliable even when several processes share the store.
+ * @class DuplicateEmailError
+ * @extends {Error}
+ */
+export class DuplicateEmailError extends Error {
+  public readonly email: string;
+  public readonly listId: string;
+
+  /**
+   * Creates an instance of DuplicateEmailError.
+   * @param {string} email - The email.
+   * @param {string} [listId='default'] - The list that already has it.
+   */
+  constructor(email: string, listId: string = DEFAULT_LIST_ID) {
+    super(`${email} is already on list ${listId}`);
+    this.name = 'DuplicateEmailError';
+    this.email = email;
+    this.listId = listId;
+  }
+}
+
+/**
+ * Storage adapter used by WaitlistMailer to persist the waitlist.
+ * The built-in adapters are LocalStore (in-memory), MongoStore and SqlStore;
+ * any object implementing this interface can be passed to the constructor instead.
+ * @interface WaitlistStore
+ */
+export interface WaitlistStore {
+  /**
+   * Opens the underlying connection and prepares collections/tables.
+   * @returns {Promise<void>}
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Checks that the connection is usable, e.g. with a round trip to the database.
+   * @returns {Promise<void>}
+   * @throws {Error} If the store cannot be reached.
+   */
+  ping(): Promise<void>;
+
+  /**
+   * Loads the stored emails of a list, used to warm the in-memory cache at startup.
+   * @param {SubscriberStatus} [status] - Only load entries in this state.
+   * @param {string} [listId='default'] - The list to load.
+   * @returns {Promise<string[]>}
+   */
+  loadEmails(status?: SubscriberStatus, listId?: string): Promise<string[]>;
+
+  /**
+   * Finds a single entry by email.
+   * @param {string} email - The email to look up.
+   * @param {string} [listId='default'] - The list the entry belongs to.
+   * @returns {Promise<WaitlistAttributes | null>}
+   */
+  findOne(email: string, listId?: string): Promise<WaitlistAttributes | null>;
+
+  /**
+   * Loads every entry of a list, ordered by creation date (oldest first).
+   * @param {string} [listId='default'] - The list to load.
+   * @returns {Promise<WaitlistAttributes[]>}
+   */
+  findAll(listId?: string): Promise<WaitlistAttributes[]>;
+
+  /**
+   * Finds a single entry by its referral code. Codes are unique across lists.
+   * @param {string} code - The referral code.
+   * @returns {Promise<WaitlistAttributes | null>}
+   */
+  findByReferralCode(code: string): Promise<WaitlistAttributes | null>;
+
+  /**
+   * Atomically increments an entry's referral count.
+   * @param {string} email - The email of the referrer.
+   * @param {string} [listId='default'] - The list the referrer belongs to.
+   * @returns {Promise<void>}
+   */
+  incrementReferralCount(email: string, listId?: string): Promise<void>;
+
+  /**
+   * Persists a single entry. Entries without a `listId` belong to the default list.
+   * The check for an existing entry must be atomic with the write (e.g., a unique index), as it decides signups.
+   * @param {WaitlistAttributes} record - The entry to persist.
+   * @returns {Promise<void>}
+   * @throws {DuplicateEmailError} If the list already has the email.
+   */
+  insert(record: WaitlistAttributes): Promise<void>;
+
+  /**
+   * Persists several new entries at once, e.g. during an import.
+   * @param {WaitlistAttributes[]} records - The entries to persist.
+   * @returns {Promise<void>}
+   */
+  insertMany(records: WaitlistAttributes[]): Promise<void>;
+
+  /**
+   * Updates fields of a single entry. Changing `email` renames the entry.
+   * @param {string} email - The email of the entry to update.
+   * @param {Partial<WaitlistAttributes>} changes - The fields to change.
+   * @param {string} [listId='default'] - The list the entry belongs to.
+   * @returns {Promise<void>}
+   */
+  update(email: string, changes: Partial<WaitlistAttributes>, listId?: string): Promise<void>;
+
+  /**
+   * Removes a single entry by email.
+   * @param {string} email - The email to remove.
+   * @param {string} [listId='default'] - The list the entry belongs to.
+   * @returns {Promise<void>}
+   */
+  remove(email: string, listId?: string): Promise<void>;
+
+  /**
+   * Removes every entry of a list.
+   * @param {string} [listId='default'] - The list to clear.
+   * @returns {Promise<void>}
+   */
+  clear(listId?: string): Promise<void>;
+
+  /**
+   * Finds emails of a list containing a pattern (case-insensitive).
+   * @param {string} pattern - The pattern to search for.
+   * @param {string} [listId='default'] - The list to search.
+   * @returns {Promise<string[]>}
+   */
+  findByPattern(pattern: string, listId?: string): Promise<string[]>;
+
+  /**
+   * Counts entries of a list created within an optional date range.
+   * @param {Date} [start] - The start date of the range.
+   * @param {Date} [end] - The end date of the range.
+   * @param {string} [listId='default'] - The list to count.
+   * @returns {Promise<number>}
+   */
+  countByDate(start?: Date, end?: Date, listId?: string): Promise<number>;
+
+  /**
+   * Replaces the stored entries of a list with the given emails. Other lists are left untouched.
+   * Fields of entries that are kept must be preserved, and the list must never be observed empty or partly written:
+   * write the new entries before removing stale ones, or use a transaction.
+   * @param {string[]} emails - The emails to store.
+   * @param {string} [listId='default'] - The list to replace.
+   * @returns {Promise<void>}
+   */
+  replaceAll(emails: string[], listId?: string): Promise<void>;
+
+  /**
+   * Finds the entries of a segment. Every adapter must return the same entries in the same order;
+   * `matchesSegment` and `compareForSort` in `segment.ts` define the expected semantics.
+   * @param {SegmentQuery} query - The filter, sort order and page.
+   * @returns {Promise<SegmentPage>}
+   */
+  findSegment(query: SegmentQuery): Promise<SegmentPage>;
+
+  // ---------- Invites ----------
+
+  /**
+   * Atomically marks the `invited` entry holding an invite code as `joined`, so a code can only be redeemed once.
+   * @param {string} code - The invite code.
+   * @param {Date} joinedAt - When the invite was redeemed.
+   * @returns {Promise<WaitlistAttributes | null>} - The redeemed entry, or null if no invited entry holds the code.
+   */
+  redeemInviteCode(code: string, joinedAt: Date): Promise<WaitlistAttributes | null>;
+
+  /**
+   * Counts the entries of a list by access state. Entries without an `inviteStatus` count as waiting.
+   * @param {string} [listId='default'] - The list to count.
+   * @param {string} [batchId] - Only count entries invited in this batch.
+   * @returns {Promise<Record<InviteStatus, number>>}
+   */
+  countInviteFunnel(listId?: string, batchId?: string): Promise<Record<InviteStatus, number>>;
+
+  // ---------- Send queue ----------
+
+  /**
+   * Persists a new send job.
+   * @param {SendJob} job - The job to persist.
+   * @returns {Promise<void>}
+   */
+  enqueueJob(job: SendJob): Promise<void>;
+
+  /**
+   * Claims up to `limit` jobs that are due, marking them as `sending` until `leaseUntil`.
+   * Jobs whose lease has expired (e.g., the worker crashed) are claimable again.
+   * @param {Date} now - The current time.
+   * @param {number} limit - The maximum number of jobs to claim.
+   * @param {Date} leaseUntil - When the claim expires.
+   * @returns {Promise<SendJob[]>} - The claimed jobs.
+   */
+  claimDueJobs(now: Date, limit: number, leaseUntil: Date): Promise<SendJob[]>;
+
+  /**
+   * Updates fields of a send job.
+   * @param {string} id - The job id.
+   * @param {Partial<SendJob>} changes - The fields to change.
+   * @returns {Promise<void>}
+   */
+  updateJob(id: string, changes: Partial<SendJob>): Promise<void>;
+
+  /**
+   * Lists send jobs, oldest first.
+   * @param {SendJobStatus} [status] - Only list jobs in this state.
+   * @returns {Promise<SendJob[]>}
+   */
+  findJobs(status?: SendJobStatus): Promise<SendJob[]>;
+
+  // ---------- Campaigns ----------
+
+  /**
+   * Creates or updates a campaign.
+   * @param {Campaign} campaign - The campaign to save.
+   * @returns {Promise<void>}
+   */
+  saveCampaign(campaign: Campaign): Promise<void>;
+
+  /**
+   * Finds a campaign by id.
+   * @param {string} id - The campaign id.
+   * @returns {Promise<Campaign | null>}
+   */
+  findCampaign(id: string): Promise<Campaign | null>;
+
+  /**
+   * Adds pending delivery rows for recipients that are not part of the campaign yet.
+   * Existing rows must be left untouched.
+   * @param {string} campaignId - The campaign id.
+   * @param {string[]} emails - The recipients.
+   * @returns {Promise<void>}
+   */
+  addCampaignRecipients(campaignId: string, emails: string[]): Promise<void>;
+
+  /**
+   * Lists the delivery rows of a campaign.
+   * @param {string} campaignId - The campaign id.
+   * @param {DeliveryStatus[]} [statuses] - Only list rows in these states.
+   * @returns {Promise<CampaignDelivery[]>}
+   */
+  findCampaignDeliveries(campaignId: string, statuses?: DeliveryStatus[]): Promise<CampaignDelivery[]>;
+
+  /**
+   * Updates a single delivery row.
+   * @param {string} campaignId - The campaign id.
+   * @param {string} email - The recipient.
+   * @param {Partial<CampaignDelivery>} changes - The fields to change.
+   * @returns {Promise<void>}
+   */
+  updateCampaignDelivery(campaignId: string, email: string, changes: Partial<CampaignDelivery>): Promise<void>;
+
+  /**
+   * Claims a pending or failed delivery row, marking it as `sending` until `leaseUntil`.
+   * Rows whose lease has expired (e.g., the process crashed mid-send) are claimable again.
+   * Must be atomic, so that processes running the same campaign never claim the same row.
+   * @param {string} campaignId - The campaign id.
+   * @param {string} email - The recipient.
+   * @param {Date} now - The current time.
+   * @param {Date} leaseUntil - When the claim expires.
+   * @returns {Promise<boolean>} - True if this call claimed the row.
+   */
+  claimCampaignDelivery(campaignId: string, email: string, now: Date, leaseUntil: Date): Promise<boolean>;
+
+  /**
+   * Counts the delivery rows of a campaign by state.
+   * @param {string} campaignId - The campaign id.
+   * @returns {Promise<Record<DeliveryStatus, number>>}
+   */
+  countCampaignDeliveries(campaignId: string): Promise<Record<DeliveryStatus, number>>;
+
+  // ---------- Suppression list ----------
+
+  /**
+   * Creates or replaces suppression entries, keyed by email.
+   * @param {SuppressionEntry[]} entries - The entries to save.
+   * @returns {Promise<void>}
+   */
+  saveSuppressions(entries: SuppressionEntry[]): Promise<void>;
+
+  /**
+   * Removes a suppression entry.
+   * @param {string} email - The suppressed address.
+   * @returns {Promise<boolean>} - True if an entry was removed.
+   */
+  removeSuppression(email: string): Promise<boolean>;
+
+  /**
+   * Finds the suppression entry of an address, whether or not it has expired.
+   * @param {string} email - The address to look up.
+   * @returns {Promise<SuppressionEntry | null>}
+   */
+  findSuppression(email: string): Promise<SuppressionEntry | null>;
+
+  /**
+   * Lists every suppression entry, newest first.
+   * @returns {Promise<SuppressionEntry[]>}
+   */
+  listSuppressions(): Promise<SuppressionEntry[]>;
+
+  // ---------- Drip sequences ----------
+
+  /**
+   * Creates or replaces an enrollment, keyed by sequence and email.
+   * @param {SequenceEnrollment} enrollment - The enrollment to save.
+   * @returns {Promise<void>}
+   */
+  saveEnrollment(enrollment: SequenceEnrollment): Promise<void>;
+
+  /**
+   * Lists the enrollments of an address in every sequence.
+   * @param {string} email - The subscriber.
+   * @returns {Promise<SequenceEnrollment[]>}
+   */
+  findEnrollments(email: string): Promise<SequenceEnrollment[]>;
+
+  /**
+   * Claims up to `limit` active enrollments whose next step is due, moving their `nextRunAt` to `leaseUntil`.
+   * Enrollments whose lease has expired (e.g., the scheduler crashed) are claimable again.
+   * @param {Date} now - The current time.
+   * @param {number} limit - The maximum number of enrollments to claim.
+   * @param {Date} leaseUntil - When the claim expires.
+   * @returns {Promise<SequenceEnrollment[]>} - The claimed enrollments.
+   */
+  claimDueEnrollments(now: Date, limit: number, leaseUntil: Date): Promise<SequenceEnrollment[]>;
+
+  // ---------- Message log ----------
+
+  /**
+   * Records a sent message.
+   * @param {MessageLogEntry} entry - The message.
+   * @returns {Promise<void>}
+   */
+  logMessage(entry: MessageLogEntry): Promise<void>;
+
+  /**
+   * Counts an open or click of a logged message and sets `openedAt` or `clickedAt` on the first one.
+   * @param {string} id - The message id.
+   * @param {TrackingEvent} event - What the recipient did.
+   * @param {Date} at - When it happened.
+   * @returns {Promise<MessageLogEntry | null>} - The updated message, or null if it is not in the log.
+   */
+  recordMessageEvent(id: string, event: TrackingEvent, at: Date): Promise<MessageLogEntry | null>;
+
+  /**
+   * Lists the logged messages sent to an address, newest first.
+   * @param {string} email - The recipient.
+   * @returns {Promise<MessageLogEntry[]>}
+   */
+  findMessages(email: string): Promise<MessageLogEntry[]>;
+
+  /**
+   * Counts the logged messages that match a filter, and how many of them were opened or clicked.
+   * @param {MessageFilter} filter - The messages to count.
+   * @returns {Promise<MessageCounts>}
+   */
+  countMessages(filter: MessageFilter): Promise<MessageCounts>;
+
+  /**
+   * Records a bounce or complaint on a logged message.
+   * @param {string} messageId - The message id, or the provider's message id.
+   * @param {MessageFeedback} feedback - The fields to set.
+   * @returns {Promise<MessageLogEntry | null>} - The updated message, or null if it is not in the log.
+   */
+  recordMessageFeedback(messageId: string, feedback: MessageFeedback): Promise<MessageLogEntry | null>;
+
+  // ---------- Rate limits ----------
+
+  /**
+   * Counts a hit on a rate-limit counter, e.g. signups from one IP address within a window.
+   * @param {string} key - The counter key; callers include the window in it, so a key is never reused once expired.
+   * @param {Date} expiresAt - When the counter can be discarded.
+   * @param {Date} now - The current time; counters that expired by then are discarded.
+   * @returns {Promise<number>} - The number of hits so far, including this one.
+   */
+  incrementCounter(key: string, expiresAt: Date, now: Date): Promise<number>;
+
+  /**
+   * Closes the underlying connection.
+   * @returns {Promise<void>}
+   */
+  close(): Promise<void>;
+}
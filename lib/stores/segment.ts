@@ -0,0 +1,161 @@
+import {
+  DEFAULT_LIST_ID,
+  FieldCondition,
+  FieldValue,
+  SegmentFilter,
+  SegmentQuery,
+  SubscriberStatus,
+  WaitlistAttributes,
+} from './WaitlistStore';
+
+/**
+ * Custom field names that may appear in a segment. They are interpolated into Mongo paths
+ * and SQL JSON paths, so anything else is rejected.
+ * @constant {RegExp} FIELD_NAME
+ */
+const FIELD_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Field condition operators.
+ * @constant {string[]} FIELD_OPERATORS
+ */
+const FIELD_OPERATORS = ['eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte', 'exists'];
+
+/**
+ * Normalizes a value that may be a single item or a list.
+ * @param {T | T[]} [value] - The value.
+ * @returns {T[]}
+ */
+export function toList<T>(value?: T | T[]): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Escapes a string for literal use inside a regular expression.
+ * @param {string} value - The raw string.
+ * @returns {string}
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks a custom field name used in a segment.
+ * @param {string} name - The field name.
+ * @throws {Error} If the name could be used to escape the field path.
+ */
+export function assertFieldName(name: string): void {
+  if (!FIELD_NAME.test(name)) {
+    throw new Error(`Invalid field name in segment: ${name}`);
+  }
+}
+
+/**
+ * Expands a field condition into its operator form (a bare value means `eq`).
+ * @param {FieldCondition} condition - The condition.
+ * @returns {Exclude<FieldCondition, FieldValue>}
+ * @throws {Error} If the condition uses an unknown operator.
+ */
+export function normalizeCondition(condition: FieldCondition): Exclude<FieldCondition, FieldValue> {
+  if (condition === null || typeof condition !== 'object') {
+    return { eq: condition };
+  }
+  const unknown = Object.keys(condition).find(key => !FIELD_OPERATORS.includes(key));
+  if (unknown) {
+    throw new Error(`Invalid field operator in segment: ${unknown}`);
+  }
+  return condition;
+}
+
+/**
+ * Compares two ordered field values of the same type; values of different types never match.
+ * @param {unknown} value - The stored value.
+ * @param {number | string} bound - The bound from the condition.
+ * @param {(difference: number) => boolean} test - The comparison on the sign of `value - bound`.
+ * @returns {boolean}
+ */
+function compareField(value: unknown, bound: number | string, test: (difference: number) => boolean): boolean {
+  if (typeof value !== typeof bound) return false;
+  if (typeof value === 'number') return test(value - (bound as number));
+  return test(value === bound ? 0 : (value as string) < (bound as string) ? -1 : 1);
+}
+
+/**
+ * Evaluates a field condition against a stored value. Missing fields count as null.
+ * @param {unknown} value - The stored value.
+ * @param {FieldCondition} condition - The condition.
+ * @returns {boolean}
+ */
+function matchesField(value: unknown, condition: FieldCondition): boolean {
+  const stored = value === undefined ? null : value;
+  const { eq, ne, in: within, gt, gte, lt, lte, exists } = normalizeCondition(condition);
+
+  if (eq !== undefined && stored !== eq) return false;
+  if (ne !== undefined && stored === ne) return false;
+  if (within !== undefined && !within.includes(stored as FieldValue)) return false;
+  if (gt !== undefined && !compareField(stored, gt, difference => difference > 0)) return false;
+  if (gte !== undefined && !compareField(stored, gte, difference => difference >= 0)) return false;
+  if (lt !== undefined && !compareField(stored, lt, difference => difference < 0)) return false;
+  if (lte !== undefined && !compareField(stored, lte, difference => difference <= 0)) return false;
+  if (exists !== undefined && (stored !== null) !== exists) return false;
+  return true;
+}
+
+/**
+ * Checks whether an entry belongs to a segment. This is the reference behaviour the database adapters mirror.
+ * @param {WaitlistAttributes} record - The entry.
+ * @param {SegmentFilter} filter - The segment.
+ * @returns {boolean}
+ */
+export function matchesSegment(record: WaitlistAttributes, filter: SegmentFilter): boolean {
+  const listIds = toList(filter.listId);
+  if (listIds.length > 0 && !listIds.includes(record.listId ?? DEFAULT_LIST_ID)) return false;
+
+  const email = record.email.toLowerCase();
+
+  const domains = toList(filter.email?.domain).map(domain => domain.toLowerCase());
+  if (domains.length > 0 && !domains.some(domain => email.endsWith(`@${domain}`))) return false;
+  if (filter.email?.contains && !email.includes(filter.email.contains.toLowerCase())) return false;
+
+  const createdAt = record.createdAt?.getTime() ?? 0;
+  if (filter.createdAt?.from && createdAt < filter.createdAt.from.getTime()) return false;
+  if (filter.createdAt?.to && createdAt > filter.createdAt.to.getTime()) return false;
+
+  const statuses = toList<SubscriberStatus>(filter.status);
+  if (statuses.length > 0 && !statuses.includes(record.status ?? 'confirmed')) return false;
+  if (filter.unsubscribed !== undefined && !!record.unsubscribedAt !== filter.unsubscribed) return false;
+
+  const referralCount = record.referralCount ?? 0;
+  if (filter.referralCount?.min !== undefined && referralCount < filter.referralCount.min) return false;
+  if (filter.referralCount?.max !== undefined && referralCount > filter.referralCount.max) return false;
+
+  const tags = record.tags ?? [];
+  if (filter.tags?.all && !filter.tags.all.every(tag => tags.includes(tag))) return false;
+  if (filter.tags?.any && !filter.tags.any.some(tag => tags.includes(tag))) return false;
+  if (filter.tags?.none && filter.tags.none.some(tag => tags.includes(tag))) return false;
+
+  for (const [name, condition] of Object.entries(filter.fields ?? {})) {
+    assertFieldName(name);
+    if (!matchesField(record.fields?.[name], condition)) return false;
+  }
+  return true;
+}
+
+/**
+ * Builds the comparator for a segment's sort order, breaking ties by email.
+ * @param {SegmentQuery['sort']} [sort] - The sort order (defaults to `createdAt` ascending).
+ * @returns {(a: WaitlistAttributes, b: WaitlistAttributes) => number}
+ */
+export function compareForSort(sort?: SegmentQuery['sort']): (a: WaitlistAttributes, b: WaitlistAttributes) => number {
+  const field = sort?.field ?? 'createdAt';
+  const direction = sort?.direction === 'desc' ? -1 : 1;
+  const key = (record: WaitlistAttributes): number | string => {
+    if (field === 'email') return record.email;
+    if (field === 'referralCount') return record.referralCount ?? 0;
+    return record.createdAt?.getTime() ?? 0;
+  };
+  const compare = (a: number | string, b: number | string) => (a < b ? -1 : a > b ? 1 : 0);
+
+  return (a, b) => direction * compare(key(a), key(b)) || compare(a.email, b.email);
+}
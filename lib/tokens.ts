@@ -0,0 +1,97 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Payload carried by a signed token.
+ * @typedef {Object} TokenPayload
+ * @property {string} email - The subscriber the token was issued for.
+ * @property {string} purpose - What the token may be used for (e.g., 'confirm').
+ * @property {string} [listId] - The list the subscriber is on; the default list when omitted.
+ * @property {number} [exp] - Expiry as a Unix timestamp in milliseconds.
+ * @property {string} [messageId] - The logged message a tracking token belongs to.
+ * @property {string} [url] - The target of a click-tracking token.
+ */
+export interface TokenPayload {
+  email: string;
+  purpose: string;
+  listId?: string;
+  exp?: number;
+  messageId?: string;
+  url?: string;
+}
+
+/**
+ * Result of verifying a signed token.
+ * @typedef {Object} TokenVerification
+ * @property {TokenPayload} payload - The decoded payload.
+ * @property {boolean} expired - Whether the token is past its expiry.
+ */
+export interface TokenVerification {
+  payload: TokenPayload;
+  expired: boolean;
+}
+
+/**
+ * Encodes a buffer as URL-safe base64 without padding.
+ * @param {Buffer} buffer - The buffer to encode.
+ * @returns {string}
+ */
+function toBase64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes a URL-safe base64 string.
+ * @param {string} value - The value to decode.
+ * @returns {Buffer}
+ */
+function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+/**
+ * Computes the HMAC-SHA256 signature of an encoded payload.
+ * @param {string} body - The encoded payload.
+ * @param {string} secret - The signing secret.
+ * @returns {Buffer}
+ */
+function sign(body: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(body).digest();
+}
+
+/**
+ * Creates a signed, URL-safe token.
+ * @param {TokenPayload} payload - The payload to sign.
+ * @param {string} secret - The signing secret.
+ * @returns {string} - The token in the form `<payload>.<signature>`.
+ */
+export function signToken(payload: TokenPayload, secret: string): string {
+  const body = toBase64Url(Buffer.from(JSON.stringify(payload), 'utf8'));
+  return `${body}.${toBase64Url(sign(body, secret))}`;
+}
+
+/**
+ * Verifies a signed token.
+ * @param {string} token - The token to verify.
+ * @param {string} secret - The signing secret.
+ * @param {string} purpose - The purpose the token must have been issued for.
+ * @param {Date} [now=new Date()] - The time the expiry is checked against.
+ * @returns {TokenVerification | null} - The decoded payload, or null if the token is malformed, tampered with or issued for another purpose.
+ */
+export function verifyToken(token: string, secret: string, purpose: string, now: Date = new Date()): TokenVerification | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = sign(body, secret);
+  const actual = fromBase64Url(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(fromBase64Url(body).toString('utf8')) as TokenPayload;
+    if (payload.purpose !== purpose || typeof payload.email !== 'string') return null;
+    return { payload, expired: payload.exp !== undefined && payload.exp < now.getTime() };
+  } catch {
+    return null;
+  }
+}
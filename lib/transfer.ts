@@ -0,0 +1,237 @@
+import { Readable, Writable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Formats supported by waitlist import and export.
+ * `ndjson` is newline-delimited JSON: one JSON object per line.
+ * @typedef {'csv' | 'ndjson'} TransferFormat
+ */
+export type TransferFormat = 'csv' | 'ndjson';
+
+/**
+ * A row read from an import stream.
+ * @typedef {Object} TransferRow
+ * @property {number} line - The 1-based line the row starts on.
+ * @property {Record<string, unknown>} [record] - The parsed row, keyed by column name.
+ * @property {string} [error] - Why the row could not be parsed.
+ */
+export interface TransferRow {
+  line: number;
+  record?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * A parser fed with decoded text as it arrives.
+ * @private
+ */
+interface RowParser {
+  push(text: string): TransferRow[];
+  end(): TransferRow[];
+}
+
+/**
+ * Leading characters that make spreadsheet applications read a cell as a formula.
+ * @constant {RegExp} FORMULA_PREFIX
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Formats a single CSV cell. Dates become ISO strings and objects become JSON;
+ * strings that would be read as a formula get a leading `'`, and
+ * cells containing separators, quotes or line breaks are quoted.
+ * @param {unknown} value - The cell value.
+ * @returns {string}
+ */
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value)
+      : typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats a CSV line (RFC 4180), including the trailing line break.
+ * @param {unknown[]} values - The cell values.
+ * @returns {string}
+ */
+export function toCsvLine(values: unknown[]): string {
+  return `${values.map(toCsvCell).join(',')}\r\n`;
+}
+
+/**
+ * Writes a chunk and waits for the stream to drain when its buffer is full.
+ * @param {Writable} stream - The destination.
+ * @param {string} chunk - The data to write.
+ * @returns {Promise<void>}
+ * @throws {Error} If the stream is closed or fails before it drains, e.g. when an HTTP client disconnects.
+ */
+export async function writeChunk(stream: Writable, chunk: string): Promise<void> {
+  if (stream.destroyed) {
+    throw new Error('Stream closed before the write');
+  }
+  if (stream.write(chunk)) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const settle = (error?: Error) => {
+      stream.off('drain', onDrain);
+      stream.off('close', onClose);
+      stream.off('error', settle);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new Error('Stream closed before it drained'));
+    stream.on('drain', onDrain);
+    stream.on('close', onClose);
+    stream.on('error', settle);
+  });
+}
+
+/**
+ * Incremental RFC 4180 parser. The first record is the header; quoted cells may span lines.
+ * @private
+ */
+class CsvParser implements RowParser {
+  private header?: string[];
+  private cells: string[] = [];
+  private cell = '';
+  private quoted = false;
+  private closingQuote = false;
+  private line = 1;
+  private rowLine = 1;
+
+  push(text: string): TransferRow[] {
+    const rows: TransferRow[] = [];
+    for (const char of text) {
+      if (this.quoted) {
+        if (this.closingQuote) {
+          this.closingQuote = false;
+          if (char === '"') {
+            this.cell += '"';
+            continue;
+          }
+          this.quoted = false;
+        } else {
+          if (char === '"') {
+            this.closingQuote = true;
+          } else {
+            if (char === '\n') this.line++;
+            this.cell += char;
+          }
+          continue;
+        }
+      }
+
+      if (char === '"' && this.cell === '') {
+        this.quoted = true;
+      } else if (char === ',') {
+        this.cells.push(this.cell);
+        this.cell = '';
+      } else if (char === '\n') {
+        const row = this.endRow();
+        if (row) rows.push(row);
+        this.line++;
+        this.rowLine = this.line;
+      } else if (char !== '\r') {
+        this.cell += char;
+      }
+    }
+    return rows;
+  }
+
+  end(): TransferRow[] {
+    if (this.quoted && !this.closingQuote) {
+      return [{ line: this.rowLine, error: 'Unterminated quoted value' }];
+    }
+    const row = this.cells.length > 0 || this.cell !== '' ? this.endRow() : null;
+    return row ? [row] : [];
+  }
+
+  /**
+   * Closes the current record. Blank lines are skipped and the first record becomes the header.
+   * @private
+   * @returns {TransferRow | null}
+   */
+  private endRow(): TransferRow | null {
+    const values = [...this.cells, this.cell];
+    this.cells = [];
+    this.cell = '';
+    this.quoted = false;
+    this.closingQuote = false;
+
+    if (values.length === 1 && values[0].trim() === '') return null;
+    if (!this.header) {
+      this.header = values.map((value, index) => (index === 0 ? value.replace(/^\uFEFF/, '') : value).trim());
+      return null;
+    }
+    if (values.length !== this.header.length) {
+      return { line: this.rowLine, error: `Expected ${this.header.length} columns, found ${values.length}` };
+    }
+    const header = this.header;
+    // Cells escaped against formula injection on export lose their leading quote
+    const unescape = (value: string) => value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+    return { line: this.rowLine, record: Object.fromEntries(header.map((name, index) => [name, unescape(values[index])])) };
+  }
+}
+
+/**
+ * Incremental newline-delimited JSON parser. Blank lines are skipped.
+ * @private
+ */
+class NdjsonParser implements RowParser {
+  private buffer = '';
+  private line = 0;
+
+  push(text: string): TransferRow[] {
+    const lines = (this.buffer + text).split('\n');
+    this.buffer = lines.pop() ?? '';
+    return lines.map(line => this.parseLine(line)).filter((row): row is TransferRow => row !== null);
+  }
+
+  end(): TransferRow[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    const row = rest ? this.parseLine(rest) : null;
+    return row ? [row] : [];
+  }
+
+  /**
+   * Parses one line into an object.
+   * @private
+   * @param {string} text - The line without its line break.
+   * @returns {TransferRow | null}
+   */
+  private parseLine(text: string): TransferRow | null {
+    const line = ++this.line;
+    if (!text.trim()) return null;
+    try {
+      const record = JSON.parse(text);
+      return record !== null && typeof record === 'object' && !Array.isArray(record)
+        ? { line, record }
+        : { line, error: 'Expected a JSON object' };
+    } catch {
+      return { line, error: 'Invalid JSON' };
+    }
+  }
+}
+
+/**
+ * Reads the rows of a CSV or NDJSON stream one at a time, so large files never sit in memory.
+ * CSV rows are keyed by the header line; malformed rows are yielded with an `error` instead of a `record`.
+ * @param {Readable} stream - The source, emitting strings or UTF-8 buffers.
+ * @param {TransferFormat} format - The format of the source.
+ * @returns {AsyncGenerator<TransferRow>}
+ */
+export async function* readRows(stream: Readable, format: TransferFormat): AsyncGenerator<TransferRow> {
+  const parser: RowParser = format === 'csv' ? new CsvParser() : new NdjsonParser();
+  const decoder = new StringDecoder('utf8');
+
+  for await (const chunk of stream) {
+    yield* parser.push(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+  }
+  yield* parser.push(decoder.end());
+  yield* parser.end();
+}
@@ -0,0 +1,108 @@
+import http from 'http';
+import https from 'https';
+import { MailTransport, OutgoingMessage, TransportError, TransportResult } from './MailTransport';
+
+/**
+ * Settings for a generic HTTP JSON email API.
+ * @typedef {Object} HttpTransportOptions
+ * @property {string} [name='http'] - The transport name.
+ * @property {string} url - The endpoint messages are POSTed to.
+ * @property {Record<string, string>} [headers] - Extra request headers, e.g. `Authorization`.
+ * @property {(message: OutgoingMessage) => unknown} [mapPayload] - Converts a message into the provider's request body.
+ * @property {string} [verifyUrl] - An endpoint answering GET requests, used to check the provider's health.
+ * @property {number} [timeout=10000] - Request timeout in milliseconds.
+ */
+export interface HttpTransportOptions {
+  name?: string;
+  url: string;
+  headers?: Record<string, string>;
+  mapPayload?: (message: OutgoingMessage) => unknown;
+  verifyUrl?: string;
+  timeout?: number;
+}
+
+/**
+ * HTTP status codes that reject the message itself rather than signalling a provider problem.
+ * @constant {number[]} PERMANENT_HTTP_CODES
+ */
+const PERMANENT_HTTP_CODES = [400, 413, 422];
+
+/**
+ * Transport for HTTP email APIs that accept a JSON body.
+ * @class HttpTransport
+ * @implements {MailTransport}
+ */
+export class HttpTransport implements MailTransport {
+  public readonly name: string;
+  private options: HttpTransportOptions;
+
+  /**
+   * Creates an instance of HttpTransport.
+   * @param {HttpTransportOptions} options - The endpoint settings.
+   */
+  constructor(options: HttpTransportOptions) {
+    this.name = options.name ?? 'http';
+    this.options = options;
+  }
+
+  public async verify(): Promise<void> {
+    if (!this.options.verifyUrl) return;
+    await this.request('GET', this.options.verifyUrl);
+  }
+
+  public async send(message: OutgoingMessage): Promise<TransportResult> {
+    const payload = this.options.mapPayload ? this.options.mapPayload(message) : message;
+    const body = await this.request('POST', this.options.url, JSON.stringify(payload));
+
+    let messageId: string | undefined;
+    try {
+      const parsed = JSON.parse(body);
+      messageId = parsed?.messageId ?? parsed?.id;
+    } catch {
+      // Providers that answer with plain text carry no message id
+    }
+    return { messageId, response: body };
+  }
+
+  /**
+   * Performs a request and resolves with the response body.
+   * @private
+   * @param {string} method - The HTTP method.
+   * @param {string} target - The URL.
+   * @param {string} [body] - The JSON request body.
+   * @returns {Promise<string>}
+   * @throws {TransportError} On network errors, timeouts and non-2xx responses.
+   */
+  private request(method: string, target: string, body?: string): Promise<string> {
+    const url = new URL(target);
+    const client = url.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+      const req = client.request(url, {
+        method,
+        timeout: this.options.timeout ?? 10000,
+        headers: {
+          ...(body ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) } : {}),
+          ...this.options.headers,
+        },
+      }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => { data += chunk; });
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            resolve(data);
+          } else {
+            reject(new TransportError(`HTTP ${status}: ${data}`, PERMANENT_HTTP_CODES.includes(status), status));
+          }
+        });
+      });
+
+      req.on('timeout', () => req.destroy(new Error('Request timed out')));
+      req.on('error', error => reject(error instanceof TransportError ? error : new TransportError(error.message, false)));
+      if (body) req.write(body);
+      req.end();
+    });
+  }
+}
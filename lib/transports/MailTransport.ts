@@ -0,0 +1,96 @@
+/**
+ * A fully rendered message handed to a transport.
+ * @typedef {Object} OutgoingMessage
+ * @property {string} from - The formatted sender (e.g., `"Company" <noreply@example.com>`).
+ * @property {string} to - The recipient.
+ * @property {string} subject - The subject line.
+ * @property {string} html - The HTML body.
+ * @property {string} [text] - The plain-text alternative.
+ * @property {Record<string, string>} [headers] - Extra message headers.
+ */
+export interface OutgoingMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * What a transport reports after accepting a message.
+ * @typedef {Object} TransportResult
+ * @property {string} [messageId] - The provider's message id.
+ * @property {string} [response] - The raw provider response.
+ */
+export interface TransportResult {
+  messageId?: string;
+  response?: string;
+}
+
+/**
+ * A mail delivery provider. WaitlistMailer tries its transports in order and
+ * fails over to the next one when a send fails with a transient error.
+ * @interface MailTransport
+ */
+export interface MailTransport {
+  /**
+   * A unique name used in health events and delivery records.
+   */
+  readonly name: string;
+
+  /**
+   * Checks that the provider is reachable and the credentials are accepted.
+   * @returns {Promise<void>}
+   * @throws {Error} If the provider is not usable.
+   */
+  verify(): Promise<void>;
+
+  /**
+   * Sends a message.
+   * @param {OutgoingMessage} message - The message to send.
+   * @returns {Promise<TransportResult>}
+   * @throws {TransportError | Error} If the provider rejects the message.
+   */
+  send(message: OutgoingMessage): Promise<TransportResult>;
+
+  /**
+   * Releases pooled connections, if any.
+   */
+  close?(): void;
+}
+
+/**
+ * Error raised by a transport. `permanent` errors are rejections of the message itself
+ * (e.g., an unknown mailbox) that no other provider would accept either, so they are not failed over.
+ * @class TransportError
+ * @extends {Error}
+ */
+export class TransportError extends Error {
+  public readonly permanent: boolean;
+  public readonly responseCode?: number;
+
+  /**
+   * Creates an instance of TransportError.
+   * @param {string} message - The error message.
+   * @param {boolean} permanent - Whether the failure is permanent.
+   * @param {number} [responseCode] - The SMTP or HTTP status code.
+   */
+  constructor(message: string, permanent: boolean, responseCode?: number) {
+    super(message);
+    this.name = 'TransportError';
+    this.permanent = permanent;
+    this.responseCode = responseCode;
+  }
+}
+
+/**
+ * Reads the SMTP response code that nodemailer attaches to its errors.
+ * @param {unknown} error - The error thrown by a send.
+ * @returns {number | undefined} - The code, or undefined if the error carries none.
+ */
+export function responseCodeOf(error: unknown): number | undefined {
+  return typeof error === 'object' && error !== null && 'responseCode' in error && typeof error.responseCode === 'number'
+    ? error.responseCode
+    : undefined;
+}
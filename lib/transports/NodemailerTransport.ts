@@ -0,0 +1,122 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailTransport, OutgoingMessage, responseCodeOf, TransportError, TransportResult } from './MailTransport';
+
+/**
+ * SMTP connection settings.
+ * @typedef {Object} SmtpTransportOptions
+ * @property {string} [name='smtp'] - The transport name.
+ * @property {string} host - The SMTP host.
+ * @property {number} port - The SMTP port.
+ * @property {string} user - The SMTP username.
+ * @property {string} pass - The SMTP password.
+ * @property {boolean} [secure] - Whether to use a secure connection (defaults to true if port is 465).
+ * @property {boolean} [pool] - Whether to reuse pooled SMTP connections.
+ * @property {number} [maxConnections] - The maximum number of pooled connections.
+ * @property {number} [maxMessages] - The number of messages sent per pooled connection before it is recycled.
+ */
+export interface SmtpTransportOptions {
+  name?: string;
+  host: string;
+  port: number;
+  user: string;
+  pass: string;
+  secure?: boolean;
+  pool?: boolean;
+  maxConnections?: number;
+  maxMessages?: number;
+}
+
+/**
+ * SMTP reply codes that point at the provider (authentication, policy) rather than the recipient.
+ * @constant {number[]} PROVIDER_SMTP_CODES
+ */
+const PROVIDER_SMTP_CODES = [530, 534, 535, 538];
+
+/**
+ * Transport backed by a nodemailer transporter: SMTP, or the JSON/stream transports for tests.
+ * @class NodemailerTransport
+ * @implements {MailTransport}
+ */
+export class NodemailerTransport implements MailTransport {
+  public readonly name: string;
+  private transporter: Transporter;
+
+  /**
+   * Creates an instance of NodemailerTransport.
+   * @param {string} name - The transport name.
+   * @param {Transporter} transporter - The nodemailer transporter.
+   */
+  constructor(name: string, transporter: Transporter) {
+    this.name = name;
+    this.transporter = transporter;
+  }
+
+  /**
+   * Creates an SMTP transport.
+   * @param {SmtpTransportOptions} options - The SMTP settings.
+   * @returns {NodemailerTransport}
+   */
+  public static smtp(options: SmtpTransportOptions): NodemailerTransport {
+    const transportOptions = {
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? options.port === 465,
+      auth: {
+        user: options.user,
+        pass: options.pass,
+      },
+    };
+    const transporter = options.pool
+      ? nodemailer.createTransport({
+        ...transportOptions,
+        pool: true,
+        maxConnections: options.maxConnections,
+        maxMessages: options.maxMessages,
+      })
+      : nodemailer.createTransport(transportOptions);
+    return new NodemailerTransport(options.name ?? 'smtp', transporter);
+  }
+
+  /**
+   * Creates a transport that renders messages as JSON without sending them.
+   * @param {string} [name='json'] - The transport name.
+   * @returns {NodemailerTransport}
+   */
+  public static json(name: string = 'json'): NodemailerTransport {
+    return new NodemailerTransport(name, nodemailer.createTransport({ jsonTransport: true }));
+  }
+
+  /**
+   * Creates a transport that renders messages as raw RFC 822 streams without sending them.
+   * @param {string} [name='stream'] - The transport name.
+   * @returns {NodemailerTransport}
+   */
+  public static stream(name: string = 'stream'): NodemailerTransport {
+    return new NodemailerTransport(name, nodemailer.createTransport({ streamTransport: true, buffer: true }));
+  }
+
+  public verify(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const result: unknown = this.transporter.verify(error => (error ? reject(error) : resolve()));
+      // Transports without a verify step (JSON, stream) return false and never call back
+      if (result === false) resolve();
+    });
+  }
+
+  public async send(message: OutgoingMessage): Promise<TransportResult> {
+    try {
+      const info = await this.transporter.sendMail(message);
+      return { messageId: info?.messageId, response: info?.response };
+    } catch (error) {
+      const responseCode = responseCodeOf(error);
+      const permanent = responseCode !== undefined
+        && responseCode >= 500 && responseCode < 600
+        && !PROVIDER_SMTP_CODES.includes(responseCode);
+      throw new TransportError(error instanceof Error ? error.message : String(error), permanent, responseCode);
+    }
+  }
+
+  public close(): void {
+    this.transporter.close?.();
+  }
+}